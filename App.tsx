@@ -1,16 +1,46 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Post, BrandContext, Client, MediaType } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Post, PostStatus, BrandContext, Client, MediaType, MediaItem, User, PostEvent, PostComment, MentionableUser, CommentPin, ContentPillar, PostApproval, PostEditConflict } from './types';
 import { PostEditor } from './components/PostEditor';
 import { MetaSettings } from './src/components/MetaSettings';
 import { ClientManagement } from './components/ClientManagement';
+import { MediaCarousel } from './components/MediaCarousel';
+import { AnnotatedMedia } from './components/AnnotatedMedia';
+import { MediaItemsEditor } from './components/MediaItemsEditor';
+import { CaptionVariantsEditor } from './components/CaptionVariantsEditor';
+import { CaptionVersionsModal } from './components/CaptionVersionsModal';
+import { PostComments } from './components/PostComments';
 import { GeneratePostsModal } from './components/GeneratePostsModal';
+import { PostLabelsEditor } from './components/PostLabelsEditor';
+import { PostFiltersBar } from './components/PostFiltersBar';
+import { ContentPillarsEditor } from './components/ContentPillarsEditor';
+import { BacklogSidebar } from './components/BacklogSidebar';
+import { BulkActionsBar } from './components/BulkActionsBar';
+import { TrashModal } from './components/TrashModal';
+import { MergeConflictModal } from './components/MergeConflictModal';
+import { SyncStatusBadge } from './components/SyncStatusBadge';
+import { ApprovalProgress } from './components/ApprovalProgress';
+import { PresenceAvatars, FieldLockNotice } from './components/PresenceAvatars';
 import { supabase } from './services/supabaseClient';
-import { Plus, Leaf, Loader2, Copy, Check, Lock, Upload, Trash2, AlertCircle, RefreshCw, Settings, Table2, Calendar, Users, Sparkles, Mail, Clock, Send, FileText, Image, Film, X, LayoutGrid, HardDrive, LogOut } from 'lucide-react';
+import { Plus, Leaf, Loader2, Copy, Check, Lock, Upload, Trash2, AlertCircle, RefreshCw, Settings, Table2, Calendar, Users, Sparkles, Mail, Clock, Send, FileText, Image, Film, X, LayoutGrid, HardDrive, LogOut, History, Layers, Share2, GitCompare, Tag, CloudOff } from 'lucide-react';
 import { generateCaptionFromImage, updateFromFeedback, generateImageFromFeedback } from './services/geminiService';
 import { isGmailConnected, getConnectedEmail, connectGmail, sendEmail, clearGmailSettings } from './services/gmailService';
 import { isDriveConnected, getDriveEmail, connectDrive, clearDriveSettings } from './services/driveService';
 import { isLateConfigured, getProfiles, schedulePost, LateProfile } from './services/lateService';
-import { uploadMedia, uploadImage, detectMediaType } from './services/storageService';
+import { uploadMedia, uploadImage, detectMediaType, getMediaItems, toMediaFields, MAX_MEDIA_ITEMS } from './services/storageService';
+import { getPostHistory, getFieldLabel, getSourceLabel, CHANGE_SOURCE_HEADER, ChangeSource } from './services/postHistoryService';
+import { canTransition, getStatusOptions, isLockedStatus } from './services/statusService';
+import { getClientComments, addComment, setCommentResolved, getMentionableUsers, getOpenFeedback, getThreads, getImageAnnotations } from './services/commentService';
+import { createMonthReviewLinks } from './services/reviewService';
+import { bulkUpdatePosts, shiftDate, moveToMonth } from './services/bulkService';
+import { trashPosts, restorePosts, purgePosts } from './services/trashService';
+import { joinClientPresence, getPostPeers, getFieldEditor, PresenceConnection, PresencePeer, PresenceField } from './services/presenceService';
+import { subscribeToPostChanges, PostRowChange } from './services/realtimeService';
+import { enqueueMutation, getQueuedMutations, removeQueuedMutation, isRetryableError, getQueuedPostIds, QueuedEntry, QueuedMutation, PostSyncState } from './services/offlineQueueService';
+import { getClientApprovals, approvePosts, withdrawApprovals, getClientApprovers, getApprovalProgress, hasApprovalRule, getApprovalLeadDays, getApprovalDeadline, getApprovalRisk, ClientApprover } from './services/approvalService';
+import { PostFilters, EMPTY_FILTERS, getClientPillars, getPillar, getPillarColors, matchesFilters, getCampaigns, getTags } from './services/pillarService';
+import { DEFAULT_PUBLISH_TIME, TIMEZONE_OPTIONS, getPublishTime, getClientTimezone, getTodayInTimezone, toLocalDateTime, formatPublishTime, getTimezoneAbbreviation, comparePublishTime } from './services/scheduleService';
+import { buildBaseCaption, buildPlatformCaption, toSocialPlatform, getCaptionIssues, PLATFORMS, PLATFORM_LIMITS } from './services/captionService';
+import { login, logout, restoreSession, saveSelectedClient, isAgencyRole, canEditPosts, canManageSettings, ROLE_LABELS, AuthResult } from './services/authService';
 
 // Debounced Textarea Component - prevents typing lag
 function DebouncedTextarea({
@@ -18,20 +48,29 @@ function DebouncedTextarea({
   onChange,
   className,
   placeholder,
-  debounceMs = 500
+  disabled = false,
+  debounceMs = 500,
+  onFocus,
+  onBlur
 }: {
   value: string;
   onChange: (value: string) => void;
   className?: string;
   placeholder?: string;
+  disabled?: boolean;
   debounceMs?: number;
+  onFocus?: () => void;
+  onBlur?: () => void;
 }) {
   const [localValue, setLocalValue] = useState(value);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingRef = useRef<string | null>(null); // Typed but not yet sent
+  const focusedRef = useRef(false);
 
-  // Sync local value when external value changes (e.g., from AI generation)
+  // Sync local value when external value changes (e.g., from AI generation),
+  // but never under someone's cursor - a focused field catches up on blur
   useEffect(() => {
-    setLocalValue(value);
+    if (!focusedRef.current) setLocalValue(value);
   }, [value]);
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -44,11 +83,32 @@ function DebouncedTextarea({
     }
 
     // Set new debounce timer
+    pendingRef.current = newValue;
     timerRef.current = setTimeout(() => {
+      pendingRef.current = null;
       onChange(newValue);
     }, debounceMs);
   };
 
+  const handleFocus = () => {
+    focusedRef.current = true;
+    onFocus?.();
+  };
+
+  // Send any pending edit now, otherwise take whatever changed while focused
+  const handleBlur = () => {
+    focusedRef.current = false;
+    if (pendingRef.current !== null) {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+      onChange(pending);
+    } else {
+      setLocalValue(value);
+    }
+    onBlur?.();
+  };
+
   // Cleanup timer on unmount
   useEffect(() => {
     return () => {
@@ -62,8 +122,11 @@ function DebouncedTextarea({
     <textarea
       value={localValue}
       onChange={handleChange}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
       className={className}
       placeholder={placeholder}
+      disabled={disabled}
     />
   );
 }
@@ -74,20 +137,28 @@ function DebouncedInput({
   onChange,
   className,
   placeholder,
-  debounceMs = 500
+  disabled = false,
+  debounceMs = 500,
+  onFocus,
+  onBlur
 }: {
   value: string;
   onChange: (value: string) => void;
   className?: string;
   placeholder?: string;
+  disabled?: boolean;
   debounceMs?: number;
+  onFocus?: () => void;
+  onBlur?: () => void;
 }) {
   const [localValue, setLocalValue] = useState(value);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingRef = useRef<string | null>(null); // Typed but not yet sent
+  const focusedRef = useRef(false);
 
-  // Sync local value when external value changes
+  // Sync local value when external value changes (not while focused)
   useEffect(() => {
-    setLocalValue(value);
+    if (!focusedRef.current) setLocalValue(value);
   }, [value]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -100,11 +171,32 @@ function DebouncedInput({
     }
 
     // Set new debounce timer
+    pendingRef.current = newValue;
     timerRef.current = setTimeout(() => {
+      pendingRef.current = null;
       onChange(newValue);
     }, debounceMs);
   };
 
+  const handleFocus = () => {
+    focusedRef.current = true;
+    onFocus?.();
+  };
+
+  // Send any pending edit now, otherwise take whatever changed while focused
+  const handleBlur = () => {
+    focusedRef.current = false;
+    if (pendingRef.current !== null) {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      const pending = pendingRef.current;
+      pendingRef.current = null;
+      onChange(pending);
+    } else {
+      setLocalValue(value);
+    }
+    onBlur?.();
+  };
+
   // Cleanup timer on unmount
   useEffect(() => {
     return () => {
@@ -119,14 +211,109 @@ function DebouncedInput({
       type="text"
       value={localValue}
       onChange={handleChange}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
       className={className}
       placeholder={placeholder}
+      disabled={disabled}
     />
   );
 }
 
+// Format an audit value for the history panel
+const formatEventValue = (field: string | undefined, value: unknown): string => {
+  if (field === 'deleted_at') return value ? 'In trash' : 'Restored';
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (field === 'image_url') return typeof value === 'string' && value.startsWith('data:') ? '(embedded image)' : 'media file';
+  if (field === 'caption_variants' && typeof value === 'object') {
+    return Object.keys(value as object).map(platform => PLATFORM_LIMITS[platform as keyof typeof PLATFORM_LIMITS]?.label || platform).join(', ') || '(none)';
+  }
+  if (field === 'media_items' && Array.isArray(value)) return value.length === 1 ? '1 media item' : `${value.length} media items`;
+  if (field === 'date' && typeof value === 'string') {
+    const [year, month, day] = value.split('-');
+    return `${day}/${month}/${year}`;
+  }
+  if (Array.isArray(value)) return value.map(v => field === 'generated_hashtags' ? `#${v}` : String(v)).join(' ') || '(empty)';
+  const text = String(value);
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+};
+
+// Post History Panel - audit trail from post_events
+function PostHistoryPanel({ postId }: { postId: string }) {
+  const [events, setEvents] = useState<PostEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    getPostHistory(postId)
+      .then(setEvents)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load history'))
+      .finally(() => setLoading(false));
+  }, [postId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-stone-400 py-6 justify-center">
+        <Loader2 className="w-4 h-4 animate-spin" /> Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-stone-400 py-6 text-center">No changes recorded yet</p>;
+  }
+
+  return (
+    <ul className="space-y-3 max-h-[420px] overflow-y-auto pr-1">
+      {events.map(event => {
+        const sourceLabel = getSourceLabel(event.source);
+        return (
+          <li key={event.id} className="text-sm border-l-2 border-stone-200 pl-3">
+            <div className="flex items-center justify-between gap-2 text-xs text-stone-400">
+              <span>
+                <span className="font-medium text-stone-600">{event.actorName}</span>
+                {sourceLabel && <span className="ml-1.5 px-1.5 py-0.5 bg-stone-100 rounded">via {sourceLabel}</span>}
+              </span>
+              <span>{new Date(event.createdAt).toLocaleString('en-AU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+            </div>
+            {event.eventType === 'insert' && <p className="text-stone-700 mt-0.5">Created the post</p>}
+            {event.eventType === 'delete' && <p className="text-stone-700 mt-0.5">Deleted the post</p>}
+            {(event.eventType === 'update' || event.eventType === 'status_change') && (
+              <p className="text-stone-700 mt-0.5">
+                Changed <span className="font-medium">{getFieldLabel(event.field)}</span>:{' '}
+                <span className="text-stone-400 line-through break-words">{formatEventValue(event.field, event.oldValue)}</span>
+                {' → '}
+                <span className="break-words">{formatEventValue(event.field, event.newValue)}</span>
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
 // Post Detail Modal Component
-function PostDetailModal({ post, onClose }: { post: Post, onClose: () => void }) {
+function PostDetailModal({ post, pillars, comments, mentionables, canComment, isAgency, peers = [], syncState, onAddComment, onResolveComment, onClose }: {
+  post: Post,
+  pillars: ContentPillar[],
+  comments: PostComment[],
+  mentionables: MentionableUser[],
+  canComment: boolean,
+  isAgency: boolean,
+  peers?: PresencePeer[], // Others on this post right now
+  syncState?: PostSyncState,
+  onAddComment: (postId: string, body: string, parentId: string | undefined, mentions: string[], options?: { pin?: CommentPin; internal?: boolean }) => Promise<void>,
+  onResolveComment: (commentId: string, resolved: boolean) => Promise<void>,
+  onClose: () => void
+}) {
+  const [showHistory, setShowHistory] = useState(false);
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
       <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full" onClick={(e) => e.stopPropagation()}>
@@ -140,18 +327,16 @@ function PostDetailModal({ post, onClose }: { post: Post, onClose: () => void })
         <div className="flex">
           {/* Left side - Image/Video */}
           <div className="w-1/2 flex-shrink-0">
-            {post.imageUrl ? (
-              post.mediaType === 'video' ? (
-                <video
-                  src={post.imageUrl}
-                  className="w-full h-full object-cover rounded-l-xl"
-                  controls
-                  muted
-                  playsInline
-                />
-              ) : (
-                <img src={post.imageUrl} alt="Post" className="w-full h-full object-cover rounded-l-xl" />
-              )
+            {getMediaItems(post).length > 0 ? (
+              <AnnotatedMedia
+                postId={post.id}
+                items={getMediaItems(post)}
+                comments={comments}
+                mentionables={mentionables}
+                canComment={canComment}
+                onAddPin={(body, mentions, pin) => onAddComment(post.id, body, undefined, mentions, { pin })}
+                className="w-full h-full object-cover rounded-l-xl"
+              />
             ) : (
               <div className="w-full h-full min-h-[400px] bg-stone-100 rounded-l-xl flex items-center justify-center">
                 <span className="text-stone-400">No media</span>
@@ -165,7 +350,9 @@ function PostDetailModal({ post, onClose }: { post: Post, onClose: () => void })
             <div className="mb-4">
               <div className="flex items-center gap-3 mb-2">
                 <span className={`inline-block px-3 py-1 rounded text-xs font-bold uppercase ${
-                  post.status === 'Posted' ? 'bg-stone-800 text-white' :
+                  post.status === 'Published' ? 'bg-stone-800 text-white' :
+                  post.status === 'Scheduled' ? 'bg-blue-600 text-white' :
+                  post.status === 'Failed' ? 'bg-red-600 text-white' :
                   post.status === 'Approved' ? 'bg-brand-green text-white' :
                   post.status === 'For Approval' ? 'bg-amber-100 text-amber-800' :
                   post.status === 'Revision' ? 'bg-red-100 text-red-800' :
@@ -176,13 +363,55 @@ function PostDetailModal({ post, onClose }: { post: Post, onClose: () => void })
                 <p className="text-sm text-stone-500">
                   {post.date ? (() => {
                     const [year, month, day] = post.date.split('-');
-                    return `${day}/${month}/${year}`;
+                    return `${day}/${month}/${year} at ${formatPublishTime(getPublishTime(post))}`;
                   })() : 'No date'}
                 </p>
+                <div className="ml-auto mr-8 flex items-center gap-2">
+                  <SyncStatusBadge state={syncState} />
+                  <PresenceAvatars peers={peers} postId={post.id} />
+                </div>
               </div>
               <h2 className="text-xl font-serif font-bold text-brand-dark">{post.title || 'Untitled Post'}</h2>
+              {(getPillar(pillars, post.pillarId) || post.campaign || (post.tags && post.tags.length > 0)) && (
+                <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                  {(() => {
+                    const pillar = getPillar(pillars, post.pillarId);
+                    return pillar && (
+                      <span className={`text-xs font-medium px-2 py-0.5 rounded ${getPillarColors(pillar).bg} ${getPillarColors(pillar).text}`}>{pillar.name}</span>
+                    );
+                  })()}
+                  {post.campaign && (
+                    <span className="text-xs font-medium px-2 py-0.5 rounded border border-stone-300 text-stone-600">{post.campaign}</span>
+                  )}
+                  {(post.tags || []).map(tag => (
+                    <span key={tag} className="text-[11px] px-1.5 py-0.5 rounded bg-stone-100 text-stone-500">{tag}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Details / History toggle */}
+            <div className="flex gap-1 mb-4 border-b border-stone-200">
+              <button
+                onClick={() => setShowHistory(false)}
+                className={`px-3 py-2 text-xs font-bold uppercase tracking-wide border-b-2 -mb-[1px] transition-colors ${!showHistory ? 'text-brand-dark border-brand-green' : 'text-stone-400 border-transparent hover:text-stone-600'}`}
+              >
+                Details
+              </button>
+              <button
+                onClick={() => setShowHistory(true)}
+                className={`flex items-center gap-1 px-3 py-2 text-xs font-bold uppercase tracking-wide border-b-2 -mb-[1px] transition-colors ${showHistory ? 'text-brand-dark border-brand-green' : 'text-stone-400 border-transparent hover:text-stone-600'}`}
+              >
+                <History className="w-3.5 h-3.5" /> History
+              </button>
             </div>
 
+            {showHistory ? (
+              <div className="mb-4 flex-1">
+                <PostHistoryPanel postId={post.id} />
+              </div>
+            ) : (
+            <>
             {/* Caption */}
             {post.generatedCaption && (
               <div className="mb-4 flex-1">
@@ -205,13 +434,44 @@ function PostDetailModal({ post, onClose }: { post: Post, onClose: () => void })
               </div>
             )}
 
-            {/* Notes */}
-            {post.notes && (
+            {/* Comments */}
+            {(canComment || getThreads(comments, post.id).length > 0) && (
+              <div className="mb-4">
+                <h3 className="text-xs font-bold text-stone-500 uppercase tracking-wide mb-2">Comments</h3>
+                <div className="max-h-[240px] overflow-y-auto pr-1">
+                  <PostComments
+                    postId={post.id}
+                    comments={comments}
+                    mentionables={mentionables}
+                    canComment={canComment}
+                    onAdd={(body, parentId, mentions) => onAddComment(post.id, body, parentId, mentions)}
+                    onResolve={onResolveComment}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Internal notes - agency only (client sessions never receive them) */}
+            {isAgency && (
               <div className="mb-4">
-                <h3 className="text-xs font-bold text-stone-500 uppercase tracking-wide mb-2">Notes</h3>
-                <p className="text-sm text-stone-600 leading-relaxed whitespace-pre-wrap bg-stone-50 p-3 rounded-lg">{post.notes}</p>
+                <h3 className="text-xs font-bold text-amber-700 uppercase tracking-wide mb-2 flex items-center gap-1">
+                  <Lock className="w-3 h-3" /> Internal Notes
+                </h3>
+                <div className="max-h-[200px] overflow-y-auto pr-1">
+                  <PostComments
+                    postId={post.id}
+                    comments={comments}
+                    mentionables={mentionables}
+                    canComment={canComment}
+                    internal
+                    onAdd={(body, parentId, mentions) => onAddComment(post.id, body, parentId, mentions, { internal: true })}
+                    onResolve={onResolveComment}
+                  />
+                </div>
               </div>
             )}
+            </>
+            )}
 
             {/* Close Button */}
             <button
@@ -282,17 +542,76 @@ const getAustralianHolidays = (year: number): Record<string, string> => {
 };
 
 // Calendar View Component
-function CalendarView({ posts, selectedMonth, onUpdatePostDate, onAddPost }: { posts: Post[], selectedMonth: Date, onUpdatePostDate?: (postId: string, newDate: string) => void, onAddPost?: (date: string) => void }) {
+// Calendar layouts - the month grid, one week in time-of-day slots, or a list by day
+type CalendarLayout = 'month' | 'week' | 'agenda';
+
+const CALENDAR_LAYOUTS: { id: CalendarLayout; label: string }[] = [
+  { id: 'month', label: 'Month' },
+  { id: 'week', label: 'Week' },
+  { id: 'agenda', label: 'Agenda' },
+];
+
+// Hours the week view always shows (it widens for posts outside them)
+const WEEK_VIEW_HOURS = { from: 6, to: 21 };
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Sunday on or before a YYYY-MM-DD - weeks start on Sunday, like the month grid
+const getWeekStart = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return shiftDate(date, -new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+};
+
+// The week a month opens on: this week for the current month, otherwise the week of the 1st
+const getMonthWeekStart = (month: Date): string => {
+  const today = new Date();
+  const isThisMonth = today.getFullYear() === month.getFullYear() && today.getMonth() === month.getMonth();
+  return getWeekStart(toDateKey(isThisMonth ? today : new Date(month.getFullYear(), month.getMonth(), 1)));
+};
+
+const isWeekInMonth = (weekStart: string, month: Date): boolean => {
+  const monthKey = toDateKey(month).slice(0, 7);
+  return weekStart.slice(0, 7) === monthKey || shiftDate(weekStart, 6).slice(0, 7) === monthKey;
+};
+
+function CalendarView({ posts, pillars, comments, mentionables, canComment, isAgency, selectedMonth, presencePeers = [], syncStates = {}, onMonthChange, onViewPost, onUpdatePostDate, onUpdatePostTime, onAddPost, onAddIdea, onAddComment, onResolveComment }: {
+  posts: Post[],
+  pillars: ContentPillar[],
+  comments: PostComment[],
+  mentionables: MentionableUser[],
+  canComment: boolean,
+  isAgency: boolean,
+  selectedMonth: Date,
+  presencePeers?: PresencePeer[],
+  syncStates?: Record<string, PostSyncState>,
+  onMonthChange?: (month: Date) => void, // Keeps the month tabs on the month being shown
+  onViewPost?: (postId: string | null) => void, // Shared as presence while the detail modal is open
+  onUpdatePostDate?: (postId: string, newDate: string) => void,
+  onUpdatePostTime?: (postId: string, newTime: string) => void, // Dropping on a week view time slot
+  onAddPost?: (date: string) => void,
+  onAddIdea?: (title: string) => Promise<void>,
+  onAddComment: (postId: string, body: string, parentId: string | undefined, mentions: string[], options?: { pin?: CommentPin; internal?: boolean }) => Promise<void>,
+  onResolveComment: (commentId: string, resolved: boolean) => Promise<void>
+}) {
   const [currentMonth, setCurrentMonth] = useState(selectedMonth);
   const [draggedPost, setDraggedPost] = useState<Post | null>(null);
   const [dragOverDate, setDragOverDate] = useState<string | null>(null);
+  const [colorBy, setColorBy] = useState<'status' | 'pillar'>(pillars.length > 0 ? 'pillar' : 'status');
+  const [layout, setLayout] = useState<CalendarLayout>('month');
+  const [weekStart, setWeekStart] = useState(() => getMonthWeekStart(selectedMonth));
 
-  // Sync with parent selectedMonth
+  // Sync with parent selectedMonth (the week only moves if it's outside the new month)
   useEffect(() => {
     setCurrentMonth(selectedMonth);
+    setWeekStart(prev => isWeekInMonth(prev, selectedMonth) ? prev : getMonthWeekStart(selectedMonth));
   }, [selectedMonth]);
   const [selectedPost, setSelectedPost] = useState<Post | null>(null);
 
+  useEffect(() => {
+    onViewPost?.(selectedPost?.id ?? null);
+  }, [selectedPost?.id]);
+
   const getDaysInMonth = (date: Date) => {
     const year = date.getFullYear();
     const month = date.getMonth();
@@ -307,9 +626,12 @@ function CalendarView({ posts, selectedMonth, onUpdatePostDate, onAddPost }: { p
   const { daysInMonth, startingDayOfWeek, year, month } = getDaysInMonth(currentMonth);
   const holidays = getAustralianHolidays(year);
 
+  // Undated posts live in the backlog sidebar, not on a day
+  const backlog = posts.filter(post => !post.date);
+
   const getPostsForDate = (day: number) => {
     const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-    return posts.filter(post => post.date === dateStr);
+    return posts.filter(post => post.date === dateStr).sort(comparePublishTime);
   };
 
   const getHolidayForDate = (day: number) => {
@@ -320,149 +642,376 @@ function CalendarView({ posts, selectedMonth, onUpdatePostDate, onAddPost }: { p
   const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
   const dayNames = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
 
+  const getHoliday = (dateStr: string) => getAustralianHolidays(Number(dateStr.slice(0, 4)))[dateStr] || null;
+
+  // The arrows move a month, or a week in the week view - the month tabs follow either way
+  const changeMonth = (next: Date) => {
+    setCurrentMonth(next);
+    onMonthChange?.(next);
+  };
+
+  const moveWeek = (days: number) => {
+    const next = shiftDate(weekStart, days);
+    setWeekStart(next);
+    // A week belongs to the month its Wednesday is in
+    const [midYear, midMonth] = shiftDate(next, 3).split('-').map(Number);
+    if (midYear !== year || midMonth - 1 !== month) changeMonth(new Date(midYear, midMonth - 1, 1));
+  };
+
   const previousMonth = () => {
-    setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1));
+    if (layout === 'week') moveWeek(-7);
+    else changeMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1));
   };
 
   const nextMonth = () => {
-    setCurrentMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1));
+    if (layout === 'week') moveWeek(7);
+    else changeMonth(new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1));
+  };
+
+  // Week view - seven days from weekStart, hour slots wide enough for every post that week
+  const weekDays = Array.from({ length: 7 }, (_, i) => shiftDate(weekStart, i));
+  const weekPosts = posts.filter(post => post.date >= weekDays[0] && post.date <= weekDays[6]);
+  const getPostHour = (post: Post) => Number(getPublishTime(post).slice(0, 2));
+  const firstHour = Math.min(WEEK_VIEW_HOURS.from, ...weekPosts.map(getPostHour));
+  const lastHour = Math.max(WEEK_VIEW_HOURS.to, ...weekPosts.map(getPostHour));
+  const weekHours = Array.from({ length: lastHour - firstHour + 1 }, (_, i) => firstHour + i);
+
+  // Agenda - the month's days with posts (every day while dragging, so any day can be dropped on)
+  const monthDays = Array.from({ length: daysInMonth }, (_, i) => `${year}-${String(month + 1).padStart(2, '0')}-${String(i + 1).padStart(2, '0')}`);
+  const agendaDays = draggedPost ? monthDays : monthDays.filter(day => posts.some(post => post.date === day));
+
+  const formatDayHeading = (dateStr: string, options: Intl.DateTimeFormatOptions) => {
+    const [y, m, d] = dateStr.split('-').map(Number);
+    return new Date(y, m - 1, d).toLocaleDateString('en-AU', options);
+  };
+
+  const weekTitle = `${formatDayHeading(weekDays[0], { day: 'numeric', month: 'short' })} – ${formatDayHeading(weekDays[6], { day: 'numeric', month: 'short', year: 'numeric' })}`;
+  const todayStr = toDateKey(new Date());
+
+  // Drag any post onto a day (or a time slot in the week view) to reschedule it
+  const getDragProps = (post: Post) => ({
+    draggable: !isLockedStatus(post.status),
+    onDragStart: (e: React.DragEvent) => {
+      setDraggedPost(post);
+      e.dataTransfer.effectAllowed = 'move';
+    },
+    onDragEnd: () => {
+      setDraggedPost(null);
+      setDragOverDate(null);
+    },
+  });
+
+  // Drop target for a day, or one hour of a day (week view)
+  const getDropProps = (dateStr: string, hour?: number) => {
+    const target = hour === undefined ? dateStr : `${dateStr}T${hour}`;
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragOverDate(target);
+      },
+      onDragLeave: () => setDragOverDate(null),
+      onDrop: (e: React.DragEvent) => {
+        e.preventDefault();
+        setDragOverDate(null);
+        if (draggedPost && onUpdatePostDate) {
+          if (draggedPost.date !== dateStr) onUpdatePostDate(draggedPost.id, dateStr);
+          // A time slot moves the hour and keeps the minutes
+          const time = getPublishTime(draggedPost);
+          const newTime = hour === undefined ? time : `${String(hour).padStart(2, '0')}:${time.slice(3, 5)}`;
+          if (newTime !== time && onUpdatePostTime) onUpdatePostTime(draggedPost.id, newTime);
+        }
+        setDraggedPost(null);
+      },
+    };
+  };
+
+  // A post on the calendar - thumbnail, publish time and caption snippet
+  const renderPostChip = (post: Post) => {
+    // Get caption snippet (first 40 chars)
+    const captionSnippet = post.generatedCaption
+      ? post.generatedCaption.substring(0, 40) + (post.generatedCaption.length > 40 ? '...' : '')
+      : post.title || 'Untitled Post';
+
+    // Status-based colors
+    const statusColors: Record<string, { bg: string; text: string; hoverBg: string; noImgBg: string; noImgText: string }> = {
+      'Draft': { bg: 'bg-stone-100', text: 'text-stone-600', hoverBg: 'hover:bg-stone-200', noImgBg: 'bg-stone-200', noImgText: 'text-stone-400' },
+      'Generated': { bg: 'bg-purple-100', text: 'text-purple-800', hoverBg: 'hover:bg-purple-200', noImgBg: 'bg-purple-200', noImgText: 'text-purple-400' },
+      'For Approval': { bg: 'bg-amber-100', text: 'text-amber-800', hoverBg: 'hover:bg-amber-200', noImgBg: 'bg-amber-200', noImgText: 'text-amber-500' },
+      'Revision': { bg: 'bg-red-100', text: 'text-red-800', hoverBg: 'hover:bg-red-200', noImgBg: 'bg-red-200', noImgText: 'text-red-500' },
+      'Approved': { bg: 'bg-emerald-100', text: 'text-emerald-800', hoverBg: 'hover:bg-emerald-200', noImgBg: 'bg-emerald-200', noImgText: 'text-emerald-500' },
+      'Scheduled': { bg: 'bg-blue-100', text: 'text-blue-800', hoverBg: 'hover:bg-blue-200', noImgBg: 'bg-blue-200', noImgText: 'text-blue-500' },
+      'Published': { bg: 'bg-stone-200', text: 'text-stone-600', hoverBg: 'hover:bg-stone-300', noImgBg: 'bg-stone-300', noImgText: 'text-stone-500' },
+      'Failed': { bg: 'bg-red-600', text: 'text-white', hoverBg: 'hover:bg-red-700', noImgBg: 'bg-red-700', noImgText: 'text-red-200' },
+    };
+    const pillar = getPillar(pillars, post.pillarId);
+    const colors = colorBy === 'pillar'
+      ? getPillarColors(pillar)
+      : statusColors[post.status] || statusColors['Draft'];
+    const isDragging = draggedPost?.id === post.id;
+    const isLocked = isLockedStatus(post.status);
+
+    return (
+      <div
+        key={post.id}
+        {...getDragProps(post)}
+        onClick={(e) => { e.stopPropagation(); setSelectedPost(post); }}
+        className={`flex items-start gap-1.5 text-xs p-1.5 rounded cursor-pointer ${colors.bg} ${colors.text} ${colors.hoverBg} transition-colors ${!isLocked ? 'cursor-grab active:cursor-grabbing' : ''} ${isDragging ? 'opacity-50' : ''}`}
+        title={`${post.status}${pillar ? ` · ${pillar.name}` : ''} at ${formatPublishTime(getPublishTime(post))}: ${post.generatedCaption || post.title}${post.publishError ? ` - ${post.publishError}` : ''}${!isLocked ? ' (drag to reschedule)' : ''}`}
+      >
+        {/* Thumbnail - cover item, with a count for carousels */}
+        {post.imageUrl ? (
+          <div className="relative w-8 h-8 flex-shrink-0">
+            {post.mediaType === 'video' ? (
+              <div className="w-8 h-8 bg-stone-800 rounded flex items-center justify-center">
+                <Film className="w-4 h-4 text-white" />
+              </div>
+            ) : (
+              <img
+                src={post.imageUrl}
+                alt=""
+                className="w-8 h-8 object-cover rounded"
+              />
+            )}
+            {getMediaItems(post).length > 1 && (
+              <span className="absolute -bottom-1 -right-1 bg-black/80 text-white text-[8px] font-bold rounded px-0.5 flex items-center gap-px">
+                <Layers className="w-2 h-2" />{getMediaItems(post).length}
+              </span>
+            )}
+          </div>
+        ) : (
+          <div className={`w-8 h-8 ${colors.noImgBg} rounded flex-shrink-0 flex items-center justify-center`}>
+            <span className={`text-[10px] ${colors.noImgText}`}>No img</span>
+          </div>
+        )}
+        {/* Publish time + caption snippet */}
+        <span className="line-clamp-2 leading-tight">
+          <span className="font-semibold">{formatPublishTime(getPublishTime(post))}</span> {captionSnippet}
+        </span>
+        <SyncStatusBadge state={syncStates[post.id]} compact />
+      </div>
+    );
   };
 
   return (
     <>
-      <div className="bg-white rounded-lg shadow-sm border border-stone-300 p-6">
-        {/* Calendar Header */}
-        <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-serif font-bold text-brand-dark">
-            {monthNames[month]} {year}
-          </h2>
-          <div className="flex gap-2">
-            <button onClick={previousMonth} className="px-3 py-1 border border-stone-300 rounded hover:bg-stone-50">
-              ←
-            </button>
-            <button onClick={nextMonth} className="px-3 py-1 border border-stone-300 rounded hover:bg-stone-50">
-              →
-            </button>
+      <div className="flex gap-4 items-start">
+        <div className="flex-1 min-w-0 bg-white rounded-lg shadow-sm border border-stone-300 p-6">
+          {/* Calendar Header */}
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-serif font-bold text-brand-dark">
+              {layout === 'week' ? weekTitle : `${monthNames[month]} ${year}`}
+            </h2>
+            <div className="flex gap-2">
+              <div className="flex mr-2 border border-stone-300 rounded overflow-hidden text-xs font-medium">
+                {CALENDAR_LAYOUTS.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setLayout(option.id)}
+                    className={`px-3 py-1 transition-colors ${layout === option.id ? 'bg-brand-dark text-white' : 'text-stone-600 hover:bg-stone-50'}`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {pillars.length > 0 && (
+                <div className="flex mr-2 border border-stone-300 rounded overflow-hidden text-xs font-medium">
+                  {(['pillar', 'status'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => setColorBy(mode)}
+                      className={`px-3 py-1 transition-colors ${colorBy === mode ? 'bg-brand-dark text-white' : 'text-stone-600 hover:bg-stone-50'}`}
+                    >
+                      Colour by {mode}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <button onClick={previousMonth} className="px-3 py-1 border border-stone-300 rounded hover:bg-stone-50" title={layout === 'week' ? 'Previous week' : 'Previous month'}>
+                ←
+              </button>
+              <button onClick={nextMonth} className="px-3 py-1 border border-stone-300 rounded hover:bg-stone-50" title={layout === 'week' ? 'Next week' : 'Next month'}>
+                →
+              </button>
+            </div>
           </div>
-        </div>
 
-        {/* Calendar Grid */}
-        <div className="grid grid-cols-7 gap-2">
-          {/* Day Headers */}
-          {dayNames.map(day => (
-            <div key={day} className="text-center text-xs font-bold text-stone-500 uppercase tracking-wider bg-purple-100 py-2 rounded">
-              {day}
+          {/* Pillar legend */}
+          {colorBy === 'pillar' && pillars.length > 0 && (
+            <div className="flex flex-wrap gap-3 mb-4 -mt-2">
+              {pillars.map(pillar => (
+                <span key={pillar.id} className="flex items-center gap-1.5 text-xs text-stone-600">
+                  <span className={`w-2.5 h-2.5 rounded-full ${getPillarColors(pillar).dot}`} />
+                  {pillar.name}
+                </span>
+              ))}
+              <span className="flex items-center gap-1.5 text-xs text-stone-400">
+                <span className={`w-2.5 h-2.5 rounded-full ${getPillarColors(undefined).dot}`} />
+                No pillar
+              </span>
             </div>
-          ))}
-
-          {/* Empty cells for days before month starts */}
-          {Array.from({ length: startingDayOfWeek }).map((_, i) => (
-            <div key={`empty-${i}`} className="border border-stone-200 rounded min-h-[100px] bg-stone-50"></div>
-          ))}
-
-          {/* Calendar Days */}
-          {Array.from({ length: daysInMonth }).map((_, i) => {
-            const day = i + 1;
-            const dayPosts = getPostsForDate(day);
-            const holiday = getHolidayForDate(day);
-            const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-            const isDragOver = dragOverDate === dateStr;
-
-            return (
-              <div
-                key={day}
-                className={`border rounded min-h-[100px] p-2 transition-colors cursor-pointer ${holiday ? 'border-red-200 bg-red-50/30' : 'border-stone-200'} ${isDragOver ? 'bg-brand-green/20 border-brand-green border-2' : 'hover:bg-stone-50'}`}
-                onClick={() => onAddPost && onAddPost(dateStr)}
-                onDragOver={(e) => {
-                  e.preventDefault();
-                  setDragOverDate(dateStr);
-                }}
-                onDragLeave={() => setDragOverDate(null)}
-                onDrop={(e) => {
-                  e.preventDefault();
-                  setDragOverDate(null);
-                  if (draggedPost && onUpdatePostDate && draggedPost.date !== dateStr) {
-                    onUpdatePostDate(draggedPost.id, dateStr);
-                  }
-                  setDraggedPost(null);
-                }}
-              >
-                <div className="flex items-center gap-1 mb-1">
-                  <span className={`text-sm font-semibold ${holiday ? 'text-red-700' : 'text-stone-700'}`}>{day}</span>
-                  {holiday && (
-                    <span className="text-[10px] text-red-600 font-medium truncate" title={holiday}>
-                      {holiday}
-                    </span>
-                  )}
+          )}
+
+          {/* Calendar Grid */}
+          {layout === 'month' && (
+            <div className="grid grid-cols-7 gap-2">
+              {/* Day Headers */}
+              {dayNames.map(day => (
+                <div key={day} className="text-center text-xs font-bold text-stone-500 uppercase tracking-wider bg-purple-100 py-2 rounded">
+                  {day}
                 </div>
-                <div className="space-y-1">
-                  {dayPosts.map(post => {
-                    // Get caption snippet (first 40 chars)
-                    const captionSnippet = post.generatedCaption
-                      ? post.generatedCaption.substring(0, 40) + (post.generatedCaption.length > 40 ? '...' : '')
-                      : post.title || 'Untitled Post';
-
-                    // Status-based colors
-                    const statusColors: Record<string, { bg: string; text: string; hoverBg: string; noImgBg: string; noImgText: string }> = {
-                      'Draft': { bg: 'bg-stone-100', text: 'text-stone-600', hoverBg: 'hover:bg-stone-200', noImgBg: 'bg-stone-200', noImgText: 'text-stone-400' },
-                      'Generated': { bg: 'bg-purple-100', text: 'text-purple-800', hoverBg: 'hover:bg-purple-200', noImgBg: 'bg-purple-200', noImgText: 'text-purple-400' },
-                      'For Approval': { bg: 'bg-amber-100', text: 'text-amber-800', hoverBg: 'hover:bg-amber-200', noImgBg: 'bg-amber-200', noImgText: 'text-amber-500' },
-                      'Revision': { bg: 'bg-red-100', text: 'text-red-800', hoverBg: 'hover:bg-red-200', noImgBg: 'bg-red-200', noImgText: 'text-red-500' },
-                      'Approved': { bg: 'bg-emerald-100', text: 'text-emerald-800', hoverBg: 'hover:bg-emerald-200', noImgBg: 'bg-emerald-200', noImgText: 'text-emerald-500' },
-                      'Posted': { bg: 'bg-stone-200', text: 'text-stone-600', hoverBg: 'hover:bg-stone-300', noImgBg: 'bg-stone-300', noImgText: 'text-stone-500' },
-                    };
-                    const colors = statusColors[post.status] || statusColors['Draft'];
-                    const isDragging = draggedPost?.id === post.id;
+              ))}
+
+              {/* Empty cells for days before month starts */}
+              {Array.from({ length: startingDayOfWeek }).map((_, i) => (
+                <div key={`empty-${i}`} className="border border-stone-200 rounded min-h-[100px] bg-stone-50"></div>
+              ))}
 
+              {/* Calendar Days */}
+              {Array.from({ length: daysInMonth }).map((_, i) => {
+                const day = i + 1;
+                const dayPosts = getPostsForDate(day);
+                const holiday = getHolidayForDate(day);
+                const dateStr = `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+                const isDragOver = dragOverDate === dateStr;
+
+                return (
+                  <div
+                    key={day}
+                    className={`border rounded min-h-[100px] p-2 transition-colors cursor-pointer ${holiday ? 'border-red-200 bg-red-50/30' : 'border-stone-200'} ${isDragOver ? 'bg-brand-green/20 border-brand-green border-2' : 'hover:bg-stone-50'}`}
+                    onClick={() => onAddPost && onAddPost(dateStr)}
+                    {...getDropProps(dateStr)}
+                  >
+                    <div className="flex items-center gap-1 mb-1">
+                      <span className={`text-sm font-semibold ${holiday ? 'text-red-700' : 'text-stone-700'}`}>{day}</span>
+                      {holiday && (
+                        <span className="text-[10px] text-red-600 font-medium truncate" title={holiday}>
+                          {holiday}
+                        </span>
+                      )}
+                    </div>
+                    <div className="space-y-1">
+                      {dayPosts.map(post => renderPostChip(post))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Week - days across, publish times down */}
+          {layout === 'week' && (
+            <div className="grid grid-cols-[3.5rem_repeat(7,minmax(0,1fr))] border-l border-t border-stone-200 rounded overflow-hidden">
+              <div className="bg-purple-100 border-r border-b border-stone-200" />
+              {weekDays.map(dateStr => {
+                const holiday = getHoliday(dateStr);
+                const isOtherMonth = Number(dateStr.slice(5, 7)) - 1 !== month;
+                return (
+                  <div
+                    key={dateStr}
+                    className={`text-center py-2 border-r border-b border-stone-200 ${dragOverDate === dateStr ? 'bg-brand-green/20' : holiday ? 'bg-red-50' : 'bg-purple-100'} ${isOtherMonth ? 'opacity-60' : ''}`}
+                    title="Drop here to change the day and keep the time"
+                    {...getDropProps(dateStr)}
+                  >
+                    <div className="text-xs font-bold text-stone-500 uppercase tracking-wider">{formatDayHeading(dateStr, { weekday: 'short' })}</div>
+                    <div className={`text-sm font-semibold ${dateStr === todayStr ? 'text-brand-green' : holiday ? 'text-red-700' : 'text-stone-700'}`}>
+                      {formatDayHeading(dateStr, { day: 'numeric', month: 'short' })}
+                    </div>
+                    {holiday && <div className="text-[10px] text-red-600 font-medium truncate px-1" title={holiday}>{holiday}</div>}
+                  </div>
+                );
+              })}
+
+              {weekHours.map(hour => (
+                <React.Fragment key={hour}>
+                  <div className="text-[10px] text-stone-400 text-right pr-1.5 pt-1 border-r border-b border-stone-200">
+                    {formatPublishTime(`${String(hour).padStart(2, '0')}:00`).replace(':00', '')}
+                  </div>
+                  {weekDays.map(dateStr => {
+                    const slotPosts = weekPosts.filter(post => post.date === dateStr && getPostHour(post) === hour).sort(comparePublishTime);
+                    const isDragOver = dragOverDate === `${dateStr}T${hour}`;
                     return (
                       <div
-                        key={post.id}
-                        draggable={post.status !== 'Posted'}
-                        onDragStart={(e) => {
-                          setDraggedPost(post);
-                          e.dataTransfer.effectAllowed = 'move';
-                        }}
-                        onDragEnd={() => {
-                          setDraggedPost(null);
-                          setDragOverDate(null);
-                        }}
-                        onClick={(e) => { e.stopPropagation(); setSelectedPost(post); }}
-                        className={`flex items-start gap-1.5 text-xs p-1.5 rounded cursor-pointer ${colors.bg} ${colors.text} ${colors.hoverBg} transition-colors ${post.status !== 'Posted' ? 'cursor-grab active:cursor-grabbing' : ''} ${isDragging ? 'opacity-50' : ''}`}
-                        title={`${post.status}: ${post.generatedCaption || post.title}${post.status !== 'Posted' ? ' (drag to reschedule)' : ''}`}
+                        key={dateStr}
+                        className={`min-h-[44px] p-1 space-y-1 border-r border-b border-stone-200 cursor-pointer transition-colors ${isDragOver ? 'bg-brand-green/20' : 'hover:bg-stone-50'}`}
+                        onClick={() => onAddPost && onAddPost(dateStr)}
+                        {...getDropProps(dateStr, hour)}
                       >
-                        {/* Thumbnail */}
-                        {post.imageUrl ? (
-                          post.mediaType === 'video' ? (
-                            <div className="w-8 h-8 bg-stone-800 rounded flex-shrink-0 flex items-center justify-center">
-                              <Film className="w-4 h-4 text-white" />
-                            </div>
-                          ) : (
-                            <img
-                              src={post.imageUrl}
-                              alt=""
-                              className="w-8 h-8 object-cover rounded flex-shrink-0"
-                            />
-                          )
-                        ) : (
-                          <div className={`w-8 h-8 ${colors.noImgBg} rounded flex-shrink-0 flex items-center justify-center`}>
-                            <span className={`text-[10px] ${colors.noImgText}`}>No img</span>
-                          </div>
-                        )}
-                        {/* Caption snippet */}
-                        <span className="line-clamp-2 leading-tight">{captionSnippet}</span>
+                        {slotPosts.map(post => renderPostChip(post))}
                       </div>
                     );
                   })}
-                </div>
-              </div>
-            );
-          })}
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+
+          {/* Agenda - one section per day with posts */}
+          {layout === 'agenda' && (
+            <div className="space-y-3">
+              {agendaDays.length === 0 && (
+                <p className="text-sm text-stone-400 text-center py-12">No posts in {monthNames[month]}.</p>
+              )}
+              {agendaDays.map(dateStr => {
+                const dayPosts = posts.filter(post => post.date === dateStr).sort(comparePublishTime);
+                const holiday = getHoliday(dateStr);
+                const isDragOver = dragOverDate === dateStr;
+                return (
+                  <div
+                    key={dateStr}
+                    className={`flex gap-4 border rounded p-3 transition-colors ${isDragOver ? 'bg-brand-green/20 border-brand-green' : holiday ? 'border-red-200 bg-red-50/30' : 'border-stone-200'}`}
+                    {...getDropProps(dateStr)}
+                  >
+                    <div className="w-28 shrink-0">
+                      <div className={`text-sm font-semibold ${dateStr === todayStr ? 'text-brand-green' : holiday ? 'text-red-700' : 'text-stone-700'}`}>
+                        {formatDayHeading(dateStr, { weekday: 'long' })}
+                      </div>
+                      <div className="text-xs text-stone-500">{formatDayHeading(dateStr, { day: 'numeric', month: 'long' })}</div>
+                      {holiday && <div className="text-[10px] text-red-600 font-medium" title={holiday}>{holiday}</div>}
+                    </div>
+                    <div className="flex-1 min-w-0 space-y-1.5">
+                      {dayPosts.map(post => renderPostChip(post))}
+                      {dayPosts.length === 0 && <p className="text-xs text-stone-400 py-2">Drop here to move it to this day</p>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
+
+        {/* Ideas backlog - drag onto a day to schedule */}
+        {(onUpdatePostDate || backlog.length > 0) && (
+          <BacklogSidebar
+            posts={backlog}
+            pillars={pillars}
+            draggedPost={draggedPost}
+            onDragStart={setDraggedPost}
+            onDragEnd={() => {
+              setDraggedPost(null);
+              setDragOverDate(null);
+            }}
+            onDropToBacklog={onUpdatePostDate ? (post) => onUpdatePostDate(post.id, '') : undefined}
+            onAddIdea={onAddIdea}
+            onSelect={setSelectedPost}
+          />
+        )}
       </div>
 
       {/* Post Detail Modal */}
       {selectedPost && (
-        <PostDetailModal post={selectedPost} onClose={() => setSelectedPost(null)} />
+        <PostDetailModal
+          post={selectedPost}
+          pillars={pillars}
+          comments={comments}
+          mentionables={mentionables}
+          canComment={canComment}
+          isAgency={isAgency}
+          peers={getPostPeers(presencePeers, selectedPost.id)}
+          syncState={syncStates[selectedPost.id]}
+          onAddComment={onAddComment}
+          onResolveComment={onResolveComment}
+          onClose={() => setSelectedPost(null)}
+        />
       )}
     </>
   );
@@ -480,78 +1029,146 @@ const mapDbToPost = (dbPost: any): Post => ({
   id: dbPost.id,
   client_id: dbPost.client_id,
   title: dbPost.title,
-  date: dbPost.date,
+  date: dbPost.date || '',
   status: dbPost.status as any,
   imageDescription: dbPost.image_description || '',
   imageUrl: dbPost.image_url || '',
   mediaType: (dbPost.media_type as MediaType) || 'image',
+  mediaItems: getMediaItems({
+    imageUrl: dbPost.image_url,
+    mediaType: dbPost.media_type as MediaType,
+    mediaItems: dbPost.media_items as MediaItem[],
+  }),
   generatedCaption: dbPost.generated_caption || '',
   generatedHashtags: dbPost.generated_hashtags || [],
-  notes: dbPost.notes || ''
+  captionVariants: dbPost.caption_variants || {},
+  publishTime: dbPost.publish_time ? String(dbPost.publish_time).slice(0, 5) : '',
+  publishError: dbPost.publish_error || '',
+  latePostId: dbPost.late_post_id || '',
+  pillarId: dbPost.pillar || '',
+  campaign: dbPost.campaign || '',
+  tags: dbPost.tags || [],
+  revision: dbPost.revision,
 });
 
+// Insert data for a Draft copy of a post (new id, same media, caption and labels)
+const toDuplicateRow = (post: Post, clientId: string, date: string | null): Record<string, any> => {
+  const row: Record<string, any> = {
+    id: crypto.randomUUID(),
+    client_id: clientId,
+    title: post.title || 'Untitled',
+    image_description: post.imageDescription || '',
+    image_url: post.imageUrl || null,
+    media_items: getMediaItems(post),
+    status: 'Draft',
+    generated_caption: post.generatedCaption || null,
+    generated_hashtags: post.generatedHashtags || [],
+    caption_variants: post.captionVariants || {},
+    date,
+    publish_time: post.publishTime || null,
+    pillar: post.pillarId || null,
+    campaign: post.campaign || null,
+    tags: post.tags || []
+  };
+
+  // Only include media_type if it exists on the original post
+  if (post.mediaType) {
+    row.media_type = post.mediaType;
+  }
+  return row;
+};
+
 // Map App types to DB columns
 const mapPostToDb = (post: Partial<Post>) => {
   const dbObj: any = {};
   if (post.client_id !== undefined) dbObj.client_id = post.client_id;
   if (post.title !== undefined) dbObj.title = post.title;
-  if (post.date !== undefined) dbObj.date = post.date;
+  if (post.date !== undefined) dbObj.date = post.date || null;
+  if (post.publishTime !== undefined) dbObj.publish_time = post.publishTime || null;
   if (post.status !== undefined) dbObj.status = post.status;
+  if (post.publishError !== undefined) dbObj.publish_error = post.publishError || null;
+  if (post.latePostId !== undefined) dbObj.late_post_id = post.latePostId || null;
   if (post.imageDescription !== undefined) dbObj.image_description = post.imageDescription;
   if (post.imageUrl !== undefined) dbObj.image_url = post.imageUrl;
   if (post.mediaType !== undefined) dbObj.media_type = post.mediaType;
+  if (post.mediaItems !== undefined) {
+    // Keep the single-media columns in sync with the cover item
+    dbObj.media_items = post.mediaItems;
+    dbObj.image_url = post.mediaItems[0]?.url || null;
+    dbObj.media_type = post.mediaItems[0]?.type || 'image';
+  }
   if (post.generatedCaption !== undefined) dbObj.generated_caption = post.generatedCaption;
   if (post.generatedHashtags !== undefined) dbObj.generated_hashtags = post.generatedHashtags;
-  if (post.notes !== undefined) dbObj.notes = post.notes;
+  if (post.captionVariants !== undefined) dbObj.caption_variants = post.captionVariants;
+  if (post.pillarId !== undefined) dbObj.pillar = post.pillarId || null;
+  if (post.campaign !== undefined) dbObj.campaign = post.campaign || null;
+  if (post.tags !== undefined) dbObj.tags = post.tags;
   return dbObj;
 };
 
-// Session storage constants
-const SESSION_KEY = 'seam_media_session';
-const SESSION_EXPIRY_DAYS = 30;
-
-interface StoredSession {
-  pin: string;
-  clientId?: string;
-  isMaster: boolean;
-  expiry: number;
-}
-
-const saveSession = (pin: string, clientId: string | undefined, isMaster: boolean) => {
-  const expiry = Date.now() + (SESSION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
-  const session: StoredSession = { pin, clientId, isMaster, expiry };
-  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+// Fetched posts, keeping local values of fields with a pending save
+// (handleUpdatePost's debounce timers are keyed `${postId}-${field}`)
+const keepPendingEdits = (fetched: Post[], local: Post[], pendingKeys: string[]): Post[] => {
+  if (pendingKeys.length === 0) return fetched;
+  return fetched.map(post => {
+    const localPost = local.find(p => p.id === post.id);
+    if (!localPost) return post;
+    return pendingKeys
+      .filter(key => key.startsWith(`${post.id}-`))
+      .map(key => key.slice(post.id.length + 1) as keyof Post)
+      .reduce((merged, field) => field === 'mediaItems'
+        ? { ...merged, mediaItems: localPost.mediaItems, imageUrl: localPost.imageUrl, mediaType: localPost.mediaType }
+        : { ...merged, [field]: localPost[field] }, post);
+  });
 };
 
-const getStoredSession = (): StoredSession | null => {
-  try {
-    const stored = localStorage.getItem(SESSION_KEY);
-    if (!stored) return null;
-    const session: StoredSession = JSON.parse(stored);
-    if (Date.now() > session.expiry) {
-      localStorage.removeItem(SESSION_KEY);
-      return null;
-    }
-    return session;
-  } catch {
-    return null;
+// A fetched or realtime post put in place, in fetchPosts' order (date, then
+// creation; undated ideas last). Fields with a pending save keep their local
+// value, and a row older than the one we have is ignored.
+const upsertPost = (list: Post[], post: Post, pendingKeys: string[]): Post[] => {
+  const existing = list.find(p => p.id === post.id);
+  if (existing?.revision !== undefined && post.revision !== undefined && post.revision < existing.revision) {
+    return list;
   }
-};
 
-const clearSession = () => {
-  localStorage.removeItem(SESSION_KEY);
+  const [merged] = keepPendingEdits([post], list, pendingKeys);
+  if (existing && existing.date === merged.date) {
+    return list.map(p => p.id === post.id ? merged : p);
+  }
+
+  // New, or moved to another day - insert after the posts on or before its date
+  const sortKey = (date: string) => date || '\uffff';
+  const rest = list.filter(p => p.id !== post.id);
+  const at = rest.findIndex(p => sortKey(p.date) > sortKey(merged.date));
+  return at === -1 ? [...rest, merged] : [...rest.slice(0, at), merged, ...rest.slice(at)];
 };
 
+// Field values compare equal if they would be saved the same way
+const isSameFieldValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// The revision and value an edit started from - see handleUpdatePost
+interface EditBase {
+  revision?: number; // undefined until add-post-revisions-schema.sql is applied (writes are then unchecked)
+  value: unknown;
+}
+
 export default function App() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [passwordInput, setPasswordInput] = useState('');
-  const [loginError, setLoginError] = useState(false);
+  const [emailInput, setEmailInput] = useState('');
+  const [pinInput, setPinInput] = useState('');
+  const [loginError, setLoginError] = useState<string | null>(null);
   const [configError, setConfigError] = useState(false);
   const [isRestoringSession, setIsRestoringSession] = useState(true);
 
+  // Signed-in person and their role
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const isMasterAccount = !!currentUser && isAgencyRole(currentUser.role);
+  const canEdit = !!currentUser && canEditPosts(currentUser.role);
+  const canManage = !!currentUser && canManageSettings(currentUser.role);
+
   // Multi-client state
   const [currentClient, setCurrentClient] = useState<Client | null>(null);
-  const [isMasterAccount, setIsMasterAccount] = useState(false);
   const [allClients, setAllClients] = useState<Client[]>([]);
   const [showClientSelector, setShowClientSelector] = useState(false);
   const [userClients, setUserClients] = useState<Client[]>([]); // Clients accessible by current non-master user
@@ -559,14 +1176,35 @@ export default function App() {
   const [brandContext, setBrandContext] = useState<BrandContext | null>(null);
 
   const [posts, setPosts] = useState<Post[]>([]);
+  const [comments, setComments] = useState<PostComment[]>([]);
+  const [approvals, setApprovals] = useState<PostApproval[]>([]);
+  const [clientApprovers, setClientApprovers] = useState<ClientApprover[]>([]);
+
+  // Realtime presence - who else is on which post, and the field we're typing in
+  const [presencePeers, setPresencePeers] = useState<PresencePeer[]>([]);
+  const [editingField, setEditingField] = useState<{ postId: string; field: PresenceField } | null>(null);
+  const [calendarPostId, setCalendarPostId] = useState<string | null>(null);
+  const presenceRef = useRef<PresenceConnection | null>(null);
+
+  // Edits rejected because someone else saved the same field first, oldest first
+  const [editConflicts, setEditConflicts] = useState<PostEditConflict[]>([]);
+
+  // Writes waiting on this device for a connection, and the posts being replayed now
+  const [queuedMutations, setQueuedMutations] = useState<QueuedEntry[]>([]);
+  const [syncingPostIds, setSyncingPostIds] = useState<Set<string>>(new Set());
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [mentionables, setMentionables] = useState<MentionableUser[]>([]);
   const [loading, setLoading] = useState(false);
 
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [newPostDate, setNewPostDate] = useState<string | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [variantsPostId, setVariantsPostId] = useState<string | null>(null);
+  const [versionsPostId, setVersionsPostId] = useState<string | null>(null);
   const [storageError, setStorageError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'table' | 'calendar'>('table');
   const [selectedMonth, setSelectedMonth] = useState<Date>(new Date());
+  const [postFilters, setPostFilters] = useState<PostFilters>(EMPTY_FILTERS);
   const [generatingCaptionId, setGeneratingCaptionId] = useState<string | null>(null);
   const [updatingFromFeedbackId, setUpdatingFromFeedbackId] = useState<string | null>(null);
   const [uploadingImageId, setUploadingImageId] = useState<string | null>(null);
@@ -579,8 +1217,16 @@ export default function App() {
   const [emailTo, setEmailTo] = useState('');
   const [emailSubject, setEmailSubject] = useState('');
   const [emailBody, setEmailBody] = useState('');
+  const [preparingEmail, setPreparingEmail] = useState(false);
   const [previewImageUrl, setPreviewImageUrl] = useState<string | null>(null);
   const [previewImagePostId, setPreviewImagePostId] = useState<string | null>(null);
+  const [internalNotesPostId, setInternalNotesPostId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+
+  // Table bulk selection and the last bulk action's undo
+  const [selectedPostIds, setSelectedPostIds] = useState<Set<string>>(new Set());
+  const [bulkWorking, setBulkWorking] = useState<string | null>(null);
+  const [bulkUndo, setBulkUndo] = useState<{ label: string; undo: () => Promise<void> } | null>(null);
 
   // Schedule Posts state
   const [showScheduleModal, setShowScheduleModal] = useState(false);
@@ -588,7 +1234,6 @@ export default function App() {
   const [selectedProfiles, setSelectedProfiles] = useState<string[]>([]);
   const [loadingProfiles, setLoadingProfiles] = useState(false);
   const [schedulingPosts, setSchedulingPosts] = useState(false);
-  const [scheduleTime, setScheduleTime] = useState('10:00');
 
   // Client Notes state (agency-only)
   const [showClientNotesModal, setShowClientNotesModal] = useState(false);
@@ -599,6 +1244,11 @@ export default function App() {
   // Generate Posts modal state (agency-only)
   const [showGeneratePostsModal, setShowGeneratePostsModal] = useState(false);
   const [clientNotes, setClientNotes] = useState('');
+  const [clientTimezone, setClientTimezone] = useState(getClientTimezone(null));
+  const [clientPillars, setClientPillars] = useState<ContentPillar[]>([]);
+  const [approvalQuorum, setApprovalQuorum] = useState(1);
+  const [requiredApprovers, setRequiredApprovers] = useState<string[]>([]);
+  const [approvalLeadDays, setApprovalLeadDays] = useState(getApprovalLeadDays(null));
   const [referenceImages, setReferenceImages] = useState<string[]>([]);
   const [uploadingReferenceImage, setUploadingReferenceImage] = useState(false);
   const [savingClientNotes, setSavingClientNotes] = useState(false);
@@ -609,6 +1259,21 @@ export default function App() {
   // Debounce timer for database updates
   const debounceTimers = useRef<Record<string, NodeJS.Timeout>>({});
 
+  // Optimistic concurrency for handleUpdatePost, keyed like debounceTimers:
+  // what each edit started from, one save at a time per field, the focused
+  // field (its base is held until blur) and fields waiting on a merge prompt
+  const editBases = useRef<Record<string, EditBase>>({});
+  const saveChains = useRef<Record<string, Promise<void>>>({});
+  const focusedEditKey = useRef<string | null>(null);
+  const conflictKeys = useRef<Set<string>>(new Set());
+
+  // Offline queue replay - see replayQueue
+  const queuedCount = useRef(0);
+  const queuedEntries = useRef<QueuedEntry[]>([]);
+  const replaying = useRef(false);
+  const replayingSeq = useRef<number | null>(null);
+  const replayQueueRef = useRef<() => void>(() => {});
+
   // Check for config on load
   useEffect(() => {
     // Check if the environment variables are available
@@ -618,113 +1283,55 @@ export default function App() {
     }
   }, []);
 
-  // Restore session from localStorage on load
-  useEffect(() => {
-    const restoreSession = async () => {
-      const session = getStoredSession();
-      if (!session) {
-        setIsRestoringSession(false);
-        return;
-      }
+  // Apply a successful login or restored session
+  const applyAuthResult = (result: AuthResult) => {
+    const { user, clients, selectedClientId } = result;
+    const agency = isAgencyRole(user.role);
+
+    setCurrentUser(user);
+    if (agency) {
+      setAllClients(clients);
+    } else {
+      setUserClients(clients);
+    }
+    setIsAuthenticated(true);
+
+    // Restore the previously selected client, or pick the only one available
+    const selectable = agency ? clients.filter(c => !c.is_agency) : clients;
+    const previous = selectedClientId ? selectable.find(c => c.id === selectedClientId) : undefined;
+    if (previous) {
+      selectClient(previous);
+    } else if (!agency && selectable.length === 1) {
+      selectClient(selectable[0]);
+    } else {
+      setShowClientSelector(true);
+    }
+  };
 
+  // Validate the stored session with the server on load
+  useEffect(() => {
+    const restore = async () => {
       try {
-        if (session.isMaster) {
-          // Restore master account session
-          const { data: allClientsData } = await supabase
-            .from('clients')
-            .select('*')
-            .order('name');
-
-          if (allClientsData) {
-            setAllClients(allClientsData);
-            setIsMasterAccount(true);
-            setIsAuthenticated(true);
-
-            // If master had selected a client, restore that too
-            if (session.clientId) {
-              const client = allClientsData.find(c => c.id === session.clientId);
-              if (client) {
-                setCurrentClient(client);
-                setBrandContext({
-                  name: client.brand_name,
-                  mission: client.brand_mission || '',
-                  tone: client.brand_tone || '',
-                  keywords: client.brand_keywords || []
-                });
-              } else {
-                // Client not found, show selector
-                setShowClientSelector(true);
-              }
-            } else {
-              // No client selected, show selector
-              setShowClientSelector(true);
-            }
-          }
-        } else {
-          // Restore regular client session - fetch all clients with this PIN
-          const { data: clients } = await supabase
-            .from('clients')
-            .select('*')
-            .eq('pin', session.pin);
-
-          if (clients && clients.length > 0) {
-            setUserClients(clients);
-            setIsMasterAccount(false);
-            setIsAuthenticated(true);
-
-            if (session.clientId) {
-              // Restore previously selected client
-              const client = clients.find(c => c.id === session.clientId);
-              if (client) {
-                setCurrentClient(client);
-                setBrandContext({
-                  name: client.brand_name,
-                  mission: client.brand_mission || '',
-                  tone: client.brand_tone || '',
-                  keywords: client.brand_keywords || []
-                });
-              } else if (clients.length === 1) {
-                // Single client, use it
-                setCurrentClient(clients[0]);
-                setBrandContext({
-                  name: clients[0].brand_name,
-                  mission: clients[0].brand_mission || '',
-                  tone: clients[0].brand_tone || '',
-                  keywords: clients[0].brand_keywords || []
-                });
-              } else {
-                // Multiple clients, show selector
-                setShowClientSelector(true);
-              }
-            } else if (clients.length === 1) {
-              // Single client, use it
-              setCurrentClient(clients[0]);
-              setBrandContext({
-                name: clients[0].brand_name,
-                mission: clients[0].brand_mission || '',
-                tone: clients[0].brand_tone || '',
-                keywords: clients[0].brand_keywords || []
-              });
-            } else {
-              // Multiple clients, show selector
-              setShowClientSelector(true);
-            }
-          } else {
-            // No clients found, clear session
-            clearSession();
-          }
+        const result = await restoreSession();
+        if (result) {
+          applyAuthResult(result);
         }
       } catch (error) {
         console.error('Error restoring session:', error);
-        clearSession();
       }
 
       setIsRestoringSession(false);
     };
 
-    restoreSession();
+    restore();
   }, []);
 
+  // Post fields with a save still to come, keyed `${postId}-${field}` (see keepPendingEdits)
+  const getPendingKeys = (): string[] => [
+    ...Object.keys(debounceTimers.current),
+    ...queuedEntries.current.flatMap(entry => entry.kind === 'update' ? [`${entry.postId}-${entry.field}`] : []),
+  ];
+
   // Fetch posts from Supabase
   const fetchPosts = async () => {
     if (!currentClient) return;
@@ -734,6 +1341,7 @@ export default function App() {
       .from('posts')
       .select('*')
       .eq('client_id', currentClient.id)
+      .is('deleted_at', null) // Trashed posts only show in the trash
       .order('date', { ascending: true })
       .order('created_at', { ascending: true });
 
@@ -747,104 +1355,188 @@ export default function App() {
          setStorageError("Failed to load posts from database.");
       }
     } else {
-      setPosts((data || []).map(mapDbToPost));
+      // Edits still waiting for their debounced save (or queued offline) win over
+      // the fetched row, and posts created offline stay until they're sent
+      const fetched = (data || []).map(mapDbToPost);
+      const unsentIds = new Set(queuedEntries.current.flatMap(entry => entry.kind === 'insert' ? [entry.postId] : []));
+      setPosts(prev => [
+        ...keepPendingEdits(fetched, prev, getPendingKeys()),
+        ...prev.filter(p => unsentIds.has(p.id) && !fetched.some(f => f.id === p.id)),
+      ]);
       setStorageError(null);
     }
     setLoading(false);
   };
 
+  // Fetch the current client's comments
+  const fetchComments = async () => {
+    if (!currentClient) return;
+
+    try {
+      setComments(await getClientComments(currentClient.id));
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    }
+  };
+
+  // Fetch who has approved the current client's posts
+  const fetchApprovals = async () => {
+    if (!currentClient) return;
+
+    try {
+      setApprovals(await getClientApprovals(currentClient.id));
+    } catch (error) {
+      console.error('Error fetching approvals:', error);
+    }
+  };
+
+  // Apply one post row from realtime (or a single-row fetch) to the list
+  const applyPostRow = (row: Record<string, any>) => {
+    if (row.deleted_at) {
+      setPosts(prev => prev.filter(p => p.id !== row.id));
+    } else {
+      setPosts(prev => upsertPost(prev, mapDbToPost(row), getPendingKeys()));
+    }
+  };
+
+  const handlePostRowChange = async (change: PostRowChange) => {
+    if (change.type === 'delete') {
+      setPosts(prev => prev.filter(p => p.id !== change.id));
+    } else if (change.type === 'upsert') {
+      applyPostRow(change.row);
+    } else {
+      const { data, error } = await supabase.from('posts').select('*').eq('id', change.id).maybeSingle();
+      if (error) {
+        console.error('Error loading changed post:', error);
+      } else if (data) {
+        applyPostRow(data);
+      } else {
+        setPosts(prev => prev.filter(p => p.id !== change.id));
+      }
+    }
+  };
+
   useEffect(() => {
     if (isAuthenticated && !configError) {
       fetchPosts();
-
-      // Set up real-time subscription
-      const channel = supabase
-        .channel('public:posts')
-        .on('postgres_changes', { event: '*', schema: 'public', table: 'posts' }, () => {
-          // Simple strategy: reload all data on change to ensure consistency
+      fetchComments();
+      fetchApprovals();
+      if (!currentClient) return;
+
+      // Live changes to this client's posts, applied row by row; after a
+      // dropped connection everything is fetched again to catch up
+      return subscribeToPostChanges({
+        channelName: 'client-posts',
+        clientId: currentClient.id,
+        onChange: handlePostRowChange,
+        onResync: () => {
           fetchPosts();
-        })
-        .subscribe();
+          fetchComments();
+          fetchApprovals();
+        },
+        alsoWatch: [
+          { table: 'post_comments', onChange: fetchComments },
+          { table: 'post_approvals', onChange: fetchApprovals },
+        ],
+      });
+    }
+  }, [isAuthenticated, configError, currentClient]);
 
-      return () => {
-        supabase.removeChannel(channel);
-      };
+  // Presence on the current client's posts
+  useEffect(() => {
+    if (!isAuthenticated || configError || !currentClient || !currentUser) return;
+
+    const connection = joinClientPresence(currentClient.id, { userId: currentUser.id, name: currentUser.name }, setPresencePeers);
+    presenceRef.current = connection;
+
+    return () => {
+      presenceRef.current = null;
+      connection.leave();
+    };
+  }, [isAuthenticated, configError, currentClient?.id, currentUser?.id]);
+
+  // Offline queue - send writes left from an earlier visit, and anything queued once the connection returns
+  useEffect(() => {
+    if (!isAuthenticated || configError || !currentUser) return;
+    refreshQueue().then(() => replayQueueRef.current());
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      replayQueueRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+    // "Online" doesn't always mean requests get through - keep trying while anything is waiting
+    const retryTimer = setInterval(() => {
+      if (queuedCount.current > 0) replayQueueRef.current();
+    }, 30000);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      clearInterval(retryTimer);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [isAuthenticated, configError, currentUser?.id]);
+
+  // Per-post sync indicator: a merge to choose, being sent, or only on this device so far
+  const postSyncStates = useMemo(() => {
+    const states: Record<string, PostSyncState> = {};
+    for (const id of getQueuedPostIds(queuedMutations)) states[id] = 'queued';
+    for (const id of syncingPostIds) states[id] = 'syncing';
+    for (const conflict of editConflicts) states[conflict.postId] = 'conflict';
+    return states;
+  }, [queuedMutations, syncingPostIds, editConflicts]);
+
+  // Share the post we have open and the field we're typing in
+  const viewingPostId = calendarPostId || variantsPostId || versionsPostId;
+  useEffect(() => {
+    presenceRef.current?.update({ viewingPostId, editing: editingField });
+  }, [viewingPostId, editingField, currentClient?.id]);
+
+  // A selection only covers the month on screen
+  useEffect(() => {
+    setSelectedPostIds(new Set());
+  }, [selectedMonth]);
+
+  // Client approvers - names for the required approvers on approval progress
+  useEffect(() => {
+    setClientApprovers([]);
+    if (isAuthenticated && !configError && currentClient && hasApprovalRule(currentClient)) {
+      getClientApprovers(currentClient.id)
+        .then(setClientApprovers)
+        .catch((error) => console.error('Error loading approvers:', error));
     }
   }, [isAuthenticated, configError, currentClient]);
 
+  // Staff list for @mentions - loaded once per sign-in
+  useEffect(() => {
+    if (isAuthenticated && !configError) {
+      getMentionableUsers()
+        .then(setMentionables)
+        .catch((error) => console.error('Error loading staff for mentions:', error));
+    }
+  }, [isAuthenticated, configError]);
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
 
     try {
-      // Check if PIN matches any client
-      const { data: clients, error } = await supabase
-        .from('clients')
-        .select('*')
-        .eq('pin', passwordInput);
-
-      if (error) {
-        console.error('Error fetching clients:', error);
-        setLoginError(true);
-        setPasswordInput('');
-        return;
-      }
-
-      if (clients && clients.length > 0) {
-        // Check if this is the master account (Seam Media)
-        if (passwordInput === '1991') {
-          setIsMasterAccount(true);
-          // Fetch all clients for master account
-          const { data: allClientsData } = await supabase
-            .from('clients')
-            .select('*')
-            .order('name');
-
-          if (allClientsData) {
-            setAllClients(allClientsData);
-            setShowClientSelector(true);
-          }
-          // Save master session (no client selected yet)
-          saveSession(passwordInput, undefined, true);
-          setIsAuthenticated(true);
-          setLoginError(false);
-        } else if (clients.length > 1) {
-          // Multiple clients share this PIN - show client selector
-          setIsMasterAccount(false);
-          setUserClients(clients);
-          setShowClientSelector(true);
-          saveSession(passwordInput, undefined, false);
-          setIsAuthenticated(true);
-          setLoginError(false);
-        } else {
-          // Single client login
-          const client = clients[0];
-          setIsMasterAccount(false);
-          setUserClients([client]);
-          setCurrentClient(client);
-          setBrandContext({
-            name: client.brand_name,
-            mission: client.brand_mission || '',
-            tone: client.brand_tone || '',
-            keywords: client.brand_keywords || []
-          });
-          // Save client session
-          saveSession(passwordInput, client.id, false);
-          setIsAuthenticated(true);
-          setLoginError(false);
-        }
-      } else {
-        setLoginError(true);
-        setPasswordInput('');
-      }
-    } catch (error) {
+      const result = await login(emailInput, pinInput);
+      applyAuthResult(result);
+      setLoginError(null);
+    } catch (error: any) {
       console.error('Login error:', error);
-      setLoginError(true);
-      setPasswordInput('');
+      setLoginError(error.message || 'Login failed. Please try again.');
+      setPinInput('');
     }
   };
 
   const selectClient = (client: Client) => {
     setCurrentClient(client);
+    setPostFilters(EMPTY_FILTERS); // Pillars, campaigns and tags are per client
+    setSelectedPostIds(new Set());
+    setBulkUndo(null);
     setBrandContext({
       name: client.brand_name,
       mission: client.brand_mission || '',
@@ -852,24 +1544,251 @@ export default function App() {
       keywords: client.brand_keywords || []
     });
     setShowClientSelector(false);
-    // Update session with selected client
-    const session = getStoredSession();
-    if (session) {
-      saveSession(session.pin, client.id, isMasterAccount);
-    }
+    // Remember the selected client for next visit
+    saveSelectedClient(client.id);
   };
 
   const handleLogout = () => {
-    clearSession();
+    logout();
     setIsAuthenticated(false);
+    setCurrentUser(null);
     setCurrentClient(null);
-    setIsMasterAccount(false);
     setAllClients([]);
     setUserClients([]);
     setShowClientSelector(false);
     setBrandContext(null);
     setPosts([]);
-    setPasswordInput('');
+    setApprovals([]);
+    setPinInput('');
+  };
+
+  const refreshQueue = async () => {
+    if (!currentUser) return;
+    try {
+      const entries = await getQueuedMutations(currentUser.id);
+      queuedCount.current = entries.length;
+      queuedEntries.current = entries;
+      setQueuedMutations(entries);
+    } catch (error) {
+      console.error('Error reading offline changes:', error);
+    }
+  };
+
+  // Writes wait on the device while offline, and behind older queued writes so they land in order
+  const shouldQueue = () => !navigator.onLine || queuedCount.current > 0;
+
+  const queueMutation = async (mutation: QueuedMutation) => {
+    if (!currentUser) return;
+    try {
+      await enqueueMutation(currentUser.id, mutation, replayingSeq.current);
+      queuedCount.current++;
+      await refreshQueue();
+    } catch (error: any) {
+      console.error('Error queueing change:', error);
+      setStorageError(`${error.message}. Your change couldn't be kept - please try again when you're back online.`);
+      fetchPosts();
+    }
+  };
+
+  // Send one queued write. Returns false if it still can't be sent (stays queued).
+  const replayMutation = async (entry: QueuedEntry): Promise<boolean> => {
+    try {
+      if (entry.kind === 'update') {
+        // Same per-field chain as live saves, starting from the revision the edit was made on
+        const key = `${entry.postId}-${entry.field}`;
+        const replay = (saveChains.current[key] || Promise.resolve()).then(async () => {
+          editBases.current[key] = entry.base;
+          settleEditBase(key, await savePostField(entry.postId, entry.field, entry.value, true));
+        });
+        saveChains.current[key] = replay.catch(() => undefined);
+        await replay;
+      } else if (entry.kind === 'approve') {
+        await handleApprovePosts(entry.postIds, entry.source, true);
+      } else {
+        const { error } = await supabase.from('posts').insert([entry.row]);
+        // 23505: an earlier attempt got through but its response was lost
+        if (error && error.code !== '23505') {
+          if (isRetryableError(error)) throw error;
+          console.error('Error creating queued post:', error);
+          setStorageError(`A post created offline couldn't be saved: ${error.message}`);
+          fetchPosts();
+        }
+      }
+      return true;
+    } catch (error) {
+      if (isRetryableError(error)) return false;
+      console.error('Error replaying offline change:', error);
+      return true;
+    }
+  };
+
+  // Send everything queued, oldest first, stopping at the first write that still can't go
+  const replayQueue = async () => {
+    if (!currentUser || replaying.current || !navigator.onLine) return;
+    replaying.current = true;
+    try {
+      while (true) {
+        const [next] = await getQueuedMutations(currentUser.id);
+        if (!next) break;
+        replayingSeq.current = next.seq;
+        setSyncingPostIds(getQueuedPostIds([next]));
+        if (!(await replayMutation(next))) break;
+        await removeQueuedMutation(next.seq);
+      }
+    } catch (error) {
+      console.error('Error replaying offline changes:', error);
+    } finally {
+      replaying.current = false;
+      replayingSeq.current = null;
+      setSyncingPostIds(new Set());
+      await refreshQueue();
+    }
+  };
+  replayQueueRef.current = replayQueue;
+
+  // The first keystroke (or focus) of an edit records the post's revision and
+  // the field's value; the save is only accepted if the post is still on that revision
+  const rememberEditBase = (post: Post, field: keyof Post) => {
+    const key = `${post.id}-${field}`;
+    if (!editBases.current[key]) {
+      editBases.current[key] = { revision: post.revision, value: post[field] };
+    }
+  };
+
+  // After a save: keep the new base while the field is still being edited, otherwise forget it
+  const settleEditBase = (key: string, base: EditBase | null) => {
+    if (base && (focusedEditKey.current === key || debounceTimers.current[key])) {
+      editBases.current[key] = base;
+    } else {
+      delete editBases.current[key];
+    }
+  };
+
+  const handleEditFocus = (post: Post, field: PresenceField) => {
+    setEditingField({ postId: post.id, field });
+    focusedEditKey.current = `${post.id}-${field}`;
+    rememberEditBase(post, field);
+  };
+
+  const handleEditBlur = () => {
+    setEditingField(null);
+    const key = focusedEditKey.current;
+    focusedEditKey.current = null;
+    // A flushed edit is still pending - its save settles the base
+    if (key && !debounceTimers.current[key]) delete editBases.current[key];
+  };
+
+  // Write one field against the revision its edit started from. Returns the
+  // base for the next edit, or null if the save failed or needs a merge.
+  // Offline the write is queued instead; a replay (fromQueue) throws so it stays queued.
+  const savePostField = async (id: string, field: keyof Post, value: any, fromQueue = false): Promise<EditBase | null> => {
+    const key = `${id}-${field}`;
+
+    // Waiting on the merge prompt - the latest value becomes "your version"
+    if (conflictKeys.current.has(key)) {
+      setEditConflicts(prev => prev.map(c => c.postId === id && c.field === field ? { ...c, mine: value } : c));
+      return null;
+    }
+
+    const base = editBases.current[key];
+    const queueEdit = async () => {
+      await queueMutation({ kind: 'update', postId: id, field, value, base: base || { value: undefined } });
+      return base || null;
+    };
+    if (!fromQueue && shouldQueue()) return queueEdit();
+
+    let query = supabase
+      .from('posts')
+      .update(mapPostToDb({ [field]: value }))
+      .eq('id', id);
+    if (base?.revision !== undefined) {
+      query = query.eq('revision', base.revision);
+    }
+    const { data, error } = await query.select('*').maybeSingle();
+
+    if (error && isRetryableError(error)) {
+      if (fromQueue) throw error;
+      return queueEdit();
+    }
+    if (error) {
+      console.error('Error updating post:', error);
+      if ((field === 'imageUrl' || field === 'mediaItems') && (error.code === '413' || error.message?.includes('payload'))) {
+          alert("The image is too large to save to the database. Please try a smaller file.");
+      } else {
+          setStorageError("Failed to save changes. Please check your connection.");
+      }
+      // Revert optimism if needed (could be improved in future)
+      fetchPosts();
+      return null;
+    }
+
+    if (data) {
+      setPosts(prev => prev.map(p => p.id === id ? { ...p, revision: data.revision } : p));
+      return { revision: data.revision, value };
+    }
+
+    // Unversioned write that matched nothing (no access, or the post is gone)
+    if (base?.revision === undefined) return null;
+
+    // The post changed since this edit started - see what's there now
+    const { data: row, error: fetchError } = await supabase
+      .from('posts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    if (fetchError && isRetryableError(fetchError)) {
+      if (fromQueue) throw fetchError;
+      return queueEdit();
+    }
+    if (fetchError || !row || row.deleted_at) {
+      if (fetchError) console.error('Error loading post after a rejected save:', fetchError);
+      fetchPosts();
+      return null;
+    }
+
+    const server = mapDbToPost(row);
+    const theirs = server[field];
+
+    // Someone changed other fields, or made the same change - nothing to merge
+    if (isSameFieldValue(theirs, base.value)) {
+      editBases.current[key] = { revision: server.revision, value: base.value };
+      return savePostField(id, field, value, fromQueue);
+    }
+    if (isSameFieldValue(theirs, value)) {
+      setPosts(prev => prev.map(p => p.id === id ? { ...p, revision: server.revision } : p));
+      return { revision: server.revision, value };
+    }
+
+    // Both changed this field - ask instead of overwriting either
+    conflictKeys.current.add(key);
+    setEditConflicts(prev => [...prev, { postId: id, field, mine: value, theirs, revision: server.revision ?? 0 }]);
+    return null;
+  };
+
+  // Merge prompt answered: write the chosen value (yours or a merge) over theirs...
+  const handleKeepMine = (conflict: PostEditConflict, value: unknown) => {
+    const key = `${conflict.postId}-${conflict.field}`;
+    conflictKeys.current.delete(key);
+    setEditConflicts(prev => prev.filter(c => c !== conflict));
+
+    const changes: Partial<Post> = conflict.field === 'mediaItems' ? toMediaFields(value as MediaItem[]) : { [conflict.field]: value };
+    setPosts(prev => prev.map(p => p.id === conflict.postId ? { ...p, ...changes } : p));
+
+    editBases.current[key] = { revision: conflict.revision, value: conflict.theirs };
+    saveChains.current[key] = (saveChains.current[key] || Promise.resolve()).then(async () => {
+      settleEditBase(key, await savePostField(conflict.postId, conflict.field, value));
+    });
+  };
+
+  // ...or drop the edit and show what was saved
+  const handleUseTheirs = (conflict: PostEditConflict) => {
+    const key = `${conflict.postId}-${conflict.field}`;
+    conflictKeys.current.delete(key);
+    setEditConflicts(prev => prev.filter(c => c !== conflict));
+
+    const changes: Partial<Post> = conflict.field === 'mediaItems' ? toMediaFields(conflict.theirs as MediaItem[]) : { [conflict.field]: conflict.theirs };
+    setPosts(prev => prev.map(p => p.id === conflict.postId ? { ...p, ...changes, revision: conflict.revision } : p));
+    settleEditBase(key, { revision: conflict.revision, value: conflict.theirs });
   };
 
   const handleUpdatePost = useCallback(async (id: string, field: keyof Post, value: any) => {
@@ -877,8 +1796,24 @@ export default function App() {
     const currentPost = posts.find(p => p.id === id);
     const isStatusChange = field === 'status' && value === 'Approved' && currentPost?.status !== 'Approved';
 
+    // Same transition table the database enforces
+    if (field === 'status' && currentPost && !canTransition(currentPost.status, value)) {
+      alert(`A ${currentPost.status} post can't be moved to ${value}.`);
+      return;
+    }
+
+    // Approving records the user's sign-off - the post only moves once the client's rule is met
+    if (isStatusChange) {
+      await handleApprovePosts([id]);
+      return;
+    }
+
+    // Remember what this edit started from before showing it
+    if (currentPost) rememberEditBase(currentPost, field);
+
     // Optimistic Update - immediate UI feedback
-    setPosts(prev => prev.map(p => p.id === id ? { ...p, [field]: value } : p));
+    const changes: Partial<Post> = field === 'mediaItems' ? toMediaFields(value) : { [field]: value };
+    setPosts(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p));
 
     // Clear any existing debounce timer for this post+field
     const timerKey = `${id}-${field}`;
@@ -887,32 +1822,97 @@ export default function App() {
     }
 
     // Set new debounce timer - only update DB after user stops typing for 500ms
-    debounceTimers.current[timerKey] = setTimeout(async () => {
-      // Database Update
-      const updates = mapPostToDb({ [field]: value });
-      const { error } = await supabase
-        .from('posts')
-        .update(updates)
-        .eq('id', id);
-
-      if (error) {
-        console.error('Error updating post:', error);
-        if (field === 'imageUrl' && (error.code === '413' || error.message?.includes('payload'))) {
-            alert("The image is too large to save to the database. Please try a smaller file.");
-        } else {
-            setStorageError("Failed to save changes. Please check your connection.");
+    const timer = setTimeout(() => {
+      // Saves of one field run in order, each against the revision the last one produced
+      saveChains.current[timerKey] = (saveChains.current[timerKey] || Promise.resolve()).then(async () => {
+        const nextBase = await savePostField(id, field, value);
+
+        // Clean up timer reference (unless the user has typed again since)
+        if (debounceTimers.current[timerKey] === timer) {
+          delete debounceTimers.current[timerKey];
         }
-        // Revert optimism if needed (could be improved in future)
-        fetchPosts();
-      } else if (isStatusChange && currentClient) {
-        // Auto-post to social media when status changes to "Approved"
+        settleEditBase(timerKey, nextBase);
+      });
+    }, 500); // 500ms debounce delay
+    debounceTimers.current[timerKey] = timer;
+  }, [posts, currentClient]);
+
+  // Add the signed-in user's approval; posts that reach their quorum move to
+  // Approved and are auto-posted. Returns the ids that became Approved.
+  const handleApprovePosts = async (ids: string[], source: ChangeSource = 'edit', fromQueue = false): Promise<string[]> => {
+    // Offline - the sign-off (and any auto-posting) happens once it's sent
+    if (!fromQueue && shouldQueue()) {
+      await queueMutation({ kind: 'approve', postIds: ids, source });
+      return [];
+    }
+
+    try {
+      const statuses = await approvePosts(ids, source);
+      const approvedIds = ids.filter(id => statuses.get(id) === 'Approved' && posts.find(p => p.id === id)?.status !== 'Approved');
+      setPosts(prev => prev.map(p => statuses.has(p.id) ? { ...p, status: statuses.get(p.id)! } : p));
+      fetchApprovals();
+
+      // Auto-post to social media when status changes to "Approved"
+      for (const id of approvedIds) {
         await handleAutoPost(id);
       }
+      return approvedIds;
+    } catch (error: any) {
+      if (isRetryableError(error)) {
+        if (fromQueue) throw error;
+        await queueMutation({ kind: 'approve', postIds: ids, source });
+        return [];
+      }
+      console.error('Error approving posts:', error);
+      alert(error.message);
+      fetchPosts();
+      return [];
+    }
+  };
 
-      // Clean up timer reference
-      delete debounceTimers.current[timerKey];
-    }, 500); // 500ms debounce delay
-  }, [posts, currentClient]);
+  const handleWithdrawApproval = async (postId: string) => {
+    try {
+      await withdrawApprovals([postId]);
+      setApprovals(prev => prev.filter(a => !(a.postId === postId && a.userId === currentUser?.id)));
+    } catch (error: any) {
+      alert(error.message);
+    }
+  };
+
+  // Record a Late hand-off (Approved -> Scheduled) or a failure on the post
+  const markPostScheduled = async (postId: string, latePostId: string | undefined, source: ChangeSource) => {
+    setPosts(prev => prev.map(p => p.id === postId ? { ...p, status: 'Scheduled', latePostId: latePostId || '', publishError: '' } : p));
+    const { error } = await supabase
+      .from('posts')
+      .update(mapPostToDb({ status: 'Scheduled', latePostId: latePostId || '' }))
+      .eq('id', postId)
+      .setHeader(CHANGE_SOURCE_HEADER, source);
+    if (error) console.error('Error marking post scheduled:', error);
+  };
+
+  const markPostFailed = async (postId: string, reason: string, source: ChangeSource) => {
+    setPosts(prev => prev.map(p => p.id === postId ? { ...p, status: 'Failed', publishError: reason } : p));
+    const { error } = await supabase
+      .from('posts')
+      .update(mapPostToDb({ status: 'Failed', publishError: reason }))
+      .eq('id', postId)
+      .setHeader(CHANGE_SOURCE_HEADER, source);
+    if (error) console.error('Error marking post failed:', error);
+  };
+
+  // Take the hand-off to Late: Approved -> Scheduled only while the post is still
+  // Approved, so it is scheduled once even if another session or /api/review gets there too
+  const claimAutoPost = async (postId: string): Promise<boolean> => {
+    const { data, error } = await supabase
+      .from('posts')
+      .update(mapPostToDb({ status: 'Scheduled' }))
+      .eq('id', postId)
+      .eq('status', 'Approved')
+      .setHeader(CHANGE_SOURCE_HEADER, 'auto_post')
+      .select('id');
+    if (error) console.error('Error claiming post for auto-schedule:', error);
+    return !!data?.length;
+  };
 
   const handleAutoPost = async (postId: string) => {
     if (!currentClient) return;
@@ -920,6 +1920,12 @@ export default function App() {
     const post = posts.find(p => p.id === postId);
     if (!post) return;
 
+    // Backlog ideas have no day to schedule for yet
+    if (!post.date) {
+      console.log('Skipping auto-schedule: post has no date');
+      return;
+    }
+
     // Check if client has assigned Late profiles for auto-scheduling
     const clientProfileIds = currentClient.late_profile_ids || [];
     if (clientProfileIds.length === 0) {
@@ -927,20 +1933,15 @@ export default function App() {
       return;
     }
 
+    if (!(await claimAutoPost(postId))) return;
+
     try {
-      // Build caption with hashtags
-      let content = post.generatedCaption || '';
-      if (post.generatedHashtags && post.generatedHashtags.length > 0) {
-        content += '\n\n' + post.generatedHashtags.map(tag => `#${tag}`).join(' ');
-      }
-      if (!content) {
-        content = post.imageDescription || '';
-      }
+      // Base caption with hashtags - each platform also gets its own variant below
+      const content = buildBaseCaption(post);
 
-      // Check if post has valid media URL (not empty, not base64)
-      const hasValidMedia = post.imageUrl &&
-        post.imageUrl.trim() !== '' &&
-        post.imageUrl.startsWith('http');
+      // Only public media URLs can be sent (not empty, not base64)
+      const mediaItems = getMediaItems(post).filter(item => item.url.startsWith('http'));
+      const hasValidMedia = mediaItems.length > 0;
 
       // Fetch all profiles to get platform info
       const allProfiles = await getProfiles();
@@ -950,38 +1951,40 @@ export default function App() {
       const hasInstagram = clientProfiles.some(p => p.platform === 'instagram');
       if (hasInstagram && !hasValidMedia) {
         console.log('Skipping auto-schedule: Instagram requires media but post has no valid image/video');
+        await markPostFailed(postId, 'Instagram requires an image or video', 'auto_post');
         return;
       }
 
-      // Build scheduled datetime using post date + 12:00 PM
-      const scheduledDateTime = `${post.date}T12:00:00`;
-      const scheduledFor = new Date(scheduledDateTime).toISOString();
-
-      // Build platforms array from client's assigned profiles
-      const platforms = clientProfiles.map(profile => ({
-        platform: profile.platform,
-        accountId: profile.id
-      }));
+      // Post date + publish time, as wall-clock time in the client's timezone
+      const scheduledFor = toLocalDateTime(post.date, getPublishTime(post));
+      const timezone = getClientTimezone(currentClient);
+
+      // Build platforms array from client's assigned profiles, each with its own caption
+      const platforms = clientProfiles.map(profile => {
+        const socialPlatform = toSocialPlatform(profile.platform);
+        return {
+          platform: profile.platform,
+          accountId: profile.id,
+          customContent: socialPlatform ? buildPlatformCaption(post, socialPlatform) : undefined
+        };
+      });
 
       // Schedule the post via Late API
-      await schedulePost({
+      const result = await schedulePost({
         platforms,
         content,
-        mediaUrls: hasValidMedia ? [post.imageUrl!] : [],
-        mediaType: post.mediaType || 'image',
-        scheduledFor
+        mediaItems,
+        scheduledFor,
+        timezone
       });
 
-      console.log(`Auto-scheduled post ${postId} to ${platforms.length} platform(s) for ${scheduledFor}`);
+      console.log(`Auto-scheduled post ${postId} to ${platforms.length} platform(s) for ${scheduledFor} ${timezone}`);
 
-      // Update status to "Posted" after successful scheduling
-      setPosts(prev => prev.map(p => p.id === postId ? { ...p, status: 'Posted' } : p));
-      await supabase
-        .from('posts')
-        .update({ status: 'Posted' })
-        .eq('id', postId);
-    } catch (error) {
+      // Approved -> Scheduled; the publish check cron moves it on to Published or Failed
+      await markPostScheduled(postId, result.id, 'auto_post');
+    } catch (error: any) {
       console.error('Auto-schedule error:', error);
+      await markPostFailed(postId, error.message || 'Auto-schedule failed', 'auto_post');
     }
   };
 
@@ -1069,9 +2072,7 @@ export default function App() {
 
     // Helper to check if post has valid media URL (not empty, not base64)
     const hasValidMedia = (post: Post) => {
-      return post.imageUrl &&
-             post.imageUrl.trim() !== '' &&
-             post.imageUrl.startsWith('http');
+      return getMediaItems(post).some(item => item.url.startsWith('http'));
     };
 
     // Filter approved posts, and if Instagram is selected, require media
@@ -1102,58 +2103,52 @@ export default function App() {
 
     try {
       for (const post of approvedPosts) {
-        // Build caption with hashtags
-        let content = post.generatedCaption || '';
-        if (post.generatedHashtags && post.generatedHashtags.length > 0) {
-          content += '\n\n' + post.generatedHashtags.map(tag => `#${tag}`).join(' ');
-        }
+        // Base caption with hashtags - each platform also gets its own variant below
+        const content = buildBaseCaption(post);
 
-        // Build scheduled datetime from post date + selected time
-        const scheduledDateTime = `${post.date}T${scheduleTime}:00`;
-        const scheduledFor = new Date(scheduledDateTime).toISOString();
+        // Post date + its own publish time, as wall-clock time in the client's timezone
+        const scheduledFor = toLocalDateTime(post.date, getPublishTime(post));
+        const timezone = getClientTimezone(currentClient);
 
-        // Build platforms array
+        // Build platforms array, each with its own caption
         const platforms = selectedProfiles.map(profileId => {
           const profile = lateProfiles.find(p => p.id === profileId);
+          const socialPlatform = toSocialPlatform(profile?.platform || 'instagram');
           return {
             platform: profile?.platform || 'instagram',
             accountId: profileId,
+            customContent: socialPlatform ? buildPlatformCaption(post, socialPlatform) : undefined,
           };
         });
 
         try {
           // Detect media type from URL if not set in database
-          let mediaType = post.mediaType || 'image';
-          if (post.imageUrl) {
-            const urlLower = post.imageUrl.toLowerCase();
-            if (urlLower.includes('.mp4') || urlLower.includes('.mov') || urlLower.includes('.webm') || urlLower.includes('.m4v')) {
-              mediaType = 'video';
-            }
-          }
+          const mediaItems = getMediaItems(post)
+            .filter(item => item.url.startsWith('http'))
+            .map(item => ({ ...item, type: isVideoUrl(item.url) ? 'video' as const : item.type }));
 
           console.log(`Scheduling post ${post.id}:`, {
-            mediaType: mediaType,
-            detectedFromUrl: mediaType !== post.mediaType,
-            imageUrl: post.imageUrl?.substring(0, 100),
+            mediaItems: mediaItems.map(item => ({ type: item.type, url: item.url.substring(0, 100) })),
             platforms: platforms.map(p => p.platform),
           });
 
-          await schedulePost({
+          const result = await schedulePost({
             platforms,
             content,
-            mediaUrls: post.imageUrl ? [post.imageUrl] : [],
-            mediaType: mediaType,
+            mediaItems,
             scheduledFor,
+            timezone,
           });
           successCount++;
 
-          // Update post status to "Posted" (or you could add a "Scheduled" status)
-          await handleUpdatePost(post.id, 'status', 'Posted');
+          await markPostScheduled(post.id, result.id, 'schedule');
         } catch (error: any) {
           console.error(`Error scheduling post ${post.id}:`, error);
-          const mediaInfo = post.mediaType === 'video' ? ' (video)' : ' (image)';
+          const mediaCount = getMediaItems(post).length;
+          const mediaInfo = mediaCount > 1 ? ` (carousel of ${mediaCount})` : post.mediaType === 'video' ? ' (video)' : ' (image)';
           lastError = `${error.message || 'Unknown error'}${mediaInfo}`;
           errorCount++;
+          await markPostFailed(post.id, error.message || 'Scheduling failed', 'schedule');
           // Store which posts failed for better feedback
           failedPostIds.push(post.title || post.date);
         }
@@ -1189,8 +2184,19 @@ export default function App() {
     setClientNotes(currentClient?.client_notes || '');
     setReferenceImages(currentClient?.reference_images || []);
     setSelectedLateProfileIds(currentClient?.late_profile_ids || []);
+    setClientTimezone(getClientTimezone(currentClient));
+    setClientPillars(getClientPillars(currentClient));
+    setApprovalQuorum(currentClient?.approval_quorum || 1);
+    setRequiredApprovers(currentClient?.required_approvers || []);
+    setApprovalLeadDays(getApprovalLeadDays(currentClient));
     setShowClientNotesModal(true);
 
+    if (currentClient) {
+      getClientApprovers(currentClient.id)
+        .then(setClientApprovers)
+        .catch((error) => console.error('Error loading approvers:', error));
+    }
+
     // Fetch all available Late profiles
     setLoadingClientProfiles(true);
     try {
@@ -1208,19 +2214,41 @@ export default function App() {
 
     setSavingClientNotes(true);
     try {
+      const contentPillars = clientPillars
+        .map(p => ({ ...p, name: p.name.trim() }))
+        .filter(p => p.name);
+
       const { error } = await supabase
         .from('clients')
         .update({
           client_notes: clientNotes,
           reference_images: referenceImages,
-          late_profile_ids: selectedLateProfileIds
+          late_profile_ids: selectedLateProfileIds,
+          timezone: clientTimezone,
+          content_pillars: contentPillars,
+          approval_quorum: approvalQuorum,
+          required_approvers: requiredApprovers,
+          approval_lead_days: approvalLeadDays
         })
         .eq('id', currentClient.id);
 
       if (error) throw error;
 
+      // Posts using a removed pillar become unassigned
+      const removedPillarIds = getClientPillars(currentClient)
+        .filter(p => !contentPillars.some(kept => kept.id === p.id))
+        .map(p => p.id);
+      if (removedPillarIds.length > 0) {
+        const { error: postsError } = await supabase
+          .from('posts')
+          .update({ pillar: null })
+          .eq('client_id', currentClient.id)
+          .in('pillar', removedPillarIds);
+        if (postsError) console.error('Error clearing removed pillars:', postsError);
+      }
+
       // Update current client state
-      const updatedClient = { ...currentClient, client_notes: clientNotes, reference_images: referenceImages, late_profile_ids: selectedLateProfileIds };
+      const updatedClient = { ...currentClient, client_notes: clientNotes, reference_images: referenceImages, late_profile_ids: selectedLateProfileIds, timezone: clientTimezone, content_pillars: contentPillars, approval_quorum: approvalQuorum, required_approvers: requiredApprovers, approval_lead_days: approvalLeadDays };
       setCurrentClient(updatedClient);
 
       // Also update in allClients array so notes persist when switching clients
@@ -1280,6 +2308,61 @@ export default function App() {
     setReferenceImages(referenceImages.filter((_, index) => index !== indexToRemove));
   };
 
+  // Build the review email with magic links for the selected month
+  // Falls back to the dashboard URL if links can't be created
+  const handleEmailClient = async () => {
+    if (!currentClient) return;
+
+    const contactName = currentClient.contact_name || currentClient.name;
+    const month = `${selectedMonth.getFullYear()}-${String(selectedMonth.getMonth() + 1).padStart(2, '0')}`;
+
+    let linksText = `Please visit the link below to view and approve your upcoming posts:
+${window.location.origin}
+
+If you have any feedback or changes, please add them in the comments section for each post.`;
+
+    setPreparingEmail(true);
+    try {
+      const links = await createMonthReviewLinks(currentClient.id, month, {
+        name: contactName,
+        email: currentClient.contact_email,
+      });
+      const postLines = (links.postLinks || [])
+        .map(link => `- ${link.title || 'Post'} (${link.date ? link.date.split('-').reverse().join('/') : 'no date'}): ${link.url}`)
+        .join('\n');
+
+      linksText = `Review and approve this month's posts here (no login needed):
+${links.url}
+${postLines ? `\nOr open a single post:\n${postLines}\n` : ''}
+You can approve each post or request a revision with your notes. These links expire in 14 days.`;
+    } catch (err) {
+      console.error('Failed to create review links:', err);
+    } finally {
+      setPreparingEmail(false);
+    }
+
+    const subject = 'Your Social Calendar is Ready for Review';
+    const body = `Hi ${contactName},
+
+Your social calendar is ready for review.
+
+${linksText}
+
+Thanks,
+Heath`;
+
+    if (gmailConnected) {
+      setEmailTo(currentClient.contact_email || '');
+      setEmailSubject(subject);
+      setEmailBody(body);
+      setShowEmailModal(true);
+    } else {
+      // Fallback to mailto if Gmail not connected
+      // (location rather than window.open - popups are blocked after an await)
+      window.location.href = `mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+    }
+  };
+
   const handleSendEmail = async () => {
     if (!currentClient || !emailTo) {
       alert('Please enter client email address');
@@ -1322,17 +2405,15 @@ export default function App() {
     }
   };
 
+  // Moves the post to the client's trash - it can be restored from there
   const handleDeletePost = async (id: string) => {
-    if (confirm("Are you sure you want to delete this post?")) {
+    if (confirm("Move this post to the trash?")) {
       // Optimistic Delete
       setPosts(posts.filter(p => p.id !== id));
 
-      const { error } = await supabase
-        .from('posts')
-        .delete()
-        .eq('id', id);
-
-      if (error) {
+      try {
+        await trashPosts([id]);
+      } catch (error) {
         console.error('Error deleting post:', error);
         fetchPosts(); // Revert on error
       }
@@ -1342,25 +2423,7 @@ export default function App() {
   const handleDuplicatePost = async (post: Post) => {
     if (!currentClient) return;
 
-    const newId = crypto.randomUUID();
-
-    // Build insert data - only include media_type if the post has one
-    const insertData: Record<string, any> = {
-      id: newId,
-      client_id: currentClient.id,
-      title: post.title || 'Untitled',
-      image_description: post.imageDescription || '',
-      image_url: post.imageUrl || null,
-      status: 'Draft',
-      generated_caption: post.generatedCaption || null,
-      generated_hashtags: post.generatedHashtags || [],
-      date: post.date
-    };
-
-    // Only include media_type if it exists on the original post
-    if (post.mediaType) {
-      insertData.media_type = post.mediaType;
-    }
+    const insertData = toDuplicateRow(post, currentClient.id, post.date || null);
 
     // Save to database
     const { error } = await supabase
@@ -1374,31 +2437,223 @@ export default function App() {
     // Realtime subscription will automatically refresh the posts list
   };
 
-  const handleMediaChange = async (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !currentClient) return;
+  // Run a bulk action on the selected posts; the undo it returns is offered until the next one
+  const runBulkAction = async (working: string, action: () => Promise<{ label: string; undo: () => Promise<void> } | null>) => {
+    setBulkWorking(working);
+    setBulkUndo(null);
+    try {
+      const result = await action();
+      if (result) {
+        setSelectedPostIds(new Set());
+        setBulkUndo(result);
+      }
+    } catch (error: any) {
+      console.error('Bulk action error:', error);
+      alert(error.message || 'Bulk action failed. Please try again.');
+    } finally {
+      setBulkWorking(null);
+      fetchPosts();
+      fetchApprovals();
+    }
+  };
+
+  const handleUndoBulk = async () => {
+    if (!bulkUndo) return;
+    const { undo } = bulkUndo;
+    await runBulkAction('Undoing...', async () => {
+      await undo();
+      return null;
+    });
+  };
+
+  const countLabel = (count: number) => `${count} post${count === 1 ? '' : 's'}`;
+
+  const handleBulkStatus = (targets: Post[], status: PostStatus) => {
+    const movable = targets.filter(post => post.status !== status && canTransition(post.status, status));
+    if (movable.length === 0) {
+      alert(`None of the selected posts can be moved to ${status}.`);
+      return;
+    }
+    // Only moves the status table allows in reverse can be undone
+    const revertible = movable.filter(post => canTransition(status, post.status));
+    const skipped = movable.length - revertible.length;
+
+    // Approving adds the user's sign-off; posts still short of their quorum keep their status
+    if (status === 'Approved') {
+      runBulkAction(`Approving ${countLabel(movable.length)}...`, async () => {
+        const statuses = await approvePosts(movable.map(post => post.id), 'bulk_edit');
+        const moved = movable.filter(post => statuses.get(post.id) === 'Approved');
+        const waiting = movable.length - moved.length;
+        for (const post of moved) {
+          await handleAutoPost(post.id);
+        }
+        return {
+          label: `Approved ${countLabel(moved.length)}${waiting > 0 ? ` (${waiting} waiting for more approvals)` : ''}${moved.length > 0 ? ' - scheduled posts stay scheduled on undo' : ''}`,
+          undo: async () => {
+            // Auto-posting has handed most of the approved posts to Late by now - only
+            // those still Approved (e.g. no social accounts) can go back
+            const { data, error } = await supabase.from('posts').select('id, status').in('id', moved.map(post => post.id));
+            if (error) throw new Error(`Failed to check post statuses: ${error.message}`);
+            const stillApproved = new Set((data || []).filter(row => row.status === 'Approved').map(row => row.id));
+            const reverting = moved.filter(post => stillApproved.has(post.id) && canTransition('Approved', post.status));
+            await bulkUpdatePosts(reverting.map(post => ({ id: post.id, status: post.status })), 'undo');
+            await withdrawApprovals([...movable.filter(post => !moved.includes(post)), ...reverting].map(post => post.id));
+          },
+        };
+      });
+      return;
+    }
+
+    runBulkAction(`Moving ${countLabel(movable.length)} to ${status}...`, async () => {
+      await bulkUpdatePosts(movable.map(post => ({ id: post.id, status })), 'bulk_edit');
+      return {
+        label: `Moved ${countLabel(movable.length)} to ${status}${skipped > 0 ? ` (${skipped} can't be undone)` : ''}`,
+        undo: () => bulkUpdatePosts(revertible.map(post => ({ id: post.id, status: post.status })), 'undo'),
+      };
+    });
+  };
+
+  const handleBulkShiftDates = (targets: Post[], days: number) => {
+    // Handed-off posts keep the date Late already has
+    const movable = targets.filter(post => post.date && !isLockedStatus(post.status));
+    if (movable.length === 0) {
+      alert('None of the selected posts can be moved (scheduled and published posts keep their date).');
+      return;
+    }
+
+    runBulkAction(`Moving ${countLabel(movable.length)}...`, async () => {
+      await bulkUpdatePosts(movable.map(post => ({ id: post.id, date: shiftDate(post.date, days) })), 'bulk_edit');
+      return {
+        label: `Moved ${countLabel(movable.length)} ${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} ${days > 0 ? 'later' : 'earlier'}`,
+        undo: () => bulkUpdatePosts(movable.map(post => ({ id: post.id, date: post.date })), 'undo'),
+      };
+    });
+  };
+
+  const handleBulkPillar = (targets: Post[], pillarId: string) => {
+    const pillarName = getPillar(getClientPillars(currentClient), pillarId)?.name || 'No pillar';
+
+    runBulkAction(`Setting pillar on ${countLabel(targets.length)}...`, async () => {
+      await bulkUpdatePosts(targets.map(post => ({ id: post.id, pillar: pillarId || null })), 'bulk_edit');
+      return {
+        label: `Set ${countLabel(targets.length)} to ${pillarName}`,
+        undo: () => bulkUpdatePosts(targets.map(post => ({ id: post.id, pillar: post.pillarId || null })), 'undo'),
+      };
+    });
+  };
+
+  const handleBulkDuplicate = (targets: Post[], month: string) => {
+    if (!currentClient) return;
+    const clientId = currentClient.id;
+    const monthLabel = new Date(`${month}-01T00:00:00`).toLocaleString('default', { month: 'long', year: 'numeric' });
+
+    runBulkAction(`Duplicating ${countLabel(targets.length)} to ${monthLabel}...`, async () => {
+      const rows = targets.map(post => toDuplicateRow(post, clientId, moveToMonth(post.date, month)));
+      const { error } = await supabase.from('posts').insert(rows).setHeader(CHANGE_SOURCE_HEADER, 'bulk_edit');
+      if (error) throw new Error(`Failed to duplicate posts: ${error.message}`);
+
+      const ids = rows.map(row => row.id as string);
+      return {
+        label: `Duplicated ${countLabel(targets.length)} to ${monthLabel}`,
+        // Only trashed posts can be deleted, so the copies pass through the trash
+        undo: async () => {
+          await trashPosts(ids, 'undo');
+          await purgePosts(ids);
+        },
+      };
+    });
+  };
+
+  const handleBulkDelete = (targets: Post[]) => {
+    if (!confirm(`Move ${countLabel(targets.length)} to the trash?`)) return;
+    const ids = targets.map(post => post.id);
+
+    runBulkAction(`Deleting ${countLabel(targets.length)}...`, async () => {
+      await trashPosts(ids, 'bulk_edit');
+      return {
+        label: `Moved ${countLabel(ids.length)} to the trash`,
+        undo: () => restorePosts(ids, 'undo'),
+      };
+    });
+  };
+
+  const handleBulkCaptions = (targets: Post[]) => {
+    if (!currentClient) return;
+    const client = currentClient;
+    const eligible = targets.filter(post => post.imageUrl && !isLockedStatus(post.status));
+    if (eligible.length === 0) {
+      alert('None of the selected posts have an image to caption.');
+      return;
+    }
 
-    // Detect media type
-    const mediaType = detectMediaType(file);
+    runBulkAction(`Generating captions 0/${eligible.length}...`, async () => {
+      // Generate one by one, then save every caption in a single write
+      const generated: { post: Post; caption: string; hashtags: string[] }[] = [];
+      let failed = 0;
+      for (const post of eligible) {
+        try {
+          const result = await generateCaptionFromImage(post.imageUrl!, client.brand_name, client.client_notes);
+          generated.push({ post, caption: result.caption, hashtags: result.hashtags });
+        } catch (error) {
+          console.error('Error generating caption:', error);
+          failed++;
+        }
+        setBulkWorking(`Generating captions ${generated.length + failed}/${eligible.length}...`);
+      }
+      if (generated.length === 0) throw new Error('Caption generation failed for every selected post.');
+
+      await bulkUpdatePosts(generated.map(({ post, caption, hashtags }) => ({
+        id: post.id,
+        ...mapPostToDb({ generatedCaption: caption, generatedHashtags: hashtags }),
+      })), 'ai_generate');
+
+      return {
+        label: `Generated captions for ${countLabel(generated.length)}${failed > 0 ? ` (${failed} failed)` : ''}`,
+        undo: () => bulkUpdatePosts(generated.map(({ post }) => ({
+          id: post.id,
+          ...mapPostToDb({ generatedCaption: post.generatedCaption || '', generatedHashtags: post.generatedHashtags || [] }),
+        })), 'restore'),
+      };
+    });
+  };
 
-    // Size limits: 500MB for videos, 10MB for images
-    const maxSize = mediaType === 'video' ? 500 * 1024 * 1024 : 10 * 1024 * 1024;
-    const maxSizeMB = maxSize / (1024 * 1024);
+  // Upload files in order and add them to the post's media (a carousel when more than one)
+  const handleAddMedia = async (id: string, files: File[]) => {
+    const post = posts.find(p => p.id === id);
+    if (!post || files.length === 0 || !currentClient) return;
 
-    if (file.size > maxSize) {
-      alert(`File is too large. Please use a ${mediaType} under ${maxSizeMB}MB.`);
+    const existing = getMediaItems(post);
+    if (existing.length + files.length > MAX_MEDIA_ITEMS) {
+      alert(`A post can have up to ${MAX_MEDIA_ITEMS} media items.`);
       return;
     }
 
+    for (const file of files) {
+      // Detect media type
+      const mediaType = detectMediaType(file);
+
+      // Size limits: 500MB for videos, 10MB for images
+      const maxSize = mediaType === 'video' ? 500 * 1024 * 1024 : 10 * 1024 * 1024;
+      const maxSizeMB = maxSize / (1024 * 1024);
+
+      if (file.size > maxSize) {
+        alert(`${file.name} is too large. Please use a ${mediaType} under ${maxSizeMB}MB.`);
+        return;
+      }
+    }
+
     setUploadingImageId(id);
 
     try {
-      // Upload to Supabase Storage and get public URL
-      const { url: publicUrl, mediaType: detectedType } = await uploadMedia(file, currentClient.id, id);
+      // Upload to Supabase Storage and get public URLs
+      const uploaded: MediaItem[] = [];
+      for (const file of files) {
+        const { url, mediaType } = await uploadMedia(file, currentClient.id, id);
+        uploaded.push({ url, type: mediaType });
+      }
 
-      // Save the public URL and media type to the database
-      await handleUpdatePost(id, 'imageUrl', publicUrl);
-      await handleUpdatePost(id, 'mediaType', detectedType);
+      // Save the ordered media list to the database
+      await handleUpdatePost(id, 'mediaItems', [...existing, ...uploaded]);
     } catch (error: any) {
       console.error('Media upload error:', error);
       alert(error.message || 'Failed to upload media. Please try again.');
@@ -1407,6 +2662,12 @@ export default function App() {
     }
   };
 
+  const handleMediaChange = (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    handleAddMedia(id, files);
+  };
+
   const handleCopy = (post: Post) => {
     const fullText = `${post.generatedCaption}\n\n${post.generatedHashtags?.map(h => `#${h}`).join(' ')}`;
     navigator.clipboard.writeText(fullText);
@@ -1414,6 +2675,33 @@ export default function App() {
     setTimeout(() => setCopiedId(null), 2000);
   };
 
+  // Save caption + hashtags together, labelled with where they came from (one caption version)
+  const handleSetCaption = async (id: string, caption: string, hashtags: string[], source: ChangeSource) => {
+    // Drop any pending typed edit so it can't overwrite this one
+    for (const field of ['generatedCaption', 'generatedHashtags']) {
+      const timerKey = `${id}-${field}`;
+      if (debounceTimers.current[timerKey]) {
+        clearTimeout(debounceTimers.current[timerKey]);
+        delete debounceTimers.current[timerKey];
+      }
+      delete editBases.current[timerKey];
+    }
+
+    setPosts(prev => prev.map(p => p.id === id ? { ...p, generatedCaption: caption, generatedHashtags: hashtags } : p));
+
+    const { error } = await supabase
+      .from('posts')
+      .update(mapPostToDb({ generatedCaption: caption, generatedHashtags: hashtags }))
+      .eq('id', id)
+      .setHeader(CHANGE_SOURCE_HEADER, source);
+
+    if (error) {
+      console.error('Error updating caption:', error);
+      setStorageError("Failed to save changes. Please check your connection.");
+      fetchPosts();
+    }
+  };
+
   const handleGenerateCaption = async (post: Post) => {
     if (!post.imageUrl || !currentClient) {
       alert('Please upload an image first');
@@ -1425,11 +2713,8 @@ export default function App() {
     try {
       const result = await generateCaptionFromImage(post.imageUrl, currentClient.brand_name, currentClient.client_notes);
 
-      // Update caption
-      await handleUpdatePost(post.id, 'generatedCaption', result.caption);
-
-      // Update hashtags
-      await handleUpdatePost(post.id, 'generatedHashtags', result.hashtags);
+      // Update caption and hashtags (kept as a new caption version)
+      await handleSetCaption(post.id, result.caption, result.hashtags, 'ai_generate');
 
     } catch (error: any) {
       console.error('Error generating caption:', error);
@@ -1453,16 +2738,42 @@ export default function App() {
     return imageKeywords.some(keyword => lowerFeedback.includes(keyword));
   };
 
+  const handleAddComment = async (
+    postId: string,
+    body: string,
+    parentId: string | undefined,
+    mentions: string[],
+    options: { pin?: CommentPin; internal?: boolean } = {}
+  ) => {
+    if (!currentClient) return;
+    const comment = await addComment({ postId, clientId: currentClient.id, body, parentId, mentions, ...options });
+    setComments(prev => prev.some(c => c.id === comment.id) ? prev : [...prev, comment]);
+  };
+
+  const handleResolveComment = async (commentId: string, resolved: boolean) => {
+    try {
+      const updated = await setCommentResolved(commentId, resolved);
+      setComments(prev => prev.map(c => c.id === updated.id ? updated : c));
+    } catch (error: any) {
+      alert(error.message || 'Failed to update comment');
+    }
+  };
+
   const handleUpdateFromFeedback = async (post: Post) => {
-    if (!post.notes || !currentClient) {
-      alert('No feedback to process. Please add client notes first.');
+    // Open (unresolved) comment threads are the feedback
+    const feedback = getOpenFeedback(comments, post.id);
+    if (!feedback || !currentClient) {
+      alert('No feedback to process. Please add a comment first.');
       return;
     }
 
     setUpdatingFromFeedbackId(post.id);
 
     try {
-      const feedbackIsAboutImage = isImageRelatedFeedback(post.notes);
+      // Points pinned on the cover image are always about the image
+      const cover = getMediaItems(post)[0];
+      const annotations = cover?.type === 'image' ? getImageAnnotations(comments, post.id, cover.url) : [];
+      const feedbackIsAboutImage = annotations.length > 0 || isImageRelatedFeedback(feedback);
 
       // If feedback mentions images, regenerate the image using Nano Banana Pro
       if (feedbackIsAboutImage) {
@@ -1470,9 +2781,10 @@ export default function App() {
           const brandContext = `Brand: ${currentClient.brand_name}. ${currentClient.client_notes || ''}`;
           const imageResult = await generateImageFromFeedback(
             post.imageUrl || null,
-            post.notes,
+            feedback,
             brandContext,
-            currentClient.reference_images // Pass reference images for style matching
+            currentClient.reference_images, // Pass reference images for style matching
+            annotations
           );
 
           // Convert base64 to data URL and upload
@@ -1481,8 +2793,11 @@ export default function App() {
           // Upload the generated image to storage
           const uploadedUrl = await uploadImage(dataUrl, currentClient.id, post.id);
 
-          // Update the post with new image
-          await handleUpdatePost(post.id, 'imageUrl', uploadedUrl);
+          // Replace the cover image, keeping any other carousel items
+          await handleUpdatePost(post.id, 'mediaItems', [
+            { url: uploadedUrl, type: 'image' },
+            ...getMediaItems(post).slice(1),
+          ]);
 
           // Regenerate caption for the new image
           const captionResult = await generateCaptionFromImage(
@@ -1491,8 +2806,7 @@ export default function App() {
             currentClient.client_notes
           );
 
-          await handleUpdatePost(post.id, 'generatedCaption', captionResult.caption);
-          await handleUpdatePost(post.id, 'generatedHashtags', captionResult.hashtags);
+          await handleSetCaption(post.id, captionResult.caption, captionResult.hashtags, 'ai_feedback');
 
         } catch (imageError: any) {
           console.error('Image generation failed:', imageError);
@@ -1501,12 +2815,11 @@ export default function App() {
             const result = await updateFromFeedback(
               post.generatedCaption || '',
               post.generatedHashtags || [],
-              post.notes,
+              feedback,
               currentClient.brand_name,
               currentClient.client_notes
             );
-            await handleUpdatePost(post.id, 'generatedCaption', result.caption);
-            await handleUpdatePost(post.id, 'generatedHashtags', result.hashtags);
+            await handleSetCaption(post.id, result.caption, result.hashtags, 'ai_feedback');
             alert(`Image generation unavailable (${imageError.message}). Caption/hashtags updated instead.`);
           } else {
             throw imageError;
@@ -1522,13 +2835,12 @@ export default function App() {
         const result = await updateFromFeedback(
           post.generatedCaption || '',
           post.generatedHashtags || [],
-          post.notes,
+          feedback,
           currentClient.brand_name,
           currentClient.client_notes
         );
 
-        await handleUpdatePost(post.id, 'generatedCaption', result.caption);
-        await handleUpdatePost(post.id, 'generatedHashtags', result.hashtags);
+        await handleSetCaption(post.id, result.caption, result.hashtags, 'ai_feedback');
       }
 
     } catch (error: any) {
@@ -1554,13 +2866,15 @@ export default function App() {
       id: postWithClient.id, // Using the timestamp ID generated in modal
       client_id: currentClient.id,
       title: postWithClient.title || 'New Post',
-      date: postWithClient.date,
+      date: postWithClient.date || null,
+      publish_time: postWithClient.publishTime || null,
       status: postWithClient.status || 'Draft',
       image_description: postWithClient.imageDescription || '',
       image_url: postWithClient.imageUrl || '',
+      media_type: postWithClient.mediaType || 'image',
+      media_items: getMediaItems(postWithClient),
       generated_caption: postWithClient.generatedCaption || '',
       generated_hashtags: postWithClient.generatedHashtags || [],
-      notes: postWithClient.notes || '',
     };
 
     console.log('Creating new post:', dbPayload);
@@ -1568,9 +2882,15 @@ export default function App() {
     // 3. Optimistic Add
     setPosts([...posts, postWithClient]);
 
-    // 4. Send to DB
+    // 4. Send to DB (or keep it on this device until we're back online)
+    if (shouldQueue()) {
+      await queueMutation({ kind: 'insert', postId: dbPayload.id, row: dbPayload });
+      return;
+    }
     const { error } = await supabase.from('posts').insert([dbPayload]);
-    if (error) {
+    if (error && isRetryableError(error)) {
+      await queueMutation({ kind: 'insert', postId: dbPayload.id, row: dbPayload });
+    } else if (error) {
       console.error("Error creating post:", error);
       alert(`Failed to create post: ${error.message}`);
       fetchPosts(); // Revert
@@ -1579,9 +2899,45 @@ export default function App() {
     }
   };
 
+  // Quick idea for the backlog - a Draft with no date until it's dragged onto the calendar
+  const handleAddIdea = async (title: string) => {
+    if (!currentClient) return;
+
+    const row = {
+      id: crypto.randomUUID(),
+      client_id: currentClient.id,
+      title,
+      date: null,
+      status: 'Draft',
+      image_description: '',
+      image_url: '',
+      generated_caption: '',
+      generated_hashtags: [],
+    };
+
+    // Offline - show it now and send it later
+    const queueIdea = async () => {
+      setPosts(prev => upsertPost(prev, mapDbToPost(row), []));
+      await queueMutation({ kind: 'insert', postId: row.id, row });
+    };
+    if (shouldQueue()) return queueIdea();
+
+    const { error } = await supabase.from('posts').insert(row);
+
+    if (error && isRetryableError(error)) {
+      await queueIdea();
+    } else if (error) {
+      console.error('Error adding idea:', error);
+      throw new Error(`Failed to add idea: ${error.message}`);
+    }
+    // Realtime subscription will automatically refresh the posts list
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'Posted': return 'bg-stone-800 text-white border-stone-800';
+      case 'Published': return 'bg-stone-800 text-white border-stone-800';
+      case 'Scheduled': return 'bg-blue-600 text-white border-blue-600';
+      case 'Failed': return 'bg-red-600 text-white border-red-600';
       case 'Approved': return 'bg-brand-green text-white border-brand-green';
       case 'For Approval': return 'bg-amber-100 text-amber-800 border-amber-200';
       case 'Revision': return 'bg-red-100 text-red-800 border-red-200';
@@ -1598,6 +2954,23 @@ export default function App() {
            postDate.getFullYear() === selectedMonth.getFullYear();
   });
 
+  // Pillar/campaign/tag filters - only narrow what's shown, month actions still cover the whole month
+  const clientPillarList = getClientPillars(currentClient);
+  const visiblePosts = filteredPosts.filter(post => matchesFilters(post, postFilters, clientPillarList));
+  const campaignOptions = getCampaigns(posts);
+
+  // Ticked rows still on screen - bulk actions never reach posts hidden by the filters
+  const selectedPosts = visiblePosts.filter(post => selectedPostIds.has(post.id));
+  const allVisibleSelected = visiblePosts.length > 0 && selectedPosts.length === visiblePosts.length;
+  const togglePostSelected = (id: string) => {
+    setSelectedPostIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+  const followingMonth = new Date(selectedMonth.getFullYear(), selectedMonth.getMonth() + 1, 1);
+
   if (configError) {
     return (
       <div className="min-h-screen bg-[#F5F5F0] flex items-center justify-center p-4">
@@ -1650,22 +3023,33 @@ export default function App() {
                 <Lock className="w-8 h-8" />
             </div>
             <h1 className="font-serif text-3xl text-brand-dark mb-2">Client Access</h1>
-            <p className="text-stone-500 mb-8 font-light">Please enter the password to view the <span className="font-semibold text-brand-green">Seam Media</span> content manager.</p>
+            <p className="text-stone-500 mb-8 font-light">Sign in with your email and PIN to view the <span className="font-semibold text-brand-green">Seam Media</span> content manager.</p>
 
             <form onSubmit={handleLogin} className="space-y-4">
+                <input
+                    type="email"
+                    value={emailInput}
+                    onChange={(e) => setEmailInput(e.target.value)}
+                    placeholder="Email"
+                    className="w-full p-3 border border-stone-300 rounded-lg focus:ring-2 focus:ring-brand-green focus:border-brand-green focus:outline-none transition-all text-center text-lg placeholder:text-stone-300"
+                    autoComplete="username"
+                    autoFocus
+                    required
+                />
                 <div className="relative">
                   <input
                       type="password"
-                      value={passwordInput}
-                      onChange={(e) => setPasswordInput(e.target.value)}
-                      placeholder="Enter Password"
+                      value={pinInput}
+                      onChange={(e) => setPinInput(e.target.value)}
+                      placeholder="Enter PIN"
                       className="w-full p-3 border border-stone-300 rounded-lg focus:ring-2 focus:ring-brand-green focus:border-brand-green focus:outline-none transition-all text-center tracking-widest text-lg placeholder:text-stone-300 placeholder:tracking-normal"
-                      autoFocus
+                      autoComplete="current-password"
+                      required
                   />
                 </div>
                 {loginError && (
                   <div className="text-red-500 text-sm bg-red-50 py-2 px-4 rounded-md animate-pulse">
-                    Incorrect password. Please try again.
+                    {loginError}
                   </div>
                 )}
                 <button
@@ -1695,6 +3079,11 @@ export default function App() {
             </h1>
           </div>
           <div className="flex items-center gap-3">
+             {currentUser && (
+               <span className="text-xs text-stone-500 px-2" title={currentUser.email}>
+                 {currentUser.name} <span className="ml-1 px-2 py-0.5 bg-stone-100 text-stone-600 rounded-full font-medium">{ROLE_LABELS[currentUser.role]}</span>
+               </span>
+             )}
              {isMasterAccount && currentClient && (
                <button
                  onClick={handleOpenClientNotes}
@@ -1714,13 +3103,15 @@ export default function App() {
                  Switch Client
                </button>
              )}
-             <button
-               onClick={() => setShowMetaSettings(true)}
-               className="flex items-center gap-2 text-sm font-medium text-stone-600 hover:text-brand-green px-3 py-2 border border-stone-300 rounded-lg transition-colors"
-               title="Meta Integration Settings"
-             >
-               <Settings className="w-4 h-4" />
-             </button>
+             {canManage && (
+               <button
+                 onClick={() => setShowMetaSettings(true)}
+                 className="flex items-center gap-2 text-sm font-medium text-stone-600 hover:text-brand-green px-3 py-2 border border-stone-300 rounded-lg transition-colors"
+                 title="Meta Integration Settings"
+               >
+                 <Settings className="w-4 h-4" />
+               </button>
+             )}
              <button onClick={fetchPosts} className="text-stone-400 hover:text-brand-green p-2" title="Refresh Data">
                 <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
              </button>
@@ -1735,12 +3126,14 @@ export default function App() {
                 <Sparkles className="w-4 h-4" /> Generate Posts
               </button>
              )}
-             <button
-              onClick={() => setIsEditorOpen(true)}
-              className="bg-brand-dark hover:bg-black text-white px-4 py-2 rounded-md flex items-center gap-2 text-sm font-medium transition-colors shadow-sm"
-            >
-              <Plus className="w-4 h-4" /> Add Post
-            </button>
+             {canEdit && (
+              <button
+                onClick={() => setIsEditorOpen(true)}
+                className="bg-brand-dark hover:bg-black text-white px-4 py-2 rounded-md flex items-center gap-2 text-sm font-medium transition-colors shadow-sm"
+              >
+                <Plus className="w-4 h-4" /> Add Post
+              </button>
+             )}
             <button
               onClick={handleLogout}
               className="text-stone-400 hover:text-red-500 p-2 transition-colors"
@@ -1759,6 +3152,17 @@ export default function App() {
         </div>
       )}
 
+      {(!isOnline || queuedMutations.length > 0) && (
+        <div className="bg-stone-100 text-stone-700 px-6 py-2 text-sm flex items-center justify-center gap-2 border-b border-stone-200">
+            {syncingPostIds.size > 0 ? <Loader2 className="w-4 h-4 animate-spin" /> : <CloudOff className="w-4 h-4" />}
+            {!isOnline
+              ? `You're offline${queuedMutations.length > 0 ? ` - ${queuedMutations.length} change${queuedMutations.length === 1 ? '' : 's'} saved on this device` : ''}. Changes will sync when the connection is back.`
+              : syncingPostIds.size > 0
+                ? `Syncing ${queuedMutations.length} offline change${queuedMutations.length === 1 ? '' : 's'}...`
+                : `${queuedMutations.length} change${queuedMutations.length === 1 ? '' : 's'} waiting to sync - retrying shortly.`}
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 overflow-x-auto p-6">
         <div className="min-w-[1200px] max-w-[1600px] mx-auto">
@@ -1852,12 +3256,49 @@ export default function App() {
               <Calendar className="w-4 h-4" />
               Calendar View
             </button>
+            {canEdit && currentClient && (
+              <button
+                onClick={() => setShowTrash(true)}
+                className="ml-auto flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-all bg-white text-stone-500 border border-stone-300 hover:border-stone-400"
+                title="Deleted posts - restore or delete for good"
+              >
+                <Trash2 className="w-4 h-4" />
+                Trash
+              </button>
+            )}
           </div>
 
+          <PostFiltersBar
+            filters={postFilters}
+            pillars={clientPillarList}
+            campaigns={campaignOptions}
+            tags={getTags(posts)}
+            onChange={setPostFilters}
+          />
+
           {viewMode === 'table' ? (
             <>
+              {canEdit && (
+                <BulkActionsBar
+                  count={selectedPosts.length}
+                  pillars={clientPillarList}
+                  defaultMonth={`${followingMonth.getFullYear()}-${String(followingMonth.getMonth() + 1).padStart(2, '0')}`}
+                  working={bulkWorking}
+                  undoLabel={bulkUndo?.label || null}
+                  onSetStatus={(status) => handleBulkStatus(selectedPosts, status)}
+                  onShiftDates={(days) => handleBulkShiftDates(selectedPosts, days)}
+                  onSetPillar={(pillarId) => handleBulkPillar(selectedPosts, pillarId)}
+                  onDuplicateToMonth={(month) => handleBulkDuplicate(selectedPosts, month)}
+                  onGenerateCaptions={() => handleBulkCaptions(selectedPosts)}
+                  onDelete={() => handleBulkDelete(selectedPosts)}
+                  onClearSelection={() => setSelectedPostIds(new Set())}
+                  onUndo={handleUndoBulk}
+                  onDismissUndo={() => setBulkUndo(null)}
+                />
+              )}
+
               {/* Action Buttons - positioned above table columns to match column widths */}
-              {/* Table columns: Date(w-32) | Creative(w-64) | Caption(flex) | Approval Status(w-48) | Additional Comments(w-64) */}
+              {/* Table columns: Date(w-32) | Creative(w-64) | Caption(flex) | Approval Status(w-48) | Comments(w-64) */}
               <div className="mb-2 flex items-center">
                 {/* Spacer for Date column */}
                 <div className="w-32 shrink-0"></div>
@@ -1867,22 +3308,30 @@ export default function App() {
                 <div className="flex-1"></div>
                 {/* Approve All - above Approval Status column (w-48) */}
                 <div className="w-48 shrink-0 px-4">
+                  {canEdit && (
                   <button
                     onClick={async () => {
-                      if (confirm(`Approve all ${filteredPosts.length} posts in this month?`)) {
-                        const updates = filteredPosts.map(post =>
-                          supabase.from('posts').update({ status: 'Approved' }).eq('id', post.id)
-                        );
-                        await Promise.all(updates);
-                        fetchPosts();
+                      // Scheduled/Published posts can't go back to Approved
+                      const approvable = filteredPosts.filter(post => post.status !== 'Approved' && canTransition(post.status, 'Approved'));
+                      if (approvable.length === 0) {
+                        alert('There are no posts in this month that can be approved.');
+                        return;
+                      }
+                      if (confirm(`Approve all ${approvable.length} posts in this month?`)) {
+                        const approvedIds = await handleApprovePosts(approvable.map(post => post.id), 'approve_all');
+                        const waiting = approvable.length - approvedIds.length;
+                        if (waiting > 0 && hasApprovalRule(currentClient)) {
+                          alert(`Your approval was added. ${waiting} post${waiting === 1 ? ' is' : 's are'} waiting for more approvals.`);
+                        }
                       }
                     }}
                     className="bg-brand-green hover:bg-emerald-800 text-white px-4 py-2 rounded-lg font-medium text-sm transition-all shadow-sm"
                   >
                     Approve All
                   </button>
+                  )}
                 </div>
-                {/* Schedule Posts & Email Client Buttons - above Additional Comments column (w-64) */}
+                {/* Schedule Posts & Email Client Buttons - above Comments column (w-64) */}
                 <div className="w-64 shrink-0 px-4 flex justify-end gap-2">
                   {isMasterAccount && currentClient && isLateConfigured() && (
                     <button
@@ -1896,48 +3345,11 @@ export default function App() {
                   )}
                   {isMasterAccount && currentClient && (
                     <button
-                      onClick={() => {
-                        if (gmailConnected) {
-                          const contactName = currentClient.contact_name || currentClient.name;
-                          const dashboardUrl = window.location.origin;
-                          setEmailTo(currentClient.contact_email || '');
-                          setEmailSubject('Your Social Calendar is Ready for Review');
-                          setEmailBody(`Hi ${contactName},
-
-Your social calendar is ready for review.
-
-Please visit the link below to view and approve your upcoming posts:
-${dashboardUrl}
-
-If you have any feedback or changes, please add them in the comments section for each post.
-
-Thanks,
-Heath`);
-                          setShowEmailModal(true);
-                        } else {
-                          // Fallback to mailto if Gmail not connected
-                          const dashboardUrl = window.location.origin;
-                          const clientName = currentClient.name;
-                          const subject = encodeURIComponent(`Your Social Calendar is Ready for Review`);
-                          const body = encodeURIComponent(
-`Hi ${clientName},
-
-Your social calendar is ready for review.
-
-Please visit the link below to view and approve your upcoming posts:
-${dashboardUrl}
-
-If you have any feedback or changes, please add them in the comments section for each post.
-
-Thanks,
-Heath`
-                          );
-                          window.open(`mailto:?subject=${subject}&body=${body}`, '_blank');
-                        }
-                      }}
+                      onClick={handleEmailClient}
+                      disabled={preparingEmail}
                       className="bg-stone-100 hover:bg-stone-200 text-stone-700 px-4 py-2 rounded-lg font-medium text-sm transition-all shadow-sm border border-stone-300 flex items-center gap-2"
                     >
-                      <Mail className="w-4 h-4" />
+                      {preparingEmail ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
                       Email
                       {gmailConnected && <span className="w-2 h-2 bg-green-500 rounded-full"></span>}
                     </button>
@@ -1949,27 +3361,70 @@ Heath`
                 <table className="w-full text-left border-collapse">
                 <thead>
                     <tr className="bg-stone-50 border-b border-stone-300">
-                        <th className="sticky left-0 z-10 bg-stone-50 p-4 w-32 text-xs font-bold text-stone-500 uppercase tracking-wider border-r border-stone-200">Date</th>
+                        <th className="sticky left-0 z-10 bg-stone-50 p-4 w-32 text-xs font-bold text-stone-500 uppercase tracking-wider border-r border-stone-200">
+                            <div className="flex items-center gap-2">
+                                {canEdit && (
+                                    <input
+                                        type="checkbox"
+                                        checked={allVisibleSelected}
+                                        onChange={() => setSelectedPostIds(allVisibleSelected ? new Set() : new Set(visiblePosts.map(post => post.id)))}
+                                        className="accent-brand-green cursor-pointer"
+                                        title={allVisibleSelected ? 'Clear selection' : 'Select all shown'}
+                                    />
+                                )}
+                                Date
+                            </div>
+                        </th>
                         <th className="p-4 w-64 text-xs font-bold text-stone-500 uppercase tracking-wider border-r border-stone-200">Creative</th>
                         <th className="p-4 text-xs font-bold text-stone-500 uppercase tracking-wider border-r border-stone-200">Caption & Hashtags</th>
                         <th className="p-4 w-48 text-xs font-bold text-stone-500 uppercase tracking-wider border-r border-stone-200">Approval Status</th>
-                        <th className="p-4 w-64 text-xs font-bold text-stone-500 uppercase tracking-wider">Additional Comments</th>
+                        <th className="p-4 w-64 text-xs font-bold text-stone-500 uppercase tracking-wider">Comments</th>
                     </tr>
                 </thead>
                 <tbody className="divide-y divide-stone-200">
                     {loading && posts.length === 0 ? (
                         <tr><td colSpan={5} className="p-8 text-center text-stone-400"><Loader2 className="w-8 h-8 animate-spin mx-auto mb-2"/>Loading content...</td></tr>
-                    ) : filteredPosts.map((post) => (
+                    ) : visiblePosts.length === 0 && filteredPosts.length > 0 ? (
+                        <tr><td colSpan={5} className="p-8 text-center text-sm text-stone-400">No posts this month match the filters</td></tr>
+                    ) : visiblePosts.map((post) => (
                         <tr key={post.id} className="group hover:bg-stone-50/50 transition-colors bg-white">
                             {/* Date Column */}
                             <td className="sticky left-0 z-10 bg-white group-hover:bg-stone-50/50 p-4 align-top border-r border-stone-200">
                                 <div className="flex flex-col gap-2">
-                                    <input
-                                        type="date"
-                                        value={post.date || ''}
-                                        onChange={(e) => handleUpdatePost(post.id, 'date', e.target.value)}
-                                        className="w-full bg-transparent font-medium text-stone-600 focus:outline-none focus:text-brand-dark cursor-pointer border border-transparent hover:border-brand-green rounded px-2 py-1 transition-colors"
-                                    />
+                                    <div className="flex items-center gap-1">
+                                      {canEdit && (
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedPostIds.has(post.id)}
+                                            onChange={() => togglePostSelected(post.id)}
+                                            className="accent-brand-green cursor-pointer shrink-0"
+                                            title="Select for bulk actions"
+                                        />
+                                      )}
+                                      <input
+                                          type="date"
+                                          value={post.date || ''}
+                                          onChange={(e) => handleUpdatePost(post.id, 'date', e.target.value)}
+                                          disabled={!canEdit}
+                                          className="w-full bg-transparent font-medium text-stone-600 focus:outline-none focus:text-brand-dark cursor-pointer border border-transparent hover:border-brand-green rounded px-2 py-1 transition-colors"
+                                      />
+                                    </div>
+                                    <div className="flex items-center gap-1">
+                                      <input
+                                          type="time"
+                                          value={getPublishTime(post)}
+                                          onChange={(e) => handleUpdatePost(post.id, 'publishTime', e.target.value)}
+                                          disabled={!canEdit}
+                                          className="w-full bg-transparent text-sm text-stone-500 focus:outline-none focus:text-brand-dark cursor-pointer border border-transparent hover:border-brand-green rounded px-2 py-1 transition-colors"
+                                          title={`Publish time (${getClientTimezone(currentClient)})`}
+                                      />
+                                      <span className="text-[10px] text-stone-400 shrink-0" title={getClientTimezone(currentClient)}>
+                                          {getTimezoneAbbreviation(getClientTimezone(currentClient), post.date)}
+                                      </span>
+                                    </div>
+                                    <PresenceAvatars peers={getPostPeers(presencePeers, post.id)} postId={post.id} />
+                                    <SyncStatusBadge state={postSyncStates[post.id]} />
+                                    {canEdit && (
                                     <div className="flex gap-1">
                                       <button
                                           onClick={() => handleDuplicatePost(post)}
@@ -1986,6 +3441,7 @@ Heath`
                                           <Trash2 className="w-3 h-3" />
                                       </button>
                                     </div>
+                                    )}
                                 </div>
                             </td>
 
@@ -2034,6 +3490,13 @@ Heath`
                                                         VIDEO
                                                     </div>
                                                 )}
+                                                {/* Carousel indicator */}
+                                                {getMediaItems(post).length > 1 && (
+                                                    <div className="absolute top-2 right-2 bg-black/70 text-white text-[10px] font-medium px-2 py-1 rounded flex items-center gap-1">
+                                                        <Layers className="w-3 h-3" />
+                                                        {getMediaItems(post).length}
+                                                    </div>
+                                                )}
                                                 {/* Click to enlarge hint */}
                                                 <div className="absolute inset-0 bg-black/0 group-hover/image:bg-black/20 transition-colors flex items-center justify-center">
                                                     <div className="bg-white/90 text-stone-800 text-xs font-medium px-3 py-1.5 rounded shadow-sm opacity-0 group-hover/image:opacity-100 transform translate-y-1 group-hover/image:translate-y-0 transition-all">
@@ -2050,9 +3513,9 @@ Heath`
                                             </div>
                                         )}
 
-                                        {post.status === 'Posted' && (
-                                            <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-white font-medium text-sm pointer-events-none">
-                                                POSTED
+                                        {isLockedStatus(post.status) && (
+                                            <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-white font-medium text-sm uppercase pointer-events-none">
+                                                {post.status}
                                             </div>
                                         )}
 
@@ -2065,33 +3528,55 @@ Heath`
                                         )}
                                     </div>
 
-                                    {/* Upload Button - Always visible below image */}
+                                    {/* Upload Button - below image for anyone who can edit */}
+                                    {canEdit && (
                                     <label className="flex items-center justify-center gap-2 px-3 py-2 border border-stone-300 rounded-md cursor-pointer hover:bg-stone-50 hover:border-brand-green transition-colors text-xs font-medium text-stone-600 hover:text-brand-green">
                                         <input
                                           type="file"
                                           accept="image/*,video/*"
+                                          multiple
                                           onChange={(e) => handleMediaChange(post.id, e)}
                                           className="hidden"
-                                          disabled={post.status === 'Posted'}
+                                          disabled={isLockedStatus(post.status) || getMediaItems(post).length >= MAX_MEDIA_ITEMS}
                                         />
                                         <Upload className="w-3.5 h-3.5" />
-                                        {post.imageUrl ? ((post.mediaType === 'video' || isVideoUrl(post.imageUrl)) ? 'Change Video' : 'Change Image') : 'Upload Media'}
+                                        {post.imageUrl ? 'Add Media' : 'Upload Media'}
                                     </label>
+                                    )}
+
+                                    {/* Pillar, campaign and tags */}
+                                    <PostLabelsEditor
+                                        postId={post.id}
+                                        pillarId={post.pillarId}
+                                        campaign={post.campaign}
+                                        tags={post.tags}
+                                        pillars={clientPillarList}
+                                        campaigns={campaignOptions}
+                                        disabled={!canEdit}
+                                        onChange={(field, value) => handleUpdatePost(post.id, field, value)}
+                                    />
                                 </div>
                             </td>
 
                             {/* Caption Column */}
                             <td className="p-4 align-top border-r border-stone-200">
                                 <div className="h-full flex flex-col gap-3">
+                                    <FieldLockNotice editor={getFieldEditor(presencePeers, post.id, 'generatedCaption')} field="generatedCaption" />
                                     <DebouncedTextarea
                                         value={post.generatedCaption || ''}
                                         onChange={(value) => handleUpdatePost(post.id, 'generatedCaption', value)}
+                                        onFocus={() => handleEditFocus(post, 'generatedCaption')}
+                                        onBlur={handleEditBlur}
                                         className="w-full min-h-[160px] p-3 text-sm leading-relaxed border border-stone-200 rounded bg-white focus:ring-1 focus:ring-brand-green focus:border-brand-green outline-none resize-y"
                                         placeholder="Caption..."
+                                        disabled={!canEdit}
                                     />
                                     <div className="flex flex-wrap gap-1">
+                                        <FieldLockNotice editor={getFieldEditor(presencePeers, post.id, 'generatedHashtags')} field="generatedHashtags" />
                                         <DebouncedInput
                                             value={post.generatedHashtags?.map(h => `#${h}`).join(' ') || ''}
+                                            onFocus={() => handleEditFocus(post, 'generatedHashtags')}
+                                            onBlur={handleEditBlur}
                                             onChange={(value) => {
                                                 // Parse hashtags from input (split by space or #)
                                                 const hashtags = value
@@ -2102,6 +3587,7 @@ Heath`
                                             }}
                                             className="w-full p-2 text-xs text-brand-green bg-brand-green/5 border border-brand-green/20 rounded focus:ring-1 focus:ring-brand-green focus:border-brand-green outline-none"
                                             placeholder="#hashtag1 #hashtag2 #hashtag3..."
+                                            disabled={!canEdit}
                                         />
                                     </div>
                                     <div className="flex gap-2 mt-auto pt-2">
@@ -2133,6 +3619,30 @@ Heath`
                                             {copiedId === post.id ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
                                             {copiedId === post.id ? 'Copied' : 'Copy'}
                                         </button>
+                                        {(() => {
+                                            const variantCount = Object.keys(post.captionVariants || {}).length;
+                                            const overLimit = PLATFORMS.filter(platform => getCaptionIssues(post, platform).length > 0);
+                                            return (
+                                                <button
+                                                    onClick={() => setVariantsPostId(post.id)}
+                                                    className={`text-xs flex items-center gap-1 transition-colors ${overLimit.length > 0 ? 'text-red-600 hover:text-red-700' : 'text-stone-500 hover:text-brand-dark'}`}
+                                                    title={overLimit.length > 0
+                                                        ? `Over the limit on ${overLimit.map(platform => PLATFORM_LIMITS[platform].label).join(', ')}`
+                                                        : 'Per-platform captions'}
+                                                >
+                                                    <Share2 className="w-3 h-3" />
+                                                    Platforms{variantCount > 0 ? ` (${variantCount})` : ''}
+                                                </button>
+                                            );
+                                        })()}
+                                        <button
+                                            onClick={() => setVersionsPostId(post.id)}
+                                            className="text-xs flex items-center gap-1 text-stone-500 hover:text-brand-dark transition-colors"
+                                            title="Earlier captions - compare and restore"
+                                        >
+                                            <GitCompare className="w-3 h-3" />
+                                            Versions
+                                        </button>
                                     </div>
                                 </div>
                             </td>
@@ -2143,39 +3653,77 @@ Heath`
                                     <div className="relative">
                                         <select
                                             value={post.status}
-                                            onChange={(e) => handleUpdatePost(post.id, 'status', e.target.value)}
+                                            onChange={(e) => handleUpdatePost(post.id, 'status', e.target.value as PostStatus)}
+                                            disabled={!canEdit || getStatusOptions(post.status).length === 1}
                                             className={`w-full appearance-none pl-3 pr-8 py-2 rounded text-xs font-bold uppercase tracking-wider border focus:outline-none focus:ring-2 focus:ring-offset-1 ${getStatusColor(post.status)} cursor-pointer transition-colors shadow-sm`}
                                         >
-                                            <option value="Draft">Draft</option>
-                                            <option value="For Approval">For Approval</option>
-                                            <option value="Revision">Revision</option>
-                                            <option value="Approved">Approved</option>
-                                            <option value="Posted">Posted</option>
+                                            {getStatusOptions(post.status).map(status => (
+                                                <option key={status} value={status}>{status}</option>
+                                            ))}
                                         </select>
                                         <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-current opacity-60">
                                             <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z"/></svg>
                                         </div>
                                     </div>
 
+                                    {(() => {
+                                        // Approval deadline (approval_lead_days before the post date)
+                                        const risk = getApprovalRisk(post, currentClient, getTodayInTimezone(getClientTimezone(currentClient)));
+                                        if (!risk) return null;
+                                        const [, month, day] = getApprovalDeadline(post, currentClient)!.split('-');
+                                        return (
+                                            <p className={`text-xs px-2 py-1.5 rounded flex items-center gap-1.5 ${risk === 'overdue' ? 'text-red-700 bg-red-50' : 'text-orange-700 bg-orange-50'}`}>
+                                                <Clock className="w-3.5 h-3.5 shrink-0" />
+                                                {risk === 'overdue' ? 'Approval overdue' : 'Approval due'} {day}/{month}
+                                            </p>
+                                        );
+                                    })()}
+
+                                    {(() => {
+                                        // Multi-approver clients - who has signed off and who is still needed
+                                        const postApprovals = approvals.filter(a => a.postId === post.id);
+                                        if (!hasApprovalRule(currentClient) || (post.status !== 'For Approval' && postApprovals.length === 0)) return null;
+                                        return (
+                                            <ApprovalProgress
+                                                progress={getApprovalProgress(currentClient, postApprovals)}
+                                                approvers={clientApprovers}
+                                                currentUserId={currentUser?.id}
+                                                isApproved={post.status === 'Approved'}
+                                                canApprove={canEdit && post.status !== 'Approved' && canTransition(post.status, 'Approved')}
+                                                onApprove={() => handleApprovePosts([post.id])}
+                                                onWithdraw={() => handleWithdrawApproval(post.id)}
+                                            />
+                                        );
+                                    })()}
+
                                     {post.status === 'Approved' && (
                                          <div className="text-center">
                                             <span className="text-xs font-serif italic text-stone-400">Ready to post</span>
                                          </div>
                                     )}
+
+                                    {post.status === 'Failed' && post.publishError && (
+                                         <p className="text-xs text-red-600 bg-red-50 px-2 py-1.5 rounded flex items-start gap-1.5">
+                                            <AlertCircle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                                            <span>{post.publishError}. Set back to Approved to retry.</span>
+                                         </p>
+                                    )}
                                 </div>
                             </td>
 
-                            {/* Additional Comments Column */}
+                            {/* Comments Column */}
                             <td className="p-4 align-top">
                                 <div className="flex flex-col gap-2">
-                                    <DebouncedTextarea
-                                        value={post.notes || ''}
-                                        onChange={(value) => handleUpdatePost(post.id, 'notes', value)}
-                                        className="w-full h-32 p-3 text-sm border border-stone-200 rounded bg-stone-50 focus:bg-white focus:ring-1 focus:ring-stone-400 focus:border-stone-400 outline-none resize-none transition-colors"
-                                        placeholder="Add client notes or feedback here..."
+                                    <PostComments
+                                        postId={post.id}
+                                        comments={comments}
+                                        mentionables={mentionables}
+                                        canComment={canEdit}
+                                        onAdd={(body, parentId, mentions) => handleAddComment(post.id, body, parentId, mentions)}
+                                        onResolve={handleResolveComment}
                                     />
-                                    {/* Update from Feedback - Only visible for master account */}
-                                    {isMasterAccount && post.notes && (
+                                    {/* Update from Feedback (open comments) - Only visible for master account */}
+                                    {isMasterAccount && getOpenFeedback(comments, post.id) && (
                                         <button
                                             onClick={() => handleUpdateFromFeedback(post)}
                                             disabled={updatingFromFeedbackId === post.id}
@@ -2194,12 +3742,38 @@ Heath`
                                             )}
                                         </button>
                                     )}
+                                    {/* Internal notes - agency only (client sessions never receive them) */}
+                                    {isMasterAccount && (
+                                        <div className="border-t border-stone-100 pt-2">
+                                            <button
+                                                onClick={() => setInternalNotesPostId(internalNotesPostId === post.id ? null : post.id)}
+                                                className="flex items-center gap-1 text-[11px] font-bold uppercase tracking-wide text-amber-700 hover:text-amber-900"
+                                            >
+                                                <Lock className="w-3 h-3" />
+                                                Internal Notes ({getThreads(comments, post.id, true).filter(t => !t.comment.resolved).length})
+                                            </button>
+                                            {internalNotesPostId === post.id && (
+                                                <div className="mt-2">
+                                                    <PostComments
+                                                        postId={post.id}
+                                                        comments={comments}
+                                                        mentionables={mentionables}
+                                                        canComment={canEdit}
+                                                        internal
+                                                        onAdd={(body, parentId, mentions) => handleAddComment(post.id, body, parentId, mentions, { internal: true })}
+                                                        onResolve={handleResolveComment}
+                                                    />
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
                             </td>
                         </tr>
                     ))}
                     
                     {/* Add New Row Stub */}
+                    {canEdit && (
                     <tr className="bg-stone-50">
                         <td colSpan={5} className="p-4 text-center border-t border-stone-300">
                             <button 
@@ -2213,19 +3787,33 @@ Heath`
                             </button>
                         </td>
                     </tr>
+                    )}
                 </tbody>
               </table>
               </div>
             </>
           ) : (
             <CalendarView
-              posts={posts}
+              posts={posts.filter(post => matchesFilters(post, postFilters, clientPillarList))}
+              pillars={clientPillarList}
+              comments={comments}
+              mentionables={mentionables}
+              canComment={canEdit}
+              isAgency={isMasterAccount}
+              onAddComment={handleAddComment}
+              onResolveComment={handleResolveComment}
               selectedMonth={selectedMonth}
+              presencePeers={presencePeers}
+              syncStates={postSyncStates}
+              onMonthChange={setSelectedMonth}
+              onViewPost={setCalendarPostId}
               onUpdatePostDate={(postId, newDate) => handleUpdatePost(postId, 'date', newDate)}
+              onUpdatePostTime={(postId, newTime) => handleUpdatePost(postId, 'publishTime', newTime)}
               onAddPost={(date) => {
                 setNewPostDate(date);
                 setIsEditorOpen(true);
               }}
+              onAddIdea={canEdit ? handleAddIdea : undefined}
             />
           )}
           </>
@@ -2246,6 +3834,7 @@ Heath`
           }}
           brand={brandContext}
           clientId={currentClient.id}
+          timezone={getClientTimezone(currentClient)}
           onUpdate={(p) => handleNewPost(p)}
           onClose={() => {
             setIsEditorOpen(false);
@@ -2264,7 +3853,7 @@ Heath`
             </div>
 
             <div className="grid grid-cols-2 gap-4">
-              {(isMasterAccount ? allClients.filter(c => c.pin !== '1991') : userClients).map(client => (
+              {(isMasterAccount ? allClients.filter(c => !c.is_agency) : userClients).map(client => (
                 <button
                   key={client.id}
                   onClick={() => selectClient(client)}
@@ -2542,6 +4131,94 @@ Example:
               )}
             </div>
 
+            {/* Content Pillars Section */}
+            <div className="mt-6 pt-6 border-t border-stone-200">
+              <div className="flex items-center gap-2 mb-3">
+                <Tag className="w-5 h-5 text-brand-green" />
+                <h3 className="font-medium text-stone-800">Content Pillars</h3>
+              </div>
+              <p className="text-sm text-stone-500 mb-4">
+                The themes this client's content is built around. Posts can be filtered by pillar, and the calendar is coloured by them.
+              </p>
+              <ContentPillarsEditor pillars={clientPillars} onChange={setClientPillars} />
+            </div>
+
+            {/* Timezone Section */}
+            <div className="mt-6 pt-6 border-t border-stone-200">
+              <div className="flex items-center gap-2 mb-3">
+                <Clock className="w-5 h-5 text-brand-green" />
+                <h3 className="font-medium text-stone-800">Publishing Timezone</h3>
+              </div>
+              <p className="text-sm text-stone-500 mb-4">
+                Post publish times are in this timezone, wherever the person scheduling them is.
+              </p>
+              <select
+                value={clientTimezone}
+                onChange={(e) => setClientTimezone(e.target.value)}
+                className="w-full px-3 py-2 border border-stone-300 rounded-lg focus:ring-2 focus:ring-brand-green focus:border-brand-green outline-none text-sm"
+              >
+                {(TIMEZONE_OPTIONS.includes(clientTimezone) ? TIMEZONE_OPTIONS : [clientTimezone, ...TIMEZONE_OPTIONS]).map(tz => (
+                  <option key={tz} value={tz}>{tz.replace(/_/g, ' ')} ({getTimezoneAbbreviation(tz)})</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Approvals Section */}
+            <div className="mt-6 pt-6 border-t border-stone-200">
+              <div className="flex items-center gap-2 mb-3">
+                <Check className="w-5 h-5 text-brand-green" />
+                <h3 className="font-medium text-stone-800">Approvals</h3>
+              </div>
+              <p className="text-sm text-stone-500 mb-4">
+                How many people need to approve a post before it's Approved and auto-scheduled. Required approvers must each approve, and count towards the total.
+              </p>
+              <label className="flex items-center gap-3 text-sm text-stone-700 mb-4">
+                Approvals needed
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={approvalQuorum}
+                  onChange={(e) => setApprovalQuorum(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                  className="w-20 px-3 py-2 border border-stone-300 rounded-lg focus:ring-2 focus:ring-brand-green focus:border-brand-green outline-none text-sm"
+                />
+              </label>
+              <label className="flex items-center gap-3 text-sm text-stone-700 mb-1">
+                Approve by
+                <input
+                  type="number"
+                  min={0}
+                  max={30}
+                  value={approvalLeadDays}
+                  onChange={(e) => setApprovalLeadDays(Math.min(30, Math.max(0, Number(e.target.value) || 0)))}
+                  className="w-20 px-3 py-2 border border-stone-300 rounded-lg focus:ring-2 focus:ring-brand-green focus:border-brand-green outline-none text-sm"
+                />
+                days before the post date
+              </label>
+              <p className="text-xs text-stone-400 mb-4">
+                The client contact is reminded as the deadline nears, and the agency is emailed if it's missed. 0 turns deadlines off.
+              </p>
+              {clientApprovers.length === 0 ? (
+                <p className="text-xs text-stone-400">This client has no approver accounts to require.</p>
+              ) : (
+                <div className="space-y-2">
+                  {clientApprovers.map(approver => (
+                    <label key={approver.id} className="flex items-center gap-3 text-sm text-stone-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={requiredApprovers.includes(approver.id)}
+                        onChange={() => setRequiredApprovers(prev =>
+                          prev.includes(approver.id) ? prev.filter(id => id !== approver.id) : [...prev, approver.id]
+                        )}
+                        className="w-4 h-4 text-brand-green border-stone-300 rounded focus:ring-brand-green"
+                      />
+                      {approver.name} must approve
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div className="flex gap-3 mt-6">
               <button
                 onClick={() => setShowClientNotesModal(false)}
@@ -2568,6 +4245,53 @@ Example:
         </div>
       )}
 
+      {/* Per-platform Captions Modal */}
+      {variantsPostId && currentClient && (() => {
+        const variantsPost = posts.find(p => p.id === variantsPostId);
+        if (!variantsPost) return null;
+        return (
+          <CaptionVariantsEditor
+            post={variantsPost}
+            brandName={currentClient.brand_name}
+            clientNotes={currentClient.client_notes}
+            canGenerate={isMasterAccount}
+            disabled={!canEdit || isLockedStatus(variantsPost.status)}
+            onSave={(variants) => handleUpdatePost(variantsPost.id, 'captionVariants', variants)}
+            onClose={() => setVariantsPostId(null)}
+          />
+        );
+      })()}
+
+      {/* Caption Versions Modal */}
+      {versionsPostId && (() => {
+        const versionsPost = posts.find(p => p.id === versionsPostId);
+        if (!versionsPost) return null;
+        return (
+          <CaptionVersionsModal
+            post={versionsPost}
+            disabled={!canEdit || isLockedStatus(versionsPost.status)}
+            onRestore={(version) => handleSetCaption(versionsPost.id, version.caption, version.hashtags, 'restore')}
+            onClose={() => setVersionsPostId(null)}
+          />
+        );
+      })()}
+
+      {/* Trash Modal */}
+      {showTrash && currentClient && (
+        <TrashModal clientId={currentClient.id} onClose={() => setShowTrash(false)} />
+      )}
+
+      {/* Merge prompt for edits someone else beat us to */}
+      {editConflicts.length > 0 && (
+        <MergeConflictModal
+          conflict={editConflicts[0]}
+          postTitle={posts.find(p => p.id === editConflicts[0].postId)?.title || ''}
+          remaining={editConflicts.length - 1}
+          onKeepMine={(value) => handleKeepMine(editConflicts[0], value)}
+          onUseTheirs={() => handleUseTheirs(editConflicts[0])}
+        />
+      )}
+
       {/* Image Preview Modal */}
       {previewImageUrl && (
         <div
@@ -2589,49 +4313,51 @@ Example:
               <X className="w-8 h-8" />
             </button>
 
-            {/* Image/Video Preview */}
+            {/* Image/Video Preview - every item for carousels */}
             {(() => {
               const previewPost = posts.find(p => p.id === previewImagePostId);
-              const isVideo = previewPost?.mediaType === 'video' ||
-                previewImageUrl.includes('.mp4') ||
-                previewImageUrl.includes('.mov') ||
-                previewImageUrl.includes('.webm');
-              return isVideo ? (
-                <video
-                  src={previewImageUrl}
-                  className="w-full h-auto max-h-[80vh] object-contain rounded-lg shadow-2xl"
-                  controls
-                  autoPlay
-                  muted
-                />
-              ) : (
-                <img
-                  src={previewImageUrl}
-                  alt="Preview"
-                  className="w-full h-auto max-h-[80vh] object-contain rounded-lg shadow-2xl"
-                />
+              const items = previewPost ? getMediaItems(previewPost) : [{ url: previewImageUrl, type: detectMediaType(previewImageUrl) }];
+              return (
+                <>
+                  <div className="max-h-[80vh] flex items-center justify-center">
+                    {previewPost ? (
+                      <AnnotatedMedia
+                        postId={previewPost.id}
+                        items={items}
+                        comments={comments}
+                        mentionables={mentionables}
+                        canComment={canEdit}
+                        onAddPin={(body, mentions, pin) => handleAddComment(previewPost.id, body, undefined, mentions, { pin })}
+                        className="w-full h-auto max-h-[80vh] object-contain rounded-lg shadow-2xl"
+                        autoPlay
+                      />
+                    ) : (
+                      <MediaCarousel items={items} className="w-full h-auto max-h-[80vh] object-contain rounded-lg shadow-2xl" autoPlay />
+                    )}
+                  </div>
+
+                  {/* Reorder, remove and add media */}
+                  {previewPost && canEdit && !isLockedStatus(previewPost.status) && (
+                    <div className="mt-4 flex justify-center">
+                      <div className="bg-white rounded-lg shadow-lg p-3">
+                        <MediaItemsEditor
+                          items={items}
+                          onChange={(reordered) => {
+                            handleUpdatePost(previewPost.id, 'mediaItems', reordered);
+                            if (reordered.length === 0) {
+                              setPreviewImageUrl(null);
+                              setPreviewImagePostId(null);
+                            }
+                          }}
+                          onAddFiles={(files) => handleAddMedia(previewPost.id, files)}
+                          uploading={uploadingImageId === previewPost.id}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </>
               );
             })()}
-
-            {/* Upload New Image Button */}
-            {previewImagePostId && (
-              <div className="mt-4 flex justify-center">
-                <label className="flex items-center gap-2 px-4 py-2 bg-white text-stone-700 rounded-lg cursor-pointer hover:bg-stone-100 transition-colors text-sm font-medium shadow-lg">
-                  <input
-                    type="file"
-                    accept="image/*,video/*"
-                    onChange={(e) => {
-                      handleMediaChange(previewImagePostId, e);
-                      setPreviewImageUrl(null);
-                      setPreviewImagePostId(null);
-                    }}
-                    className="hidden"
-                  />
-                  <Upload className="w-4 h-4" />
-                  Upload New Media
-                </label>
-              </div>
-            )}
           </div>
         </div>
       )}
@@ -2648,7 +4374,7 @@ Example:
             <div className="mb-4 text-sm text-stone-600">
               {(() => {
                 const approved = filteredPosts.filter(p => p.status === 'Approved');
-                const withImages = approved.filter(p => p.imageUrl && p.imageUrl.trim() !== '' && p.imageUrl.startsWith('http'));
+                const withImages = approved.filter(p => getMediaItems(p).some(item => item.url.startsWith('http')));
                 const withoutImages = approved.length - withImages.length;
                 return (
                   <>
@@ -2663,16 +4389,12 @@ Example:
               })()}
             </div>
 
-            {/* Post Time Selection */}
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-stone-700 mb-2">Post Time (for each post's date)</label>
-              <input
-                type="time"
-                value={scheduleTime}
-                onChange={(e) => setScheduleTime(e.target.value)}
-                className="w-full px-3 py-2 border border-stone-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
-              />
-              <p className="text-xs text-stone-500 mt-1">Posts will be scheduled at this time on their respective dates</p>
+            {/* Post Times */}
+            <div className="mb-4 bg-stone-50 border border-stone-200 rounded-lg p-3 text-sm text-stone-600">
+              <p>
+                Each post is scheduled at its own publish time in <span className="font-medium">{getClientTimezone(currentClient)}</span>.
+              </p>
+              <p className="text-xs text-stone-500 mt-1">Set times in the Date column. Posts without a time go out at {formatPublishTime(DEFAULT_PUBLISH_TIME)}.</p>
             </div>
 
             {/* Profile Selection */}
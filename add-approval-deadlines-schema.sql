@@ -0,0 +1,55 @@
+-- Approval Deadlines Schema
+-- Run this in Supabase SQL Editor AFTER add-approval-quorum-schema.sql
+--
+-- Each client has an approval lead time: posts should be approved this many
+-- days before their post date. /api/approval-reminders (daily cron) emails the
+-- client contact a digest of posts nearing or past that deadline, and
+-- escalates missed deadlines to the agency. approval_reminders records what
+-- was sent so each reminder only goes out once per deadline.
+
+-- 1. Lead time (days before the post date; 0 = no approval deadline)
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS approval_lead_days INTEGER NOT NULL DEFAULT 3;
+
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_approval_lead_days_check;
+ALTER TABLE clients ADD CONSTRAINT clients_approval_lead_days_check CHECK (approval_lead_days BETWEEN 0 AND 30);
+
+-- 2. Reminders already sent - a changed post date gives a new deadline (and new reminders)
+CREATE TABLE IF NOT EXISTS approval_reminders (
+  post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('due_soon', 'overdue', 'escalated')),
+  deadline DATE NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (post_id, kind, deadline)
+);
+
+-- Service role only - no policies, so the browser can neither read nor write it
+ALTER TABLE approval_reminders ENABLE ROW LEVEL SECURITY;
+
+-- 3. Trigger function - a post sent for approval again starts a fresh round of reminders
+CREATE OR REPLACE FUNCTION reset_approval_reminders()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'For Approval' AND OLD.status IS DISTINCT FROM NEW.status THEN
+    DELETE FROM approval_reminders WHERE post_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_reset_approval_reminders ON posts;
+CREATE TRIGGER posts_reset_approval_reminders
+  AFTER UPDATE OF status ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_approval_reminders();
+
+-- 4. Verify
+SELECT name, approval_lead_days, contact_email
+FROM clients
+ORDER BY name;
+
+COMMENT ON COLUMN clients.approval_lead_days IS 'Posts should be approved this many days before their date (0 = no deadline)';
+COMMENT ON TABLE approval_reminders IS 'Approval deadline emails sent by /api/approval-reminders (one per post, kind and deadline)';
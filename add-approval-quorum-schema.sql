@@ -0,0 +1,241 @@
+-- Approval Quorum Schema
+-- Run this in Supabase SQL Editor AFTER add-post-trash-schema.sql
+--
+-- Some clients need more than one sign-off before a post goes out. Each client
+-- has an approval rule: a quorum (number of approvals) and/or named approvers
+-- who must each approve. Every approval is recorded per person in
+-- post_approvals, and a post only moves to Approved once the rule is met.
+-- The default rule (quorum 1, no named approvers) behaves as before: the first
+-- approval approves the post, whoever gives it. A configured rule is the
+-- client's sign-off, so only client-side approvals count towards it - agency
+-- approvals are still recorded but can't meet it on their own.
+--
+-- Approvals are given through approve_posts() (app) or /api/review (review
+-- links) - a direct status change to Approved is rejected until the rule is met.
+-- Sending a post back for changes clears its approvals.
+
+-- 1. Client approval rule
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS approval_quorum INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS required_approvers UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE clients DROP CONSTRAINT IF EXISTS clients_approval_quorum_check;
+ALTER TABLE clients ADD CONSTRAINT clients_approval_quorum_check CHECK (approval_quorum BETWEEN 1 AND 10);
+
+-- 2. One approval per person per post
+CREATE TABLE IF NOT EXISTS post_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  approver_key TEXT NOT NULL, -- users.id, or 'email:<address>' / 'contact:<client id>' (links sent without an address) for a review-link reviewer without an account
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  approver_name TEXT NOT NULL,
+  approver_role TEXT,
+  source TEXT NOT NULL DEFAULT 'app' CHECK (source IN ('app', 'review_link')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (post_id, approver_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_approvals_client_id ON post_approvals(client_id);
+
+-- 3. Is the client's rule met for a post? (agency approvals only count under the default rule)
+CREATE OR REPLACE FUNCTION post_approval_quorum_met(p_post_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN c.approval_quorum = 1 AND cardinality(c.required_approvers) = 0 THEN COUNT(a.id) >= 1
+    ELSE COUNT(a.id) FILTER (WHERE a.approver_role IS DISTINCT FROM 'agency_admin' AND a.approver_role IS DISTINCT FROM 'agency_editor') >= c.approval_quorum
+      AND c.required_approvers <@ COALESCE(array_agg(a.user_id) FILTER (WHERE a.user_id IS NOT NULL), '{}')
+  END
+  FROM posts p
+  JOIN clients c ON c.id = p.client_id
+  LEFT JOIN post_approvals a ON a.post_id = p.id
+  WHERE p.id = p_post_id
+  GROUP BY c.approval_quorum, c.required_approvers;
+$$;
+
+-- 4. Record an approval; approve the post once the rule is met. Returns the post's status.
+CREATE OR REPLACE FUNCTION add_post_approval(
+  p_post_id TEXT,
+  p_approver_key TEXT,
+  p_user_id UUID,
+  p_name TEXT,
+  p_role TEXT,
+  p_source TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_post posts%ROWTYPE;
+BEGIN
+  SELECT * INTO v_post FROM posts WHERE id = p_post_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Post not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_post.status = 'Approved' THEN
+    RETURN v_post.status;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM post_status_transitions
+    WHERE from_status = v_post.status AND to_status = 'Approved'
+  ) THEN
+    RAISE EXCEPTION 'A % post cannot be approved', v_post.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO post_approvals (post_id, client_id, approver_key, user_id, approver_name, approver_role, source)
+  VALUES (p_post_id, v_post.client_id, p_approver_key, p_user_id, p_name, p_role, p_source)
+  ON CONFLICT (post_id, approver_key) DO NOTHING;
+
+  IF post_approval_quorum_met(p_post_id) THEN
+    UPDATE posts SET status = 'Approved' WHERE id = p_post_id;
+    RETURN 'Approved';
+  END IF;
+
+  RETURN v_post.status;
+END;
+$$;
+
+-- Server only (/api/review) - the browser goes through approve_posts()
+REVOKE ALL ON FUNCTION add_post_approval(TEXT, TEXT, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_post_approval(TEXT, TEXT, UUID, TEXT, TEXT, TEXT) TO service_role;
+
+-- 5. Approve posts as the signed-in user (viewers can't approve)
+CREATE OR REPLACE FUNCTION approve_posts(p_post_ids TEXT[])
+RETURNS TABLE (approved_post_id TEXT, new_status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_post_id TEXT;
+BEGIN
+  SELECT * INTO v_user FROM app_session_user();
+  IF v_user.id IS NULL OR v_user.role = 'client_viewer' THEN
+    RAISE EXCEPTION 'You are not allowed to approve posts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOREACH v_post_id IN ARRAY p_post_ids LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM posts p
+      WHERE p.id = v_post_id
+        AND (v_user.role IN ('agency_admin', 'agency_editor') OR p.client_id = ANY (v_user.client_ids))
+    ) THEN
+      RAISE EXCEPTION 'Post not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    approved_post_id := v_post_id;
+    new_status := add_post_approval(v_post_id, v_user.id::text, v_user.id, v_user.name, v_user.role, 'app');
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- 6. Take back your own approval while the post is still waiting for others
+CREATE OR REPLACE FUNCTION withdraw_post_approvals(p_post_ids TEXT[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM post_approvals a
+  USING posts p
+  WHERE p.id = a.post_id
+    AND a.post_id = ANY (p_post_ids)
+    AND a.approver_key = (SELECT id::text FROM app_session_user())
+    AND p.status <> 'Approved';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- 7. Client users who can be named as required approvers
+CREATE OR REPLACE FUNCTION app_client_approvers(p_client_id UUID)
+RETURNS TABLE (id UUID, name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id, name FROM users
+  WHERE is_active
+    AND role = 'client_approver'
+    AND p_client_id = ANY (client_ids)
+    AND ((SELECT app_is_agency()) OR p_client_id = ANY ((SELECT app_client_ids())))
+  ORDER BY name;
+$$;
+
+REVOKE ALL ON FUNCTION approve_posts(TEXT[]) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION withdraw_post_approvals(TEXT[]) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION app_client_approvers(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION approve_posts(TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION withdraw_post_approvals(TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION app_client_approvers(UUID) TO authenticated;
+
+-- 8. Trigger function - Approved only with a met rule; going back for changes clears approvals
+CREATE OR REPLACE FUNCTION enforce_post_approval_quorum()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'Approved' AND NOT COALESCE(post_approval_quorum_met(NEW.id), false) THEN
+    RAISE EXCEPTION 'This post needs more approvals before it can be Approved'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status IN ('Draft', 'Generated', 'Revision') OR (OLD.status = 'Approved' AND NEW.status = 'For Approval') THEN
+    DELETE FROM post_approvals WHERE post_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_approval_quorum ON posts;
+CREATE TRIGGER posts_approval_quorum
+  BEFORE UPDATE OF status ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_post_approval_quorum();
+
+-- 9. RLS - readable like posts; written only through the functions above
+ALTER TABLE post_approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Approvals readable by assigned users" ON post_approvals;
+CREATE POLICY "Approvals readable by assigned users" ON post_approvals
+  FOR SELECT TO authenticated
+  USING ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())));
+
+-- 10. Realtime (approval progress updates without a reload)
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE post_approvals;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- 11. Verify
+SELECT name, approval_quorum, cardinality(required_approvers) AS required_approvers
+FROM clients
+ORDER BY name;
+
+COMMENT ON COLUMN clients.approval_quorum IS 'Client approvals a post needs before it is Approved (default 1 - any approval, agency included)';
+COMMENT ON COLUMN clients.required_approvers IS 'Users (client approvers) who must each approve, on top of the quorum';
+COMMENT ON TABLE post_approvals IS 'Who approved which post and when - the post moves to Approved once the client''s rule is met';
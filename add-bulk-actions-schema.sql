@@ -0,0 +1,50 @@
+-- Bulk Actions Schema
+-- Run this in Supabase SQL Editor AFTER add-post-backlog-schema.sql
+--
+-- Table bulk actions (status, date shift, pillar, AI captions) and their undo
+-- write every selected post in one statement through bulk_update_posts().
+-- It runs as the caller, so RLS, the status transition trigger and the
+-- post_events / caption_versions triggers all apply as for a normal update;
+-- if any row is rejected the whole batch is rolled back.
+
+-- 1. One UPDATE for many posts: [{"id": "...", "status": "Approved"}, ...]
+-- Only keys present in a change are written; the others keep their value.
+CREATE OR REPLACE FUNCTION bulk_update_posts(p_changes JSONB)
+RETURNS SETOF posts
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_typeof(p_changes) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'bulk_update_posts expects a JSON array of changes'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN QUERY
+  UPDATE posts p SET
+    date = CASE WHEN c.change ? 'date' THEN c.change ->> 'date' ELSE p.date END,
+    status = CASE WHEN c.change ? 'status' THEN c.change ->> 'status' ELSE p.status END,
+    pillar = CASE WHEN c.change ? 'pillar' THEN c.change ->> 'pillar' ELSE p.pillar END,
+    generated_caption = CASE WHEN c.change ? 'generated_caption' THEN c.change ->> 'generated_caption' ELSE p.generated_caption END,
+    -- generated_hashtags is TEXT[] - unpack the JSON array (null clears it)
+    generated_hashtags = CASE
+      WHEN NOT c.change ? 'generated_hashtags' THEN p.generated_hashtags
+      WHEN jsonb_typeof(c.change -> 'generated_hashtags') = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(c.change -> 'generated_hashtags'))
+      ELSE NULL
+    END
+  FROM jsonb_array_elements(p_changes) AS c(change)
+  WHERE p.id = c.change ->> 'id'
+  RETURNING p.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION bulk_update_posts(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION bulk_update_posts(JSONB) TO authenticated;
+
+-- 2. Verify
+SELECT proname, prosecdef AS security_definer
+FROM pg_proc
+WHERE proname = 'bulk_update_posts';
+
+COMMENT ON FUNCTION bulk_update_posts(JSONB) IS 'Batched post update for table bulk actions and undo (runs with the caller''s RLS)';
@@ -0,0 +1,24 @@
+-- Caption Variants Schema
+-- Run this in Supabase SQL Editor AFTER add-carousel-media-schema.sql
+--
+-- Each post can override its caption and/or hashtags per platform
+-- (instagram, facebook, linkedin, tiktok, twitter = X, threads). Anything left
+-- out falls back to generated_caption / generated_hashtags. Character and
+-- hashtag limits are enforced by the app when the final text is built.
+
+-- 1. Add caption_variants column - { "linkedin": { "caption": "...", "hashtags": ["..."] }, ... }
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS caption_variants JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_caption_variants_check;
+ALTER TABLE posts ADD CONSTRAINT posts_caption_variants_check
+  CHECK (jsonb_typeof(caption_variants) = 'object');
+
+-- 2. Verify
+SELECT id, status, caption_variants
+FROM posts
+WHERE caption_variants <> '{}'::jsonb
+ORDER BY date DESC
+LIMIT 10;
+
+COMMENT ON COLUMN posts.caption_variants IS 'Per-platform caption/hashtag overrides keyed by platform - missing fields fall back to the base caption';
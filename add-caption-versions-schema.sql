@@ -0,0 +1,136 @@
+-- Caption Versions Schema
+-- Run this in Supabase SQL Editor AFTER add-post-status-schema.sql
+--
+-- Keeps every version of a post's caption + hashtags so earlier wording can
+-- be compared and restored. Rows are written by a trigger on posts, so every
+-- path is covered and the browser cannot write or alter versions directly.
+--
+-- The source comes from the x-change-source header:
+--   ai_generate - caption generated from the image (incl. bulk generation)
+--   ai_feedback - caption rewritten from client feedback
+--   restore     - an earlier version restored
+--   anything else is a manual edit. Manual edits by the same person within
+--   5 minutes are folded into one version, so a typing session is one entry.
+
+-- 1. Create caption_versions table
+-- post_id has no foreign key so versions survive the post being deleted
+CREATE TABLE IF NOT EXISTS caption_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id TEXT NOT NULL,
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  caption TEXT NOT NULL DEFAULT '',
+  hashtags JSONB NOT NULL DEFAULT '[]'::jsonb,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ai_generate', 'ai_feedback', 'restore')),
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  actor_name TEXT NOT NULL DEFAULT 'System',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caption_versions_post_id ON caption_versions(post_id, created_at DESC);
+
+-- 2. Trigger function - one version per caption/hashtags change
+CREATE OR REPLACE FUNCTION record_caption_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor_name TEXT;
+  v_source TEXT;
+  v_latest caption_versions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.generated_caption IS NOT DISTINCT FROM OLD.generated_caption
+    AND NEW.generated_hashtags IS NOT DISTINCT FROM OLD.generated_hashtags THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND COALESCE(NEW.generated_caption, '') = ''
+    AND COALESCE(to_jsonb(NEW.generated_hashtags), '[]'::jsonb) = '[]'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_actor_id IS NOT NULL THEN
+    SELECT name INTO v_actor_name FROM users WHERE id = v_actor_id;
+  END IF;
+  v_actor_name := COALESCE(
+    v_actor_name,
+    NULLIF(current_setting('request.headers', true), '')::json ->> 'x-actor-name',
+    'System'
+  );
+
+  v_source := NULLIF(current_setting('request.headers', true), '')::json ->> 'x-change-source';
+  IF v_source IS NULL OR v_source NOT IN ('ai_generate', 'ai_feedback', 'restore') THEN
+    v_source := 'manual';
+  END IF;
+
+  -- Fold a typing session into the previous manual version
+  IF v_source = 'manual' THEN
+    SELECT * INTO v_latest FROM caption_versions
+    WHERE post_id = NEW.id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF FOUND
+      AND v_latest.source = 'manual'
+      AND v_latest.actor_name = v_actor_name
+      AND v_latest.updated_at > NOW() - INTERVAL '5 minutes' THEN
+      UPDATE caption_versions
+      SET caption = COALESCE(NEW.generated_caption, ''),
+          hashtags = COALESCE(to_jsonb(NEW.generated_hashtags), '[]'::jsonb),
+          updated_at = NOW()
+      WHERE id = v_latest.id;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO caption_versions (post_id, client_id, caption, hashtags, source, actor_id, actor_name)
+  VALUES (
+    NEW.id,
+    NEW.client_id,
+    COALESCE(NEW.generated_caption, ''),
+    COALESCE(to_jsonb(NEW.generated_hashtags), '[]'::jsonb),
+    v_source,
+    v_actor_id,
+    v_actor_name
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Create trigger on posts table
+DROP TRIGGER IF EXISTS posts_caption_versions ON posts;
+CREATE TRIGGER posts_caption_versions
+  AFTER INSERT OR UPDATE OF generated_caption, generated_hashtags ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_caption_version();
+
+-- 4. Existing captions become each post's first version
+INSERT INTO caption_versions (post_id, client_id, caption, hashtags, source, created_at, updated_at)
+SELECT id, client_id, COALESCE(generated_caption, ''), COALESCE(to_jsonb(generated_hashtags), '[]'::jsonb), 'manual', created_at, created_at
+FROM posts
+WHERE (COALESCE(generated_caption, '') <> '' OR COALESCE(to_jsonb(generated_hashtags), '[]'::jsonb) <> '[]'::jsonb)
+  AND NOT EXISTS (SELECT 1 FROM caption_versions cv WHERE cv.post_id = posts.id);
+
+-- 5. RLS - readable by anyone who can see the client's posts, never writable from the browser
+ALTER TABLE caption_versions ENABLE ROW LEVEL SECURITY;
+REVOKE INSERT, UPDATE, DELETE ON caption_versions FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Caption versions readable by assigned users" ON caption_versions;
+CREATE POLICY "Caption versions readable by assigned users" ON caption_versions
+  FOR SELECT TO authenticated
+  USING ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())));
+
+-- 6. Verify
+SELECT post_id, source, actor_name, LEFT(caption, 60) AS caption, created_at
+FROM caption_versions
+ORDER BY created_at DESC
+LIMIT 10;
+
+COMMENT ON TABLE caption_versions IS 'Every version of a post caption + hashtags (written by the posts_caption_versions trigger)';
+COMMENT ON COLUMN caption_versions.source IS 'manual, ai_generate, ai_feedback or restore (from the x-change-source header)';
+COMMENT ON COLUMN caption_versions.updated_at IS 'Last time a manual typing session was folded into this version';
@@ -0,0 +1,33 @@
+-- Carousel Media Schema
+-- Run this in Supabase SQL Editor AFTER add-review-links-schema.sql
+--
+-- Posts can hold an ordered list of images/videos. More than one item is
+-- published as a carousel (Instagram carousel container, Facebook multi-photo
+-- post, Late mediaItems). image_url / media_type are kept and always mirror
+-- the first item, so older code paths and the cleanup job still see the cover.
+
+-- 1. Add media_items column - [{ "url": "...", "type": "image" | "video" }, ...]
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS media_items JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Instagram allows at most 10 items in a carousel
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_media_items_check;
+ALTER TABLE posts ADD CONSTRAINT posts_media_items_check
+  CHECK (jsonb_typeof(media_items) = 'array' AND jsonb_array_length(media_items) <= 10);
+
+-- 2. Backfill existing single-media posts
+UPDATE posts
+SET media_items = jsonb_build_array(
+  jsonb_build_object('url', image_url, 'type', COALESCE(media_type, 'image'))
+)
+WHERE image_url IS NOT NULL
+  AND image_url <> ''
+  AND media_items = '[]'::jsonb;
+
+-- 3. Verify
+SELECT id, status, jsonb_array_length(media_items) AS media_count, image_url
+FROM posts
+ORDER BY date DESC
+LIMIT 10;
+
+COMMENT ON COLUMN posts.media_items IS 'Ordered media items [{url, type}] - more than one is a carousel; image_url/media_type mirror the first item';
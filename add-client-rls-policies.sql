@@ -0,0 +1,151 @@
+-- Per-Client Row Level Security
+-- Run this in Supabase SQL Editor AFTER add-pin-hashing-schema.sql
+--
+-- Replaces the open "FOR ALL USING (true)" policies on clients, posts and
+-- social_posts. The browser now sends its signed session token (from /api/login)
+-- with every request, so policies can scope rows to that person's clients:
+--   agency_admin / agency_editor -> every client
+--   client_approver              -> own clients, read + write posts
+--   client_viewer                -> own clients, read-only
+-- Requests without a valid session (anon key only) see nothing.
+-- Serverless routes use the service role key and are not affected.
+
+-- 1. Remove the old open policies
+DROP POLICY IF EXISTS "Enable all access for clients" ON clients;
+DROP POLICY IF EXISTS "Enable all access for posts" ON posts;
+DROP POLICY IF EXISTS "Enable all access for posts table" ON posts;
+DROP POLICY IF EXISTS "Allow all access to posts" ON posts;
+DROP POLICY IF EXISTS "Enable all access for social_posts" ON social_posts;
+
+ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE social_posts ENABLE ROW LEVEL SECURITY;
+
+-- 2. Session helpers
+-- The session token carries sub (users.id) and sid (user_sessions.id).
+-- The user row is looked up on every check so revoked sessions, deactivated
+-- accounts and changed client assignments take effect immediately.
+CREATE OR REPLACE FUNCTION app_session_user()
+RETURNS users
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.*
+  FROM users u
+  JOIN user_sessions s ON s.user_id = u.id
+  WHERE u.id = auth.uid()
+    AND s.id = NULLIF(auth.jwt() ->> 'sid', '')::uuid
+    AND s.expires_at > NOW()
+    AND u.is_active;
+$$;
+
+CREATE OR REPLACE FUNCTION app_is_agency()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT role IN ('agency_admin', 'agency_editor') FROM app_session_user()), false);
+$$;
+
+CREATE OR REPLACE FUNCTION app_client_ids()
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT client_ids FROM app_session_user()), '{}');
+$$;
+
+CREATE OR REPLACE FUNCTION app_can_edit()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT role <> 'client_viewer' FROM app_session_user()), false);
+$$;
+
+-- Only signed-in sessions need these
+REVOKE ALL ON FUNCTION app_session_user() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION app_is_agency() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION app_client_ids() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION app_can_edit() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION app_session_user() TO authenticated;
+GRANT EXECUTE ON FUNCTION app_is_agency() TO authenticated;
+GRANT EXECUTE ON FUNCTION app_client_ids() TO authenticated;
+GRANT EXECUTE ON FUNCTION app_can_edit() TO authenticated;
+
+-- 3. clients: read own (or all for agency), only agency can change settings
+DROP POLICY IF EXISTS "Clients readable by assigned users" ON clients;
+CREATE POLICY "Clients readable by assigned users" ON clients
+  FOR SELECT TO authenticated
+  USING ((SELECT app_is_agency()) OR id = ANY ((SELECT app_client_ids())));
+
+DROP POLICY IF EXISTS "Clients editable by agency" ON clients;
+CREATE POLICY "Clients editable by agency" ON clients
+  FOR UPDATE TO authenticated
+  USING ((SELECT app_is_agency()))
+  WITH CHECK ((SELECT app_is_agency()));
+
+-- 4. posts: read own client's posts, write unless viewer
+DROP POLICY IF EXISTS "Posts readable by assigned users" ON posts;
+CREATE POLICY "Posts readable by assigned users" ON posts
+  FOR SELECT TO authenticated
+  USING ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())));
+
+DROP POLICY IF EXISTS "Posts insertable by editors" ON posts;
+CREATE POLICY "Posts insertable by editors" ON posts
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())))
+  );
+
+DROP POLICY IF EXISTS "Posts updatable by editors" ON posts;
+CREATE POLICY "Posts updatable by editors" ON posts
+  FOR UPDATE TO authenticated
+  USING (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())))
+  )
+  WITH CHECK (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())))
+  );
+
+DROP POLICY IF EXISTS "Posts deletable by editors" ON posts;
+CREATE POLICY "Posts deletable by editors" ON posts
+  FOR DELETE TO authenticated
+  USING (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())))
+  );
+
+-- 5. social_posts: read own client's publishing history, agency writes
+DROP POLICY IF EXISTS "Social posts readable by assigned users" ON social_posts;
+CREATE POLICY "Social posts readable by assigned users" ON social_posts
+  FOR SELECT TO authenticated
+  USING ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())));
+
+DROP POLICY IF EXISTS "Social posts writable by agency" ON social_posts;
+CREATE POLICY "Social posts writable by agency" ON social_posts
+  FOR ALL TO authenticated
+  USING ((SELECT app_is_agency()))
+  WITH CHECK ((SELECT app_is_agency()));
+
+-- 6. Verify the policies
+SELECT tablename, policyname, roles, cmd
+FROM pg_policies
+WHERE tablename IN ('clients', 'posts', 'social_posts')
+ORDER BY tablename, cmd;
+
+COMMENT ON FUNCTION app_session_user() IS 'Active user behind the request''s session token, or no row';
+COMMENT ON FUNCTION app_is_agency() IS 'True when the session belongs to an agency_admin or agency_editor';
+COMMENT ON FUNCTION app_client_ids() IS 'Client IDs the session''s user is assigned to';
+COMMENT ON FUNCTION app_can_edit() IS 'False for client_viewer sessions';
@@ -0,0 +1,64 @@
+-- Client Secrets Vault Schema
+-- Run this in Supabase SQL Editor AFTER add-client-rls-policies.sql
+--
+-- Moves social credentials out of the clients table into client_secrets.
+-- Tokens are encrypted by the serverless API routes (AES-256-GCM, key in the
+-- SECRETS_ENCRYPTION_KEY environment variable) before they reach the database,
+-- and the table has no RLS policies, so only the service role can read it.
+--
+-- BEFORE RUNNING: existing tokens cannot be encrypted from SQL and are removed
+-- in step 4. Note any tokens you still need with:
+--   SELECT name, meta_access_token FROM clients WHERE meta_access_token IS NOT NULL;
+-- and re-enter them in Meta Settings once the new version is deployed.
+
+-- 1. Create client_secrets table (one row per client + provider)
+CREATE TABLE IF NOT EXISTS client_secrets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('meta')),
+  encrypted_value TEXT NOT NULL,
+  token_hint TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (client_id, provider)
+);
+
+-- 2. Keep updated_at current
+CREATE OR REPLACE FUNCTION update_client_secrets_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS client_secrets_updated_at ON client_secrets;
+CREATE TRIGGER client_secrets_updated_at
+  BEFORE UPDATE ON client_secrets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_client_secrets_updated_at();
+
+-- 3. Enable RLS with NO policies - service role only
+ALTER TABLE client_secrets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON client_secrets FROM anon, authenticated;
+
+-- 4. Remove the plain-text token columns from clients
+ALTER TABLE clients DROP COLUMN IF EXISTS meta_access_token;
+ALTER TABLE clients DROP COLUMN IF EXISTS meta_token_expires_at;
+
+-- 5. Verify
+SELECT column_name
+FROM information_schema.columns
+WHERE table_name = 'clients'
+  AND column_name LIKE 'meta%';
+
+SELECT c.name, s.provider, s.token_hint, s.expires_at
+FROM client_secrets s
+JOIN clients c ON c.id = s.client_id;
+
+COMMENT ON TABLE client_secrets IS 'Encrypted social credentials - readable by the service role only';
+COMMENT ON COLUMN client_secrets.encrypted_value IS 'AES-256-GCM ciphertext (v1:iv:tag:data, base64), bound to client_id + provider';
+COMMENT ON COLUMN client_secrets.token_hint IS 'Last 4 characters of the token, for the masked display';
+COMMENT ON COLUMN client_secrets.expires_at IS 'Token expiry reported by Meta (NULL = never expires)';
@@ -0,0 +1,115 @@
+-- Comment Pins Schema
+-- Run this in Supabase SQL Editor AFTER add-post-comments-schema.sql
+--
+-- Lets a comment be pinned to a point on one of the post's media items, or
+-- to a moment in a video ("make the candle on the left brighter"). Pins are
+-- stored as fractions of the media's width/height so they line up at any
+-- display size, and are drawn as numbered overlays in the app.
+--
+-- Only top-level comments carry a pin; replies belong to the pinned thread.
+-- Open pins on the cover image are passed to generateImageFromFeedback.
+
+-- 1. Pin columns
+ALTER TABLE post_comments ADD COLUMN IF NOT EXISTS pin_media_url TEXT;
+ALTER TABLE post_comments ADD COLUMN IF NOT EXISTS pin_x NUMERIC;
+ALTER TABLE post_comments ADD COLUMN IF NOT EXISTS pin_y NUMERIC;
+ALTER TABLE post_comments ADD COLUMN IF NOT EXISTS pin_time NUMERIC;
+
+-- 2. A pin needs a media item and a point and/or a video timestamp
+ALTER TABLE post_comments DROP CONSTRAINT IF EXISTS post_comments_pin_check;
+ALTER TABLE post_comments ADD CONSTRAINT post_comments_pin_check CHECK (
+  (pin_x IS NULL) = (pin_y IS NULL)
+  AND (pin_x IS NULL OR (pin_x BETWEEN 0 AND 1 AND pin_y BETWEEN 0 AND 1))
+  AND (pin_time IS NULL OR pin_time >= 0)
+  AND (pin_media_url IS NOT NULL) = (pin_x IS NOT NULL OR pin_time IS NOT NULL)
+);
+
+-- 3. Replies drop their pin, and pins can't be moved once written
+CREATE OR REPLACE FUNCTION prepare_post_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Browser inserts always start unresolved and unnotified
+    IF v_user.id IS NOT NULL THEN
+      NEW.author_id := v_user.id;
+      NEW.author_name := v_user.name;
+      NEW.author_role := v_user.role;
+      NEW.resolved := FALSE;
+      NEW.notified := FALSE;
+    END IF;
+
+    -- Only active agency staff can be mentioned
+    NEW.mentions := ARRAY(
+      SELECT id FROM users
+      WHERE id = ANY (NEW.mentions)
+        AND is_active
+        AND role IN ('agency_admin', 'agency_editor')
+    );
+
+    -- Replies stay on the same post as their parent, one level deep
+    IF NEW.parent_id IS NOT NULL THEN
+      SELECT COALESCE(parent_id, id) INTO NEW.parent_id
+      FROM post_comments
+      WHERE id = NEW.parent_id AND post_id = NEW.post_id;
+
+      IF NEW.parent_id IS NULL THEN
+        RAISE EXCEPTION 'Reply must belong to a comment on the same post';
+      END IF;
+
+      -- The thread's pin is on the top-level comment
+      NEW.pin_media_url := NULL;
+      NEW.pin_x := NULL;
+      NEW.pin_y := NULL;
+      NEW.pin_time := NULL;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Updates may only resolve or reopen a comment
+  IF auth.uid() IS NOT NULL AND (
+    NEW.body IS DISTINCT FROM OLD.body
+    OR NEW.post_id IS DISTINCT FROM OLD.post_id
+    OR NEW.client_id IS DISTINCT FROM OLD.client_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_id IS DISTINCT FROM OLD.author_id
+    OR NEW.author_name IS DISTINCT FROM OLD.author_name
+    OR NEW.mentions IS DISTINCT FROM OLD.mentions
+    OR NEW.pin_media_url IS DISTINCT FROM OLD.pin_media_url
+    OR NEW.pin_x IS DISTINCT FROM OLD.pin_x
+    OR NEW.pin_y IS DISTINCT FROM OLD.pin_y
+    OR NEW.pin_time IS DISTINCT FROM OLD.pin_time
+  ) THEN
+    RAISE EXCEPTION 'Comments can only be resolved or reopened';
+  END IF;
+
+  IF NEW.resolved IS DISTINCT FROM OLD.resolved THEN
+    NEW.resolved_at := CASE WHEN NEW.resolved THEN NOW() ELSE NULL END;
+    NEW.resolved_by_name := CASE WHEN NEW.resolved THEN COALESCE(v_user.name, 'System') ELSE NULL END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 4. Verify
+SELECT post_id, LEFT(body, 40) AS body, pin_media_url, pin_x, pin_y, pin_time
+FROM post_comments
+WHERE pin_media_url IS NOT NULL
+ORDER BY created_at DESC
+LIMIT 10;
+
+COMMENT ON COLUMN post_comments.pin_media_url IS 'Media item (url) the comment is pinned to';
+COMMENT ON COLUMN post_comments.pin_x IS 'Pin position from the left edge, 0-1 of the media width';
+COMMENT ON COLUMN post_comments.pin_y IS 'Pin position from the top edge, 0-1 of the media height';
+COMMENT ON COLUMN post_comments.pin_time IS 'Video timestamp in seconds the comment is pinned to';
@@ -0,0 +1,32 @@
+-- Content Pillars Schema
+-- Run this in Supabase SQL Editor AFTER add-internal-notes-schema.sql
+--
+-- Each client defines its own content pillars (e.g. "Product", "Behind the
+-- scenes", "Education"), each with a colour used on the calendar. Posts get a
+-- pillar, an optional campaign and free-form tags, all filterable in the app.
+-- GeneratePostsModal assigns pillars from a target mix (e.g. 40% Product).
+
+-- 1. Client pillars: [{"id": "...", "name": "Product", "color": "emerald"}]
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS content_pillars JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- 2. Post categorisation
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS pillar TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS campaign TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS tags JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_posts_client_pillar ON posts(client_id, pillar);
+CREATE INDEX IF NOT EXISTS idx_posts_client_campaign ON posts(client_id, campaign);
+
+-- 3. Verify
+SELECT c.name, jsonb_array_length(c.content_pillars) AS pillars,
+       COUNT(p.id) FILTER (WHERE p.pillar IS NOT NULL) AS posts_with_pillar,
+       COUNT(p.id) FILTER (WHERE p.campaign IS NOT NULL) AS posts_with_campaign
+FROM clients c
+LEFT JOIN posts p ON p.client_id = c.id
+GROUP BY c.id, c.name, c.content_pillars
+ORDER BY c.name;
+
+COMMENT ON COLUMN clients.content_pillars IS 'Client content pillars: [{id, name, color}]';
+COMMENT ON COLUMN posts.pillar IS 'Id of one of the client''s content_pillars (NULL = none)';
+COMMENT ON COLUMN posts.campaign IS 'Campaign the post belongs to (free text)';
+COMMENT ON COLUMN posts.tags IS 'Free-form tags, e.g. ["launch", "winter"]';
@@ -0,0 +1,57 @@
+-- Edit Presence Schema
+-- Run this in Supabase SQL Editor AFTER add-approval-deadlines-schema.sql
+--
+-- The app shows who else is viewing or editing each post using Supabase
+-- Realtime presence on one private channel per client ('client-presence:<client id>').
+-- Private channels are authorised by RLS on realtime.messages, so only people
+-- assigned to a client (and the agency) can see or join its presence.
+--
+-- Also enable "Private channels" / Realtime Authorization in
+-- Project Settings -> Realtime if it isn't already.
+
+-- 1. Which client a presence topic belongs to (NULL for any other topic)
+CREATE OR REPLACE FUNCTION app_presence_client_id(p_topic TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_topic NOT LIKE 'client-presence:%' THEN
+    RETURN NULL;
+  END IF;
+  RETURN split_part(p_topic, ':', 2)::uuid;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION app_presence_client_id(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION app_presence_client_id(TEXT) TO authenticated;
+
+-- 2. RLS on realtime.messages - receive (SELECT) and track (INSERT) presence
+DROP POLICY IF EXISTS "Client presence readable by assigned users" ON realtime.messages;
+CREATE POLICY "Client presence readable by assigned users" ON realtime.messages
+  FOR SELECT TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND ((SELECT app_is_agency()) OR app_presence_client_id(realtime.topic()) = ANY ((SELECT app_client_ids())))
+    AND app_presence_client_id(realtime.topic()) IS NOT NULL
+  );
+
+DROP POLICY IF EXISTS "Client presence writable by assigned users" ON realtime.messages;
+CREATE POLICY "Client presence writable by assigned users" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND ((SELECT app_is_agency()) OR app_presence_client_id(realtime.topic()) = ANY ((SELECT app_client_ids())))
+    AND app_presence_client_id(realtime.topic()) IS NOT NULL
+  );
+
+-- 3. Verify
+SELECT policyname, cmd
+FROM pg_policies
+WHERE schemaname = 'realtime' AND tablename = 'messages'
+ORDER BY policyname;
+
+COMMENT ON FUNCTION app_presence_client_id(TEXT) IS 'Client id of a client-presence:<id> realtime topic (NULL for other topics)';
@@ -0,0 +1,134 @@
+-- Internal Notes Schema
+-- Run this in Supabase SQL Editor AFTER add-comment-pins-schema.sql
+--
+-- Adds an agency-only channel next to client-visible feedback: a comment
+-- marked internal is never returned to a client session. This is enforced by
+-- the RLS policies below, so it also holds for direct API calls and for
+-- realtime (Supabase checks the select policy before sending a change to a
+-- subscriber). post_comments keeps the default replica identity, so delete
+-- events carry only the id, never the body.
+--
+-- Replies take the internal flag of their thread, so a client can't reply
+-- into (or out of) an internal thread even if they learn its id.
+-- api/notify-notes.ts only emails internal notes to @mentioned agency staff.
+
+-- 1. Internal flag
+ALTER TABLE post_comments ADD COLUMN IF NOT EXISTS internal BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_post_comments_internal ON post_comments(client_id, internal);
+
+-- 2. Replies inherit their thread's channel, and comments never change channel
+CREATE OR REPLACE FUNCTION prepare_post_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Browser inserts always start unresolved and unnotified
+    IF v_user.id IS NOT NULL THEN
+      NEW.author_id := v_user.id;
+      NEW.author_name := v_user.name;
+      NEW.author_role := v_user.role;
+      NEW.resolved := FALSE;
+      NEW.notified := FALSE;
+    END IF;
+
+    -- Only active agency staff can be mentioned
+    NEW.mentions := ARRAY(
+      SELECT id FROM users
+      WHERE id = ANY (NEW.mentions)
+        AND is_active
+        AND role IN ('agency_admin', 'agency_editor')
+    );
+
+    -- Replies stay on the same post as their parent, one level deep
+    IF NEW.parent_id IS NOT NULL THEN
+      SELECT COALESCE(parent_id, id) INTO NEW.parent_id
+      FROM post_comments
+      WHERE id = NEW.parent_id AND post_id = NEW.post_id;
+
+      IF NEW.parent_id IS NULL THEN
+        RAISE EXCEPTION 'Reply must belong to a comment on the same post';
+      END IF;
+
+      -- Replies stay in their thread's channel
+      SELECT internal INTO NEW.internal FROM post_comments WHERE id = NEW.parent_id;
+
+      -- The thread's pin is on the top-level comment
+      NEW.pin_media_url := NULL;
+      NEW.pin_x := NULL;
+      NEW.pin_y := NULL;
+      NEW.pin_time := NULL;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Updates may only resolve or reopen a comment
+  IF auth.uid() IS NOT NULL AND (
+    NEW.body IS DISTINCT FROM OLD.body
+    OR NEW.post_id IS DISTINCT FROM OLD.post_id
+    OR NEW.client_id IS DISTINCT FROM OLD.client_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_id IS DISTINCT FROM OLD.author_id
+    OR NEW.author_name IS DISTINCT FROM OLD.author_name
+    OR NEW.mentions IS DISTINCT FROM OLD.mentions
+    OR NEW.pin_media_url IS DISTINCT FROM OLD.pin_media_url
+    OR NEW.pin_x IS DISTINCT FROM OLD.pin_x
+    OR NEW.pin_y IS DISTINCT FROM OLD.pin_y
+    OR NEW.pin_time IS DISTINCT FROM OLD.pin_time
+    OR NEW.internal IS DISTINCT FROM OLD.internal
+  ) THEN
+    RAISE EXCEPTION 'Comments can only be resolved or reopened';
+  END IF;
+
+  IF NEW.resolved IS DISTINCT FROM OLD.resolved THEN
+    NEW.resolved_at := CASE WHEN NEW.resolved THEN NOW() ELSE NULL END;
+    NEW.resolved_by_name := CASE WHEN NEW.resolved THEN COALESCE(v_user.name, 'System') ELSE NULL END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. RLS - internal comments are agency only, for reads and writes
+DROP POLICY IF EXISTS "Comments readable by assigned users" ON post_comments;
+CREATE POLICY "Comments readable by assigned users" ON post_comments
+  FOR SELECT TO authenticated
+  USING ((SELECT app_is_agency()) OR (NOT internal AND client_id = ANY ((SELECT app_client_ids()))));
+
+DROP POLICY IF EXISTS "Comments insertable by editors" ON post_comments;
+CREATE POLICY "Comments insertable by editors" ON post_comments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR (NOT internal AND client_id = ANY ((SELECT app_client_ids()))))
+    AND EXISTS (SELECT 1 FROM posts p WHERE p.id = post_id AND p.client_id = post_comments.client_id)
+  );
+
+DROP POLICY IF EXISTS "Comments resolvable by editors" ON post_comments;
+CREATE POLICY "Comments resolvable by editors" ON post_comments
+  FOR UPDATE TO authenticated
+  USING (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR (NOT internal AND client_id = ANY ((SELECT app_client_ids()))))
+  )
+  WITH CHECK (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR (NOT internal AND client_id = ANY ((SELECT app_client_ids()))))
+  );
+
+-- 4. Verify
+SELECT internal, COUNT(*) AS comments
+FROM post_comments
+GROUP BY internal;
+
+COMMENT ON COLUMN post_comments.internal IS 'Agency-only note - never readable by client sessions';
@@ -0,0 +1,74 @@
+-- PIN Hashing & Login Lockout Schema
+-- Run this in Supabase SQL Editor AFTER add-user-accounts-schema.sql
+--
+-- Replaces plain-text PINs with bcrypt hashes (pgcrypto), adds per-account
+-- lockout and a login_attempts log used by /api/login for rate limiting.
+-- Everyone will need to log in again once this has been run.
+
+-- 1. Enable pgcrypto (provides crypt() and gen_salt())
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 2. Add hash + lockout columns to users
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS pin_hash TEXT,
+ADD COLUMN IF NOT EXISTS failed_login_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+
+-- 3. Hash existing PINs, then drop the plain-text column
+UPDATE users
+SET pin_hash = extensions.crypt(pin, extensions.gen_salt('bf'))
+WHERE pin_hash IS NULL;
+
+ALTER TABLE users ALTER COLUMN pin_hash SET NOT NULL;
+ALTER TABLE users DROP COLUMN IF EXISTS pin;
+
+-- 4. Remove the old shared client PINs (no longer used to log in)
+ALTER TABLE clients DROP COLUMN IF EXISTS pin;
+
+-- 5. PIN check used by /api/login (the hash never leaves the database)
+CREATE OR REPLACE FUNCTION check_user_pin(p_user_id UUID, p_pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT COALESCE(
+    (SELECT pin_hash = crypt(p_pin, pin_hash) FROM users WHERE id = p_user_id),
+    false
+  );
+$$;
+
+-- Only the service role (serverless API routes) may call it
+REVOKE ALL ON FUNCTION check_user_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_user_pin(UUID, TEXT) TO service_role;
+
+-- 6. Login attempts log (per-IP rate limiting)
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ip_address TEXT NOT NULL,
+  email TEXT,
+  succeeded BOOLEAN NOT NULL DEFAULT false,
+  attempted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip ON login_attempts(ip_address, attempted_at);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_attempted_at ON login_attempts(attempted_at);
+
+-- RLS with NO policies - service role only
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+
+-- 7. Sessions are now signed tokens that reference the session row by id
+-- Drop the old opaque-token sessions
+DELETE FROM user_sessions;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS token_hash;
+
+-- 8. Verify (pin_hash should start with $2a$ or $2b$)
+SELECT name, email, role, left(pin_hash, 4) AS hash_prefix, failed_login_attempts, locked_until
+FROM users
+ORDER BY role, name;
+
+COMMENT ON COLUMN users.pin_hash IS 'bcrypt hash of the PIN - set with crypt(''1234'', gen_salt(''bf''))';
+COMMENT ON COLUMN users.failed_login_attempts IS 'Consecutive failed logins, reset on success or lockout';
+COMMENT ON COLUMN users.locked_until IS 'Login blocked until this time after too many failed attempts';
+COMMENT ON TABLE login_attempts IS 'Login attempts by IP for rate limiting (pruned after 24 hours)';
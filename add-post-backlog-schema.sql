@@ -0,0 +1,26 @@
+-- Ideas Backlog Schema
+-- Run this in Supabase SQL Editor AFTER add-content-pillars-schema.sql
+--
+-- Posts without a date are unscheduled ideas. They sit in the backlog beside
+-- the calendar until someone drags them onto a day, and are left out of the
+-- month table, the weekly overview and scheduling.
+
+-- 1. Allow posts without a date
+ALTER TABLE posts ALTER COLUMN date DROP NOT NULL;
+
+-- 2. Blank dates become NULL so there is only one way to be unscheduled
+UPDATE posts SET date = NULL WHERE date = '';
+
+-- 3. Anything handed off to Late needs a date
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_scheduled_date_check;
+ALTER TABLE posts ADD CONSTRAINT posts_scheduled_date_check
+  CHECK (date IS NOT NULL OR status NOT IN ('Scheduled', 'Published'));
+
+-- 4. Verify
+SELECT c.name, COUNT(p.id) FILTER (WHERE p.date IS NULL) AS backlog_ideas
+FROM clients c
+LEFT JOIN posts p ON p.client_id = c.id
+GROUP BY c.id, c.name
+ORDER BY c.name;
+
+COMMENT ON COLUMN posts.date IS 'Post date (YYYY-MM-DD); NULL = unscheduled idea in the backlog';
@@ -0,0 +1,192 @@
+-- Post Comments Schema
+-- Run this in Supabase SQL Editor AFTER add-caption-versions-schema.sql
+--
+-- Replaces the single posts.notes field (which client and agency both
+-- overwrote) with threaded comments: each has an author, a timestamp, a
+-- resolved/unresolved state, optional replies and @mentions of agency staff.
+--
+-- Author fields are filled in by a trigger from the session token, so they
+-- cannot be spoofed from the browser. Serverless routes (service role, e.g.
+-- review links) pass author_name/author_role themselves.
+--
+-- api/notify-notes.ts now emails new unresolved comments (client comments to
+-- the agency inbox, @mentions to the person mentioned) instead of watching
+-- posts.notes, so the notes_updated_at trigger is removed.
+
+-- 1. Create post_comments table
+CREATE TABLE IF NOT EXISTS post_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id TEXT NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES post_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  author_name TEXT NOT NULL DEFAULT 'System',
+  author_role TEXT NOT NULL DEFAULT 'client_approver',
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  resolved BOOLEAN NOT NULL DEFAULT FALSE,
+  resolved_by_name TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  notified BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_comments_post_id ON post_comments(post_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_post_comments_client_id ON post_comments(client_id);
+CREATE INDEX IF NOT EXISTS idx_post_comments_unnotified
+ON post_comments(created_at)
+WHERE notified = FALSE AND resolved = FALSE;
+
+-- 2. Author, mentions and resolve bookkeeping
+CREATE OR REPLACE FUNCTION prepare_post_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    -- Browser inserts always start unresolved and unnotified
+    IF v_user.id IS NOT NULL THEN
+      NEW.author_id := v_user.id;
+      NEW.author_name := v_user.name;
+      NEW.author_role := v_user.role;
+      NEW.resolved := FALSE;
+      NEW.notified := FALSE;
+    END IF;
+
+    -- Only active agency staff can be mentioned
+    NEW.mentions := ARRAY(
+      SELECT id FROM users
+      WHERE id = ANY (NEW.mentions)
+        AND is_active
+        AND role IN ('agency_admin', 'agency_editor')
+    );
+
+    -- Replies stay on the same post as their parent, one level deep
+    IF NEW.parent_id IS NOT NULL THEN
+      SELECT COALESCE(parent_id, id) INTO NEW.parent_id
+      FROM post_comments
+      WHERE id = NEW.parent_id AND post_id = NEW.post_id;
+
+      IF NEW.parent_id IS NULL THEN
+        RAISE EXCEPTION 'Reply must belong to a comment on the same post';
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Updates may only resolve or reopen a comment
+  IF auth.uid() IS NOT NULL AND (
+    NEW.body IS DISTINCT FROM OLD.body
+    OR NEW.post_id IS DISTINCT FROM OLD.post_id
+    OR NEW.client_id IS DISTINCT FROM OLD.client_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.author_id IS DISTINCT FROM OLD.author_id
+    OR NEW.author_name IS DISTINCT FROM OLD.author_name
+    OR NEW.mentions IS DISTINCT FROM OLD.mentions
+  ) THEN
+    RAISE EXCEPTION 'Comments can only be resolved or reopened';
+  END IF;
+
+  IF NEW.resolved IS DISTINCT FROM OLD.resolved THEN
+    NEW.resolved_at := CASE WHEN NEW.resolved THEN NOW() ELSE NULL END;
+    NEW.resolved_by_name := CASE WHEN NEW.resolved THEN COALESCE(v_user.name, 'System') ELSE NULL END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_comments_prepare ON post_comments;
+CREATE TRIGGER post_comments_prepare
+  BEFORE INSERT OR UPDATE ON post_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_post_comment();
+
+-- 3. Agency staff that can be @mentioned (users itself is not readable from the browser)
+CREATE OR REPLACE FUNCTION app_mentionable_staff()
+RETURNS TABLE (id UUID, name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id, name FROM users
+  WHERE is_active
+    AND role IN ('agency_admin', 'agency_editor')
+    AND EXISTS (SELECT 1 FROM app_session_user())
+  ORDER BY name;
+$$;
+
+REVOKE ALL ON FUNCTION app_mentionable_staff() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION app_mentionable_staff() TO authenticated;
+
+-- 4. RLS - same scope as posts; viewers can read but not comment
+ALTER TABLE post_comments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Comments readable by assigned users" ON post_comments;
+CREATE POLICY "Comments readable by assigned users" ON post_comments
+  FOR SELECT TO authenticated
+  USING ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())));
+
+DROP POLICY IF EXISTS "Comments insertable by editors" ON post_comments;
+CREATE POLICY "Comments insertable by editors" ON post_comments
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())))
+    AND EXISTS (SELECT 1 FROM posts p WHERE p.id = post_id AND p.client_id = post_comments.client_id)
+  );
+
+DROP POLICY IF EXISTS "Comments resolvable by editors" ON post_comments;
+CREATE POLICY "Comments resolvable by editors" ON post_comments
+  FOR UPDATE TO authenticated
+  USING (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())))
+  )
+  WITH CHECK (
+    (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())))
+  );
+
+-- 5. Realtime (new comments show up without a reload)
+DO $$
+BEGIN
+  ALTER PUBLICATION supabase_realtime ADD TABLE post_comments;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- 6. Move existing notes into comments (one per post, from the client)
+INSERT INTO post_comments (post_id, client_id, body, author_name, author_role, notified, created_at)
+SELECT id, client_id, notes, 'Earlier notes', 'client_approver', TRUE, COALESCE(notes_updated_at, created_at)
+FROM posts
+WHERE COALESCE(trim(notes), '') <> ''
+  AND NOT EXISTS (SELECT 1 FROM post_comments c WHERE c.post_id = posts.id);
+
+-- 7. Retire the notes notification tracking
+DROP TRIGGER IF EXISTS track_notes_update ON posts;
+DROP FUNCTION IF EXISTS update_notes_timestamp();
+DROP INDEX IF EXISTS idx_posts_notes_notified;
+ALTER TABLE posts DROP COLUMN IF EXISTS notes_updated_at;
+ALTER TABLE posts DROP COLUMN IF EXISTS notes_notified;
+
+-- 8. Verify
+SELECT post_id, author_name, author_role, resolved, LEFT(body, 60) AS body, created_at
+FROM post_comments
+ORDER BY created_at DESC
+LIMIT 10;
+
+COMMENT ON TABLE post_comments IS 'Threaded comments on posts (replaces posts.notes)';
+COMMENT ON COLUMN post_comments.parent_id IS 'Top-level comment this is a reply to (NULL for a new thread)';
+COMMENT ON COLUMN post_comments.mentions IS 'Agency users @mentioned in the comment (emailed by api/notify-notes)';
+COMMENT ON COLUMN post_comments.notified IS 'Whether api/notify-notes has processed this comment';
+COMMENT ON COLUMN posts.notes IS 'Legacy single notes field - moved into post_comments, no longer written';
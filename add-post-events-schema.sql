@@ -0,0 +1,121 @@
+-- Post Events (Audit Log) Schema
+-- Run this in Supabase SQL Editor AFTER add-client-rls-policies.sql
+--
+-- Records every insert, update, delete and status transition on posts:
+-- who made the change, which field, the previous value and the new value.
+-- Rows are written by a trigger, so every path is covered (table edits,
+-- Approve All, auto-posting, serverless routes) and the browser cannot
+-- write or alter history directly.
+--
+-- The actor comes from the session token (auth.uid()); changes made with the
+-- service role key are recorded as 'System'. Callers can label a change by
+-- sending an x-change-source header (e.g. 'approve_all', 'auto_post').
+
+-- 1. Create post_events table
+-- post_id has no foreign key so history survives the post being deleted
+CREATE TABLE IF NOT EXISTS post_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id TEXT NOT NULL,
+  client_id UUID REFERENCES clients(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('insert', 'update', 'delete', 'status_change')),
+  field TEXT,
+  old_value JSONB,
+  new_value JSONB,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  actor_name TEXT NOT NULL DEFAULT 'System',
+  source TEXT NOT NULL DEFAULT 'edit',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_events_post_id ON post_events(post_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_events_client_id ON post_events(client_id);
+
+-- 2. Trigger function - one row per changed field
+CREATE OR REPLACE FUNCTION record_post_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor_name TEXT;
+  v_source TEXT;
+  v_old JSONB;
+  v_new JSONB;
+  v_key TEXT;
+BEGIN
+  IF v_actor_id IS NOT NULL THEN
+    SELECT name INTO v_actor_name FROM users WHERE id = v_actor_id;
+  END IF;
+  v_actor_name := COALESCE(v_actor_name, 'System');
+
+  v_source := COALESCE(
+    NULLIF(current_setting('request.headers', true), '')::json ->> 'x-change-source',
+    'edit'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO post_events (post_id, client_id, event_type, new_value, actor_id, actor_name, source)
+    VALUES (NEW.id, NEW.client_id, 'insert', to_jsonb(NEW), v_actor_id, v_actor_name, v_source);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO post_events (post_id, client_id, event_type, old_value, actor_id, actor_name, source)
+    VALUES (OLD.id, OLD.client_id, 'delete', to_jsonb(OLD), v_actor_id, v_actor_name, v_source);
+    RETURN OLD;
+  END IF;
+
+  v_old := to_jsonb(OLD);
+  v_new := to_jsonb(NEW);
+
+  FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+    -- Bookkeeping columns maintained by other triggers
+    CONTINUE WHEN v_key IN ('created_at', 'updated_at', 'notes_updated_at', 'notes_notified');
+
+    IF (v_new -> v_key) IS DISTINCT FROM (v_old -> v_key) THEN
+      INSERT INTO post_events (post_id, client_id, event_type, field, old_value, new_value, actor_id, actor_name, source)
+      VALUES (
+        NEW.id,
+        NEW.client_id,
+        CASE WHEN v_key = 'status' THEN 'status_change' ELSE 'update' END,
+        v_key,
+        v_old -> v_key,
+        v_new -> v_key,
+        v_actor_id,
+        v_actor_name,
+        v_source
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Create trigger on posts table
+DROP TRIGGER IF EXISTS posts_audit ON posts;
+CREATE TRIGGER posts_audit
+  AFTER INSERT OR UPDATE OR DELETE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION record_post_events();
+
+-- 4. RLS - readable by anyone who can see the client's posts, never writable from the browser
+ALTER TABLE post_events ENABLE ROW LEVEL SECURITY;
+REVOKE INSERT, UPDATE, DELETE ON post_events FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Post events readable by assigned users" ON post_events;
+CREATE POLICY "Post events readable by assigned users" ON post_events
+  FOR SELECT TO authenticated
+  USING ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())));
+
+-- 5. Verify
+SELECT event_type, field, actor_name, source, created_at
+FROM post_events
+ORDER BY created_at DESC
+LIMIT 10;
+
+COMMENT ON TABLE post_events IS 'Audit log of every change to posts (written by the posts_audit trigger)';
+COMMENT ON COLUMN post_events.field IS 'Changed column for update/status_change events, NULL for insert/delete';
+COMMENT ON COLUMN post_events.source IS 'What made the change: edit, approve_all, auto_post, ... (x-change-source header)';
@@ -0,0 +1,37 @@
+-- Post Revisions Schema
+-- Run this in Supabase SQL Editor AFTER add-edit-presence-schema.sql
+--
+-- Every change to a post bumps posts.revision. The app sends the revision it
+-- last saw with each edit (update ... WHERE id = ? AND revision = ?), so an
+-- edit made on top of someone else's change matches no row and the editor is
+-- asked how to merge, instead of silently overwriting it.
+-- (posts.updated_at isn't reliable for this - fix-trigger-error.sql dropped its trigger.)
+
+-- 1. Row version
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+
+-- 2. Trigger function - every update is a new revision, whatever the client sent
+CREATE OR REPLACE FUNCTION bump_post_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.revision := OLD.revision + 1;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_bump_revision ON posts;
+CREATE TRIGGER posts_bump_revision
+  BEFORE UPDATE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_post_revision();
+
+-- 3. Verify
+SELECT id, title, revision
+FROM posts
+ORDER BY created_at DESC
+LIMIT 10;
+
+COMMENT ON COLUMN posts.revision IS 'Incremented on every update - edits carry the revision they were made on (optimistic concurrency)';
@@ -0,0 +1,91 @@
+-- Post Status State Machine Schema
+-- Run this in Supabase SQL Editor AFTER add-publish-time-schema.sql
+--
+-- Replaces 'Posted' with three states:
+--   Scheduled - Late (or Meta) accepted the post for its publish time
+--   Published - the post has gone out
+--   Failed    - scheduling or publishing failed (reason in publish_error)
+--
+-- Status changes are checked against post_status_transitions by a trigger,
+-- so an invalid move (e.g. Published back to Draft) is rejected on every
+-- path - table edits, Approve All, review links and serverless routes.
+-- Keep the table in sync with STATUS_TRANSITIONS in services/statusService.ts.
+
+-- 1. Late post id (to check on publishing) and the last failure reason
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS late_post_id TEXT,
+ADD COLUMN IF NOT EXISTS publish_error TEXT;
+
+-- 2. Move 'Posted' to the new states - past dates have gone out, later ones are still queued
+UPDATE posts
+SET status = CASE WHEN date < CURRENT_DATE THEN 'Published' ELSE 'Scheduled' END
+WHERE status = 'Posted';
+
+-- 3. Only known statuses
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_status_check;
+ALTER TABLE posts ADD CONSTRAINT posts_status_check CHECK (status IN (
+  'Draft', 'Generated', 'For Approval', 'Revision', 'Approved', 'Scheduled', 'Published', 'Failed'
+));
+
+-- 4. Allowed transitions
+CREATE TABLE IF NOT EXISTS post_status_transitions (
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+DELETE FROM post_status_transitions;
+INSERT INTO post_status_transitions (from_status, to_status) VALUES
+  ('Draft', 'Generated'), ('Draft', 'For Approval'), ('Draft', 'Approved'),
+  ('Generated', 'Draft'), ('Generated', 'For Approval'), ('Generated', 'Approved'),
+  ('For Approval', 'Draft'), ('For Approval', 'Revision'), ('For Approval', 'Approved'),
+  ('Revision', 'Draft'), ('Revision', 'Generated'), ('Revision', 'For Approval'), ('Revision', 'Approved'),
+  ('Approved', 'Draft'), ('Approved', 'For Approval'), ('Approved', 'Revision'), ('Approved', 'Scheduled'), ('Approved', 'Failed'),
+  ('Scheduled', 'Published'), ('Scheduled', 'Failed'),
+  ('Failed', 'Draft'), ('Failed', 'For Approval'), ('Failed', 'Revision'), ('Failed', 'Approved');
+
+ALTER TABLE post_status_transitions ENABLE ROW LEVEL SECURITY;
+REVOKE INSERT, UPDATE, DELETE ON post_status_transitions FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "Status transitions readable" ON post_status_transitions;
+CREATE POLICY "Status transitions readable" ON post_status_transitions
+  FOR SELECT TO authenticated
+  USING (true);
+
+-- 5. Trigger function - reject moves that are not in the table
+CREATE OR REPLACE FUNCTION enforce_post_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT EXISTS (
+    SELECT 1 FROM post_status_transitions
+    WHERE from_status = OLD.status AND to_status = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'A % post cannot be moved to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A fresh attempt clears the previous failure
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'Failed' THEN
+    NEW.publish_error := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_status_transition ON posts;
+CREATE TRIGGER posts_status_transition
+  BEFORE UPDATE OF status ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_post_status_transition();
+
+-- 6. Verify
+SELECT status, COUNT(*) FROM posts GROUP BY status ORDER BY status;
+
+COMMENT ON TABLE post_status_transitions IS 'Allowed post status changes (enforced by the posts_status_transition trigger)';
+COMMENT ON COLUMN posts.late_post_id IS 'Late post id from scheduling, used to check whether it published';
+COMMENT ON COLUMN posts.publish_error IS 'Why scheduling or publishing failed (set with status Failed)';
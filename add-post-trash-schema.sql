@@ -0,0 +1,74 @@
+-- Post Trash Schema
+-- Run this in Supabase SQL Editor AFTER add-bulk-actions-schema.sql
+--
+-- Deleting a post now moves it to the client's trash (deleted_at is set) so it
+-- can be restored with its media, comments and history intact. Posts are only
+-- removed for good when purged from the trash, or by /api/cleanup-storage once
+-- they have been in the trash for 30 days. Media of removed posts is queued in
+-- media_cleanup_queue and deleted from storage by the same cleanup job.
+
+-- 1. Trash marker (NULL = live post)
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_posts_client_trash ON posts(client_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+-- 2. Only trashed posts can be deleted for good
+DROP POLICY IF EXISTS "Posts deletable by editors" ON posts;
+CREATE POLICY "Posts deletable by editors" ON posts
+  FOR DELETE TO authenticated
+  USING (
+    deleted_at IS NOT NULL
+    AND (SELECT app_can_edit())
+    AND ((SELECT app_is_agency()) OR client_id = ANY ((SELECT app_client_ids())))
+  );
+
+-- 3. Storage files of removed posts, waiting for /api/cleanup-storage
+CREATE TABLE IF NOT EXISTS media_cleanup_queue (
+  id BIGSERIAL PRIMARY KEY,
+  client_id UUID,
+  url TEXT NOT NULL,
+  queued_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Service role only - no policies, so the browser can neither read nor write it
+ALTER TABLE media_cleanup_queue ENABLE ROW LEVEL SECURITY;
+
+-- 4. Trigger function - queue every storage file of a removed post
+CREATE OR REPLACE FUNCTION queue_post_media_cleanup()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO media_cleanup_queue (client_id, url)
+  SELECT DISTINCT OLD.client_id, media.url
+  FROM (
+    SELECT item ->> 'url' AS url FROM jsonb_array_elements(COALESCE(OLD.media_items, '[]'::jsonb)) AS item
+    UNION
+    SELECT OLD.image_url
+  ) AS media
+  WHERE media.url LIKE '%/storage/v1/object/public/post-images/%';
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS posts_queue_media_cleanup ON posts;
+CREATE TRIGGER posts_queue_media_cleanup
+  AFTER DELETE ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_post_media_cleanup();
+
+-- 5. Verify
+SELECT c.name,
+       COUNT(p.id) FILTER (WHERE p.deleted_at IS NULL) AS live_posts,
+       COUNT(p.id) FILTER (WHERE p.deleted_at IS NOT NULL) AS trashed_posts
+FROM clients c
+LEFT JOIN posts p ON p.client_id = c.id
+GROUP BY c.id, c.name
+ORDER BY c.name;
+
+COMMENT ON COLUMN posts.deleted_at IS 'When the post was moved to the trash (NULL = live)';
+COMMENT ON TABLE media_cleanup_queue IS 'Storage files of removed posts, deleted by /api/cleanup-storage unless another post still uses them';
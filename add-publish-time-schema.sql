@@ -0,0 +1,20 @@
+-- Publish Time & Client Timezone Schema
+-- Run this in Supabase SQL Editor AFTER add-caption-variants-schema.sql
+--
+-- Every scheduling path (auto-schedule on approval, the Schedule button, Meta
+-- posting) publishes a post at its date + publish_time, read as wall-clock time
+-- in the client's timezone - not the browser's.
+
+-- 1. Per-post publish time (NULL = the default 12:00)
+ALTER TABLE posts
+ADD COLUMN IF NOT EXISTS publish_time TIME;
+
+-- 2. Per-client timezone (IANA name)
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Australia/Sydney';
+
+-- 3. Verify
+SELECT name, timezone FROM clients ORDER BY name;
+
+COMMENT ON COLUMN posts.publish_time IS 'Time of day to publish on date, in the client timezone (NULL = 12:00)';
+COMMENT ON COLUMN clients.timezone IS 'IANA timezone that post dates and publish times are in';
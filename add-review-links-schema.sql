@@ -0,0 +1,105 @@
+-- Review Links (Magic-Link Approvals) Schema
+-- Run this in Supabase SQL Editor AFTER add-post-events-schema.sql
+--
+-- Review emails can include signed, expiring links that open a minimal review
+-- page without a PIN. Each link is scoped to one post or one client month and
+-- is verified by /api/review against this table, so links can be revoked.
+
+-- 1. Create review_links table
+CREATE TABLE IF NOT EXISTS review_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  post_id TEXT REFERENCES posts(id) ON DELETE CASCADE,
+  month TEXT CHECK (month ~ '^\d{4}-\d{2}$'),
+  recipient_name TEXT,
+  recipient_email TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Exactly one scope: a single post or a whole month
+  CHECK ((post_id IS NOT NULL) <> (month IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_links_client_id ON review_links(client_id);
+
+-- RLS with NO policies - only the serverless routes (service role) use it
+ALTER TABLE review_links ENABLE ROW LEVEL SECURITY;
+
+-- 2. Let service-role routes name the actor in post_events
+-- Review-link actions run with the service role (no session), so /api/review
+-- sends the recipient's name in an x-actor-name header. It is only used when
+-- there is no signed-in user, so browser sessions cannot spoof it.
+CREATE OR REPLACE FUNCTION record_post_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor_name TEXT;
+  v_headers JSON := NULLIF(current_setting('request.headers', true), '')::json;
+  v_source TEXT;
+  v_old JSONB;
+  v_new JSONB;
+  v_key TEXT;
+BEGIN
+  IF v_actor_id IS NOT NULL THEN
+    SELECT name INTO v_actor_name FROM users WHERE id = v_actor_id;
+  ELSE
+    v_actor_name := NULLIF(v_headers ->> 'x-actor-name', '');
+  END IF;
+  v_actor_name := COALESCE(v_actor_name, 'System');
+
+  v_source := COALESCE(v_headers ->> 'x-change-source', 'edit');
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO post_events (post_id, client_id, event_type, new_value, actor_id, actor_name, source)
+    VALUES (NEW.id, NEW.client_id, 'insert', to_jsonb(NEW), v_actor_id, v_actor_name, v_source);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO post_events (post_id, client_id, event_type, old_value, actor_id, actor_name, source)
+    VALUES (OLD.id, OLD.client_id, 'delete', to_jsonb(OLD), v_actor_id, v_actor_name, v_source);
+    RETURN OLD;
+  END IF;
+
+  v_old := to_jsonb(OLD);
+  v_new := to_jsonb(NEW);
+
+  FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+    -- Bookkeeping columns maintained by other triggers
+    CONTINUE WHEN v_key IN ('created_at', 'updated_at', 'notes_updated_at', 'notes_notified');
+
+    IF (v_new -> v_key) IS DISTINCT FROM (v_old -> v_key) THEN
+      INSERT INTO post_events (post_id, client_id, event_type, field, old_value, new_value, actor_id, actor_name, source)
+      VALUES (
+        NEW.id,
+        NEW.client_id,
+        CASE WHEN v_key = 'status' THEN 'status_change' ELSE 'update' END,
+        v_key,
+        v_old -> v_key,
+        v_new -> v_key,
+        v_actor_id,
+        v_actor_name,
+        v_source
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 3. Verify
+SELECT id, client_id, post_id, month, recipient_email, expires_at, revoked_at
+FROM review_links
+ORDER BY created_at DESC
+LIMIT 10;
+
+COMMENT ON TABLE review_links IS 'Signed magic links for approving posts from review emails without a PIN';
+COMMENT ON COLUMN review_links.month IS 'YYYY-MM for month links (NULL for single-post links)';
+COMMENT ON COLUMN review_links.revoked_at IS 'Set to revoke a link before it expires';
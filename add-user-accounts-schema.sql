@@ -0,0 +1,105 @@
+-- User Accounts Schema
+-- Run this in Supabase SQL Editor to replace shared client PINs with per-person accounts
+--
+-- Roles:
+--   agency_admin    - Seam Media staff, all clients, settings and integrations
+--   agency_editor   - Seam Media staff, all clients, content only
+--   client_approver - Client staff, own clients, can approve and comment
+--   client_viewer   - Client staff, own clients, read-only
+
+-- 1. Flag the agency's own client record (replaces the hardcoded '1991' checks in the app)
+ALTER TABLE clients
+ADD COLUMN IF NOT EXISTS is_agency BOOLEAN DEFAULT false;
+
+UPDATE clients SET is_agency = true WHERE pin = '1991';
+
+-- 2. Create users table (one row per person)
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  email TEXT NOT NULL UNIQUE,
+  pin TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('agency_admin', 'agency_editor', 'client_approver', 'client_viewer')),
+  client_ids UUID[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 3. Create sessions table (issued by /api/login, checked by /api/session)
+-- Only a SHA-256 hash of the session token is stored
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(lower(email));
+
+-- 4. Keep updated_at current
+CREATE OR REPLACE FUNCTION update_users_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_updated_at ON users;
+CREATE TRIGGER users_updated_at
+  BEFORE UPDATE ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION update_users_updated_at();
+
+-- 5. Enable RLS with NO policies
+-- These tables are only readable by the serverless API routes (service role key),
+-- never by the browser's anon key
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- 6. Seed starter accounts from the existing shared PINs
+-- Agency admin - the old master PIN is public, so the admin's PIN is supplied
+-- here: replace CHANGE_ME below before running (the script stops otherwise)
+DO $$
+DECLARE
+  v_admin_pin TEXT := 'CHANGE_ME';
+BEGIN
+  IF v_admin_pin = 'CHANGE_ME' OR v_admin_pin = '1991' OR length(v_admin_pin) < 4 THEN
+    RAISE EXCEPTION 'Set v_admin_pin in step 6 to a new PIN (4+ characters, not the old master PIN) before running'
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO users (name, email, pin, role, client_ids)
+  VALUES ('Seam Media', 'contact@seammedia.com.au', v_admin_pin, 'agency_admin', '{}')
+  ON CONFLICT (email) DO NOTHING;
+END;
+$$;
+
+-- One approver per client contact email (clients sharing a contact get one account)
+INSERT INTO users (name, email, pin, role, client_ids)
+SELECT
+  MIN(COALESCE(contact_name, name)),
+  lower(contact_email),
+  MIN(pin),
+  'client_approver',
+  array_agg(id)
+FROM clients
+WHERE is_agency = false
+  AND contact_email IS NOT NULL
+  AND contact_email != ''
+GROUP BY lower(contact_email)
+ON CONFLICT (email) DO NOTHING;
+
+-- 7. Verify
+SELECT name, email, role, array_length(client_ids, 1) AS client_count, is_active
+FROM users
+ORDER BY role, name;
+
+COMMENT ON TABLE users IS 'Per-person login accounts with roles';
+COMMENT ON TABLE user_sessions IS 'Server-issued login sessions (token hashes only)';
+COMMENT ON COLUMN users.client_ids IS 'Clients a client_* user can access (ignored for agency roles)';
+COMMENT ON COLUMN clients.is_agency IS 'Marks the agency''s own record, hidden from client lists';
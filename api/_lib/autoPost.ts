@@ -0,0 +1,173 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CaptionVariant, MediaItem } from '../../types';
+import { buildBaseCaption, buildPlatformCaption, toSocialPlatform } from '../../services/captionService.js';
+import { getClientTimezone, getPublishTime, toLocalDateTime } from '../../services/scheduleService.js';
+
+/**
+ * Server-side auto-post - hands a post that just reached Approved to Late
+ * Same steps as App's handleAutoPost, for approvals made where no app is
+ * running (review links). The post is claimed with a conditional
+ * Approved -> Scheduled update first, so it is only scheduled once.
+ */
+
+const LATE_API_BASE = 'https://getlate.dev/api/v1';
+
+export type AutoPostOutcome = 'scheduled' | 'failed' | 'skipped';
+
+interface AutoPostRow {
+  id: string;
+  client_id: string;
+  date: string | null;
+  publish_time: string | null;
+  generated_caption: string | null;
+  generated_hashtags: string[] | null;
+  caption_variants: Record<string, CaptionVariant> | null;
+  image_description: string | null;
+  image_url: string | null;
+  media_type: 'image' | 'video' | null;
+  media_items: MediaItem[] | null;
+}
+
+// Active Late accounts (same normalising as api/late-profiles.ts)
+async function getLateAccounts(apiKey: string): Promise<{ id: string; platform: string }[]> {
+  const response = await fetch(`${LATE_API_BASE}/accounts`, {
+    headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || error.error || `Late API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const accounts = Array.isArray(data) ? data : data.accounts || (Array.isArray(data.data) ? data.data : data.data ? [data.data] : []);
+  return accounts
+    .filter((a: any) => a.isActive !== false)
+    .map((a: any) => ({ id: a._id || a.id || a.accountId, platform: (a.platform || 'unknown').toLowerCase() }));
+}
+
+async function markFailed(supabase: SupabaseClient, postId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('posts')
+    .update({ status: 'Failed', publish_error: reason })
+    .eq('id', postId)
+    .setHeader('x-change-source', 'auto_post');
+  if (error) console.error(`Failed to mark post ${postId} failed:`, error);
+}
+
+export async function autoSchedulePost(supabase: SupabaseClient, postId: string): Promise<AutoPostOutcome> {
+  const apiKey = process.env.VITE_LATE_API_KEY;
+  if (!apiKey) return 'skipped';
+
+  const { data: post, error: postError } = await supabase
+    .from('posts')
+    .select('id, client_id, date, publish_time, generated_caption, generated_hashtags, caption_variants, image_description, image_url, media_type, media_items')
+    .eq('id', postId)
+    .single<AutoPostRow>();
+
+  if (postError || !post) {
+    throw new Error(`Failed to load post: ${postError?.message || 'not found'}`);
+  }
+
+  // Backlog ideas have no day to schedule for yet
+  if (!post.date) return 'skipped';
+
+  const { data: client } = await supabase
+    .from('clients')
+    .select('late_profile_ids, timezone')
+    .eq('id', post.client_id)
+    .single();
+
+  const profileIds: string[] = client?.late_profile_ids || [];
+  if (profileIds.length === 0) return 'skipped';
+
+  // Approved -> Scheduled only while it is still Approved (an app may get there first)
+  const { data: claimed, error: claimError } = await supabase
+    .from('posts')
+    .update({ status: 'Scheduled' })
+    .eq('id', postId)
+    .eq('status', 'Approved')
+    .select('id')
+    .setHeader('x-change-source', 'auto_post');
+
+  if (claimError) {
+    throw new Error(`Failed to claim post: ${claimError.message}`);
+  }
+  if (!claimed?.length) return 'skipped';
+
+  try {
+    const captionPost = {
+      generatedCaption: post.generated_caption || '',
+      generatedHashtags: post.generated_hashtags || [],
+      captionVariants: post.caption_variants || {},
+      imageDescription: post.image_description || '',
+    };
+
+    // Only public media URLs can be sent (not empty, not base64)
+    const mediaItems = (post.media_items?.length
+      ? post.media_items
+      : post.image_url ? [{ url: post.image_url, type: post.media_type || 'image' }] : []
+    ).filter(item => item.url.startsWith('http'));
+
+    const clientAccounts = (await getLateAccounts(apiKey)).filter(account => profileIds.includes(account.id));
+
+    if (clientAccounts.some(account => account.platform === 'instagram') && mediaItems.length === 0) {
+      await markFailed(supabase, postId, 'Instagram requires an image or video');
+      return 'failed';
+    }
+
+    const platforms = clientAccounts.map(account => {
+      const socialPlatform = toSocialPlatform(account.platform);
+      return {
+        platform: account.platform,
+        accountId: account.id,
+        customContent: socialPlatform ? buildPlatformCaption(captionPost, socialPlatform) : undefined,
+      };
+    });
+
+    const requestBody: Record<string, unknown> = {
+      platforms,
+      content: buildBaseCaption(captionPost),
+      scheduledFor: toLocalDateTime(post.date, getPublishTime({ publishTime: post.publish_time?.slice(0, 5) })),
+      timezone: getClientTimezone(client),
+      publishNow: false,
+      isDraft: false,
+    };
+    if (mediaItems.length > 0) {
+      requestBody.mediaItems = mediaItems.map(item => ({ type: item.type || 'image', url: item.url }));
+    }
+
+    const response = await fetch(`${LATE_API_BASE}/posts`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestBody),
+    });
+
+    const responseText = await response.text();
+    let data: any = {};
+    try {
+      data = JSON.parse(responseText);
+    } catch {
+      data = { message: responseText };
+    }
+
+    if (!response.ok) {
+      throw new Error(data.message || data.error || data.detail || `Late API error: ${response.status}`);
+    }
+
+    // The publish check cron follows it on to Published or Failed
+    const latePostId = data.post?._id || data.post?.id || data._id || data.id || '';
+    const { error: updateError } = await supabase
+      .from('posts')
+      .update({ late_post_id: latePostId, publish_error: '' })
+      .eq('id', postId)
+      .setHeader('x-change-source', 'auto_post');
+    if (updateError) console.error(`Failed to record Late post for ${postId}:`, updateError);
+
+    console.log(`Auto-scheduled post ${postId} to ${platforms.length} platform(s) for ${requestBody.scheduledFor} ${requestBody.timezone}`);
+    return 'scheduled';
+  } catch (error) {
+    console.error('Auto-schedule error:', error);
+    await markFailed(supabase, postId, error instanceof Error ? error.message : 'Auto-schedule failed');
+    return 'failed';
+  }
+}
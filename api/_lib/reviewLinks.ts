@@ -0,0 +1,252 @@
+import type { VercelRequest } from '@vercel/node';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { MediaItem, MediaType, Post } from '../../types';
+
+/**
+ * Review link helpers (magic-link approvals)
+ * A link token is "<payload>.<signature>" where the payload only carries the
+ * review_links row id and expiry - the scope (post or month) always comes from
+ * the database row, so a token can never be widened by editing it.
+ * Signed with a key derived from SUPABASE_JWT_SECRET; deliberately not a JWT,
+ * so a review token can never be used as a session.
+ */
+
+export const REVIEW_LINK_EXPIRY_DAYS = 14;
+
+export interface ReviewLink {
+  id: string;
+  client_id: string;
+  post_id: string | null;
+  month: string | null;
+  recipient_name: string | null;
+  recipient_email: string | null;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+interface ReviewTokenPayload {
+  lid: string;
+  exp: number;
+}
+
+const getSigningKey = (): Buffer => {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error('SUPABASE_JWT_SECRET not configured');
+  }
+  return createHmac('sha256', secret).update('review-links').digest();
+};
+
+const sign = (data: string): string =>
+  createHmac('sha256', getSigningKey()).update(data).digest('base64url');
+
+// Public URL of the app, used to build links
+export const getAppOrigin = (req: VercelRequest): string => {
+  const origin = req.headers.origin;
+  if (typeof origin === 'string' && origin) return origin;
+  const proto = (req.headers['x-forwarded-proto'] as string) || 'https';
+  return `${proto}://${req.headers.host}`;
+};
+
+export const buildReviewUrl = (origin: string, token: string): string =>
+  `${origin}/?review=${encodeURIComponent(token)}`;
+
+// Create a link row and return its signed token
+export async function createReviewLink(
+  supabase: SupabaseClient,
+  link: {
+    clientId: string;
+    postId?: string;
+    month?: string;
+    recipientName?: string;
+    recipientEmail?: string;
+    createdBy?: string; // Unset for links sent by scheduled jobs
+  }
+): Promise<{ token: string; expiresAt: string }> {
+  const expiresAtSeconds = Math.floor(Date.now() / 1000) + REVIEW_LINK_EXPIRY_DAYS * 24 * 60 * 60;
+  const expiresAt = new Date(expiresAtSeconds * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('review_links')
+    .insert({
+      client_id: link.clientId,
+      post_id: link.postId || null,
+      month: link.month || null,
+      recipient_name: link.recipientName || null,
+      recipient_email: link.recipientEmail || null,
+      created_by: link.createdBy || null,
+      expires_at: expiresAt,
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create review link: ${error?.message || 'no link returned'}`);
+  }
+
+  const payload: ReviewTokenPayload = { lid: data.id, exp: expiresAtSeconds };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return { token: `${encoded}.${sign(encoded)}`, expiresAt };
+}
+
+// Check the signature, expiry and revocation of a link token
+// Returns the link row, or null if the link is invalid, expired or revoked
+export async function verifyReviewToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<ReviewLink | null> {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let payload: ReviewTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+  } catch {
+    return null;
+  }
+  if (!payload.lid || payload.exp * 1000 < Date.now()) return null;
+
+  const { data: link } = await supabase
+    .from('review_links')
+    .select('id, client_id, post_id, month, recipient_name, recipient_email, expires_at, revoked_at')
+    .eq('id', payload.lid)
+    .maybeSingle();
+
+  if (!link || link.revoked_at || new Date(link.expires_at).getTime() < Date.now()) {
+    return null;
+  }
+  return link as ReviewLink;
+}
+
+const mapReviewPost = (row: any): Post => ({
+  id: row.id,
+  client_id: row.client_id,
+  title: row.title,
+  date: row.date || '',
+  publishTime: row.publish_time ? String(row.publish_time).slice(0, 5) : '',
+  status: row.status,
+  imageDescription: row.image_description || '',
+  imageUrl: row.image_url || '',
+  mediaType: (row.media_type as MediaType) || 'image',
+  mediaItems: (row.media_items as MediaItem[] | null)?.length
+    ? row.media_items
+    : row.image_url ? [{ url: row.image_url, type: (row.media_type as MediaType) || 'image' }] : [],
+  generatedCaption: row.generated_caption || '',
+  generatedHashtags: row.generated_hashtags || [],
+});
+
+// Posts covered by a link - drafts and trashed posts are never shown to reviewers
+export async function getReviewPosts(
+  supabase: SupabaseClient,
+  link: Pick<ReviewLink, 'client_id' | 'post_id' | 'month'>
+): Promise<Post[]> {
+  let query = supabase
+    .from('posts')
+    .select('id, client_id, title, date, publish_time, status, image_description, image_url, media_type, media_items, generated_caption, generated_hashtags')
+    .eq('client_id', link.client_id)
+    .neq('status', 'Draft')
+    .is('deleted_at', null)
+    .order('date', { ascending: true });
+
+  if (link.post_id) {
+    query = query.eq('id', link.post_id);
+  } else if (link.month) {
+    const [year, month] = link.month.split('-').map(Number);
+    const lastDay = new Date(year, month, 0).getDate();
+    query = query
+      .gte('date', `${link.month}-01`)
+      .lte('date', `${link.month}-${String(lastDay).padStart(2, '0')}`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load posts: ${error.message}`);
+  }
+  return (data || []).map(mapReviewPost);
+}
+
+// Who is approving through a link - a user account when the recipient has one
+// for this client (so they count as a named required approver), otherwise the
+// recipient's email. Links sent without one all go to the client's contact
+// (month and per-post links, reminders), so they share one key per client - a
+// single reviewer can't meet a quorum on their own by using several links.
+export interface ReviewApprover {
+  key: string;
+  userId: string | null;
+  name: string;
+  role: string;
+}
+
+export async function getReviewApprover(
+  supabase: SupabaseClient,
+  link: Pick<ReviewLink, 'id' | 'client_id' | 'recipient_name' | 'recipient_email'>
+): Promise<ReviewApprover> {
+  const name = link.recipient_name || link.recipient_email || 'Client';
+  const email = link.recipient_email?.trim().toLowerCase();
+  if (!email) {
+    return { key: `contact:${link.client_id}`, userId: null, name, role: 'client_approver' };
+  }
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('id, name, role, client_ids')
+    .eq('email', email)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (user && user.role !== 'client_viewer' && (user.client_ids || []).includes(link.client_id)) {
+    return { key: user.id, userId: user.id, name: user.name || name, role: user.role };
+  }
+  return { key: `email:${email}`, userId: null, name, role: 'client_approver' };
+}
+
+// Approval progress for the reviewer's posts - under a client rule only client
+// approvals count, so agency approvals are left out (see post_approval_quorum_met)
+export interface ReviewApprovals {
+  needed: number;
+  posts: Record<string, { approverNames: string[]; approvedByYou: boolean }>;
+}
+
+export async function getReviewApprovals(
+  supabase: SupabaseClient,
+  clientId: string,
+  approverKey: string,
+  postIds: string[]
+): Promise<ReviewApprovals> {
+  const { data: client } = await supabase
+    .from('clients')
+    .select('approval_quorum, required_approvers')
+    .eq('id', clientId)
+    .single();
+
+  const requiredCount = (client?.required_approvers as string[] | null)?.length || 0;
+  const needed = Math.max(client?.approval_quorum || 1, requiredCount);
+  const hasRule = (client?.approval_quorum || 1) > 1 || requiredCount > 0;
+  const posts: ReviewApprovals['posts'] = {};
+  if (postIds.length === 0) return { needed, posts };
+
+  const { data, error } = await supabase
+    .from('post_approvals')
+    .select('post_id, approver_key, approver_name, approver_role')
+    .in('post_id', postIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load approvals: ${error.message}`);
+  }
+
+  for (const row of data || []) {
+    if (hasRule && (row.approver_role === 'agency_admin' || row.approver_role === 'agency_editor')) continue;
+    const entry = posts[row.post_id] || (posts[row.post_id] = { approverNames: [], approvedByYou: false });
+    entry.approverNames.push(row.approver_name);
+    if (row.approver_key === approverKey) entry.approvedByYou = true;
+  }
+  return { needed, posts };
+}
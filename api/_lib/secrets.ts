@@ -0,0 +1,130 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { ClientSecretStatus, SecretProvider } from '../../types';
+
+/**
+ * Encrypted client credentials (client_secrets table)
+ * Values are encrypted with AES-256-GCM before they reach the database and
+ * bound to their client + provider, so a ciphertext copied to another row won't decrypt.
+ * getClientSecret is the only decrypt path - keep it to the posting routes.
+ */
+
+const VERSION = 'v1';
+
+const getKey = (): Buffer => {
+  const encoded = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!encoded) {
+    throw new Error('SECRETS_ENCRYPTION_KEY not configured');
+  }
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== 32) {
+    throw new Error('SECRETS_ENCRYPTION_KEY must be 32 bytes, base64 encoded');
+  }
+  return key;
+};
+
+const associatedData = (clientId: string, provider: SecretProvider): Buffer =>
+  Buffer.from(`${clientId}:${provider}`);
+
+function encryptSecret(value: string, clientId: string, provider: SecretProvider): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  cipher.setAAD(associatedData(clientId, provider));
+  const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), data.toString('base64')].join(':');
+}
+
+function decryptSecret(stored: string, clientId: string, provider: SecretProvider): string {
+  const [version, iv, tag, data] = stored.split(':');
+  if (version !== VERSION || !iv || !tag || !data) {
+    throw new Error('Unrecognised secret format');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAAD(associatedData(clientId, provider));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+}
+
+// Masked status for the settings UI - never includes the secret itself
+export async function getSecretStatus(
+  supabase: SupabaseClient,
+  clientId: string,
+  provider: SecretProvider
+): Promise<ClientSecretStatus | null> {
+  const { data } = await supabase
+    .from('client_secrets')
+    .select('provider, token_hint, expires_at, updated_at')
+    .eq('client_id', clientId)
+    .eq('provider', provider)
+    .maybeSingle();
+
+  if (!data) return null;
+
+  return {
+    provider: data.provider as SecretProvider,
+    maskedToken: `••••••••${data.token_hint || ''}`,
+    expiresAt: data.expires_at,
+    updatedAt: data.updated_at,
+  };
+}
+
+// Encrypt and store (or replace) a client's credential
+export async function saveClientSecret(
+  supabase: SupabaseClient,
+  clientId: string,
+  provider: SecretProvider,
+  value: string,
+  expiresAt: string | null,
+  updatedBy: string
+): Promise<void> {
+  const { error } = await supabase.from('client_secrets').upsert(
+    {
+      client_id: clientId,
+      provider,
+      encrypted_value: encryptSecret(value, clientId, provider),
+      token_hint: value.slice(-4),
+      expires_at: expiresAt,
+      updated_by: updatedBy,
+    },
+    { onConflict: 'client_id,provider' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save credentials: ${error.message}`);
+  }
+}
+
+export async function deleteClientSecret(
+  supabase: SupabaseClient,
+  clientId: string,
+  provider: SecretProvider
+): Promise<void> {
+  const { error } = await supabase
+    .from('client_secrets')
+    .delete()
+    .eq('client_id', clientId)
+    .eq('provider', provider);
+
+  if (error) {
+    throw new Error(`Failed to remove credentials: ${error.message}`);
+  }
+}
+
+// Decrypt a client's credential for server-side use
+// Returns null if none is stored
+export async function getClientSecret(
+  supabase: SupabaseClient,
+  clientId: string,
+  provider: SecretProvider
+): Promise<string | null> {
+  const { data } = await supabase
+    .from('client_secrets')
+    .select('encrypted_value')
+    .eq('client_id', clientId)
+    .eq('provider', provider)
+    .maybeSingle();
+
+  if (!data) return null;
+  return decryptSecret(data.encrypted_value, clientId, provider);
+}
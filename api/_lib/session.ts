@@ -0,0 +1,177 @@
+import type { VercelRequest } from '@vercel/node';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Client, User, UserRole } from '../../types';
+
+/**
+ * Session helpers shared by the auth API routes
+ * Sessions are HS256-signed tokens (JWT) that reference a user_sessions row,
+ * so they can be verified without a lookup and still be revoked server-side
+ */
+
+export const SESSION_EXPIRY_DAYS = 30;
+
+const AGENCY_ROLES: UserRole[] = ['agency_admin', 'agency_editor'];
+
+export const isAgencyRole = (role: UserRole): boolean => AGENCY_ROLES.includes(role);
+
+interface SessionClaims {
+  sub: string;        // users.id
+  sid: string;        // user_sessions.id
+  role: 'authenticated';
+  aud: 'authenticated';
+  iat: number;
+  exp: number;
+}
+
+const getSigningSecret = (): string => {
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new Error('SUPABASE_JWT_SECRET not configured');
+  }
+  return secret;
+};
+
+const base64UrlEncode = (value: string | Buffer): string =>
+  Buffer.from(value).toString('base64url');
+
+const sign = (data: string): string =>
+  createHmac('sha256', getSigningSecret()).update(data).digest('base64url');
+
+const signToken = (claims: SessionClaims): string => {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+};
+
+// Check the signature and expiry of a session token
+// Returns the claims, or null if the token is malformed, tampered with or expired
+const verifyToken = (token: string): SessionClaims | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims: SessionClaims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (!claims.sub || !claims.sid || claims.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+// Read the bearer token from the Authorization header
+export const getBearerToken = (req: VercelRequest): string | null => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+};
+
+// Create a new session row and return the signed token for the browser
+export async function createSession(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ token: string; expiresAt: string }> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAtSeconds = issuedAt + SESSION_EXPIRY_DAYS * 24 * 60 * 60;
+  const expiresAt = new Date(expiresAtSeconds * 1000).toISOString();
+
+  const { data: session, error } = await supabase
+    .from('user_sessions')
+    .insert({ user_id: userId, expires_at: expiresAt })
+    .select('id')
+    .single();
+
+  if (error || !session) {
+    throw new Error(`Failed to create session: ${error?.message || 'no session returned'}`);
+  }
+
+  const token = signToken({
+    sub: userId,
+    sid: session.id,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: issuedAt,
+    exp: expiresAtSeconds,
+  });
+
+  return { token, expiresAt };
+}
+
+// Look up the active user behind a session token
+// Returns null for invalid, expired or revoked sessions, or deactivated users
+export async function getSessionUser(
+  supabase: SupabaseClient,
+  token: string
+): Promise<User | null> {
+  const claims = verifyToken(token);
+  if (!claims) return null;
+
+  const { data: session } = await supabase
+    .from('user_sessions')
+    .select('id')
+    .eq('id', claims.sid)
+    .eq('user_id', claims.sub)
+    .single();
+
+  if (!session) return null;
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('id, name, email, role, client_ids, is_active')
+    .eq('id', claims.sub)
+    .single();
+
+  if (!user || !user.is_active) {
+    return null;
+  }
+
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role as UserRole,
+    client_ids: user.client_ids || [],
+  };
+}
+
+// Revoke a single session (logout)
+export async function deleteSession(supabase: SupabaseClient, token: string): Promise<void> {
+  const claims = verifyToken(token);
+  if (!claims) return;
+  await supabase.from('user_sessions').delete().eq('id', claims.sid);
+}
+
+// Integrations and client settings are admin-only
+export const canManageSettings = (role: UserRole): boolean => role === 'agency_admin';
+
+// Whether the user may act on a given client
+export const canAccessClient = (user: User, clientId: string): boolean =>
+  isAgencyRole(user.role) || user.client_ids.includes(clientId);
+
+// Clients the user may access: every client for agency roles, otherwise their assigned clients
+export async function getAccessibleClients(
+  supabase: SupabaseClient,
+  user: User
+): Promise<Client[]> {
+  let query = supabase.from('clients').select('*').order('name');
+
+  if (!isAgencyRole(user.role)) {
+    if (user.client_ids.length === 0) return [];
+    query = query.in('id', user.client_ids);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load clients: ${error.message}`);
+  }
+  return (data || []) as Client[];
+}
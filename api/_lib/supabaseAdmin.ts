@@ -0,0 +1,17 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Server-side Supabase client using the service role key
+ * Bypasses RLS - only import this from serverless API routes, never from browser code
+ */
+export async function getAdminClient(): Promise<SupabaseClient> {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY not configured');
+  }
+
+  const { createClient } = await import('@supabase/supabase-js');
+  return createClient(process.env.VITE_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+}
@@ -0,0 +1,433 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
+import { createReviewLink, buildReviewUrl, getAppOrigin } from './_lib/reviewLinks.js';
+
+/**
+ * Vercel Cron Job - Approval deadline reminders
+ * Posts should be approved approval_lead_days before their date. Each client
+ * contact gets one digest of posts nearing (within 2 days) or past that
+ * deadline, with a review link to approve them; missed deadlines are escalated
+ * to the agency inbox. Every reminder is sent once per post and deadline
+ * (approval_reminders), so the job can run as often as needed.
+ * Runs daily in the morning (Sydney time)
+ */
+
+// Keep in sync with DEFAULT_APPROVAL_LEAD_DAYS / APPROVAL_AT_RISK_DAYS in services/approvalService.ts
+const DEFAULT_APPROVAL_LEAD_DAYS = 3;
+const APPROVAL_AT_RISK_DAYS = 2;
+const DEFAULT_TIMEZONE = 'Australia/Sydney';
+
+const FROM_ADDRESS = 'Light Dust Content Manager <notifications@seammedia.com.au>';
+const AGENCY_INBOX = 'contact@seammedia.com.au';
+
+type ReminderKind = 'due_soon' | 'overdue' | 'escalated';
+
+interface ReminderClient {
+  id: string;
+  name: string;
+  brand_name: string | null;
+  contact_name: string | null;
+  contact_email: string | null;
+  approval_lead_days: number | null;
+  timezone: string | null;
+  is_agency: boolean | null;
+}
+
+interface AwaitingPost {
+  id: string;
+  client_id: string;
+  title: string | null;
+  date: string;
+  generated_caption: string | null;
+}
+
+interface DuePost extends AwaitingPost {
+  deadline: string;
+  overdue: boolean;
+}
+
+// YYYY-MM-DD moved by a number of days
+const shiftDate = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+// Today's date on the client's wall clock
+const getToday = (timeZone: string): string => {
+  try {
+    return new Date().toLocaleDateString('en-CA', { timeZone });
+  } catch {
+    return new Date().toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE });
+  }
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify this is a cron job request (Vercel adds this header)
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // Also allow manual trigger with the secret
+    if (req.query.secret !== process.env.CRON_SECRET) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+  }
+
+  const resendApiKey = process.env.RESEND_API_KEY;
+  if (!resendApiKey) {
+    console.error('RESEND_API_KEY not configured');
+    return res.status(500).json({ error: 'Email service not configured' });
+  }
+
+  try {
+    // Service role - every client's posts regardless of RLS
+    const supabase = await getAdminClient();
+
+    const { data: clientData, error: clientsError } = await supabase
+      .from('clients')
+      .select('id, name, brand_name, contact_name, contact_email, approval_lead_days, timezone, is_agency');
+
+    if (clientsError) {
+      console.error('Error fetching clients:', clientsError);
+      return res.status(500).json({ error: 'Failed to fetch clients' });
+    }
+
+    const clients = ((clientData || []) as ReminderClient[])
+      .filter(client => !client.is_agency && (client.approval_lead_days ?? DEFAULT_APPROVAL_LEAD_DAYS) > 0);
+    if (clients.length === 0) {
+      return res.status(200).json({ message: 'No clients with approval deadlines' });
+    }
+
+    // Posts waiting on the client whose date hasn't passed (from yesterday UTC, for zones ahead of UTC)
+    const { data: postData, error: postsError } = await supabase
+      .from('posts')
+      .select('id, client_id, title, date, generated_caption')
+      .in('client_id', clients.map(client => client.id))
+      .eq('status', 'For Approval')
+      .is('deleted_at', null)
+      .gte('date', shiftDate(new Date().toISOString().split('T')[0], -1))
+      .order('date', { ascending: true });
+
+    if (postsError) {
+      console.error('Error fetching posts:', postsError);
+      return res.status(500).json({ error: 'Failed to fetch posts' });
+    }
+
+    const posts = (postData || []) as AwaitingPost[];
+    if (posts.length === 0) {
+      return res.status(200).json({ message: 'No posts awaiting approval' });
+    }
+
+    const { data: sentData, error: sentError } = await supabase
+      .from('approval_reminders')
+      .select('post_id, kind, deadline')
+      .in('post_id', posts.map(post => post.id));
+
+    if (sentError) {
+      console.error('Error fetching sent reminders:', sentError);
+      return res.status(500).json({ error: 'Failed to fetch sent reminders' });
+    }
+
+    const sent = new Set((sentData || []).map(row => `${row.post_id}|${row.kind}|${row.deadline}`));
+    const wasSent = (post: DuePost, kind: ReminderKind) => sent.has(`${post.id}|${kind}|${post.deadline}`);
+
+    const origin = getAppOrigin(req);
+    const escalations: { client: ReminderClient; posts: DuePost[]; clientReminded: boolean }[] = [];
+    let clientEmails = 0;
+    let remindedPosts = 0;
+
+    for (const client of clients) {
+      const today = getToday(client.timezone || DEFAULT_TIMEZONE);
+      const leadDays = client.approval_lead_days ?? DEFAULT_APPROVAL_LEAD_DAYS;
+      const atRiskFrom = shiftDate(today, APPROVAL_AT_RISK_DAYS);
+
+      const due = posts
+        .filter(post => post.client_id === client.id && post.date >= today)
+        .map(post => {
+          const deadline = shiftDate(post.date, -leadDays);
+          return { ...post, deadline, overdue: deadline < today };
+        })
+        .filter(post => post.overdue || post.deadline <= atRiskFrom);
+
+      if (due.length === 0) continue;
+
+      // 1. Digest to the client contact - posts not yet reminded at this stage
+      const toRemind = due.filter(post => !wasSent(post, post.overdue ? 'overdue' : 'due_soon'));
+      let clientReminded = false;
+
+      if (toRemind.length > 0 && client.contact_email) {
+        const reviewUrls = await createMonthLinks(supabase, client, toRemind, origin);
+        const clientName = client.brand_name || client.name;
+        const overdueCount = toRemind.filter(post => post.overdue).length;
+
+        const ok = await sendEmail(resendApiKey, {
+          to: client.contact_email,
+          subject: overdueCount > 0
+            ? `${clientName}: ${overdueCount} post${overdueCount > 1 ? 's are' : ' is'} past the approval deadline`
+            : `${clientName}: ${toRemind.length} post${toRemind.length > 1 ? 's' : ''} to approve soon`,
+          html: buildClientEmailHtml(client, toRemind, reviewUrls),
+          text: buildClientEmailText(client, toRemind, reviewUrls),
+        });
+
+        if (ok) {
+          clientEmails++;
+          remindedPosts += toRemind.length;
+          clientReminded = true;
+          await recordReminders(supabase, toRemind.map(post => ({ post, kind: post.overdue ? 'overdue' : 'due_soon' })));
+        }
+      }
+
+      // 2. Missed deadlines go to the agency as well
+      const toEscalate = due.filter(post => post.overdue && !wasSent(post, 'escalated'));
+      if (toEscalate.length > 0) {
+        escalations.push({ client, posts: toEscalate, clientReminded: clientReminded || toEscalate.every(post => wasSent(post, 'overdue')) });
+      }
+    }
+
+    let escalatedPosts = 0;
+    if (escalations.length > 0) {
+      escalatedPosts = escalations.reduce((total, entry) => total + entry.posts.length, 0);
+      const ok = await sendEmail(resendApiKey, {
+        to: AGENCY_INBOX,
+        subject: `Missed approval deadlines (${escalatedPosts} post${escalatedPosts > 1 ? 's' : ''})`,
+        html: buildEscalationHtml(escalations),
+        text: buildEscalationText(escalations),
+      });
+
+      if (ok) {
+        await recordReminders(supabase, escalations.flatMap(entry => entry.posts.map(post => ({ post, kind: 'escalated' as const }))));
+      } else {
+        escalatedPosts = 0;
+      }
+    }
+
+    return res.status(200).json({
+      success: true,
+      clientEmails,
+      remindedPosts,
+      escalatedPosts,
+    });
+
+  } catch (error) {
+    console.error('Approval reminder error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+async function recordReminders(
+  supabase: SupabaseClient,
+  reminders: { post: DuePost; kind: ReminderKind }[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('approval_reminders')
+    .upsert(
+      reminders.map(({ post, kind }) => ({ post_id: post.id, kind, deadline: post.deadline })),
+      { onConflict: 'post_id,kind,deadline', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error('Error recording reminders:', error);
+  }
+}
+
+// One review link per month the reminded posts fall in (YYYY-MM -> URL)
+async function createMonthLinks(
+  supabase: SupabaseClient,
+  client: ReminderClient,
+  posts: DuePost[],
+  origin: string
+): Promise<Record<string, string>> {
+  const urls: Record<string, string> = {};
+  for (const month of new Set(posts.map(post => post.date.slice(0, 7)))) {
+    try {
+      const { token } = await createReviewLink(supabase, {
+        clientId: client.id,
+        month,
+        recipientName: client.contact_name || undefined,
+        recipientEmail: client.contact_email || undefined,
+      });
+      urls[month] = buildReviewUrl(origin, token);
+    } catch (error) {
+      // The reminder still goes out, just without a link for this month
+      console.error('Error creating review link:', error);
+    }
+  }
+  return urls;
+}
+
+async function sendEmail(apiKey: string, email: { to: string; subject: string; html: string; text: string }): Promise<boolean> {
+  const emailResponse = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: FROM_ADDRESS,
+      to: [email.to],
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    }),
+  });
+
+  if (!emailResponse.ok) {
+    const errorData = await emailResponse.json().catch(() => ({}));
+    console.error('Resend error:', errorData);
+    return false;
+  }
+  return true;
+}
+
+function formatDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-AU', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function describePost(post: DuePost): string {
+  return post.title || post.generated_caption?.substring(0, 60) || 'Untitled post';
+}
+
+function describeDeadline(post: DuePost): string {
+  return post.overdue
+    ? `Approval was due ${formatDate(post.deadline)}`
+    : `Please approve by ${formatDate(post.deadline)}`;
+}
+
+const EMAIL_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+  .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+  h1 { color: #2c3e50; border-bottom: 2px solid #3498db; padding-bottom: 10px; }
+  h2 { color: #3498db; margin-top: 30px; }
+  .post { background: #f8f9fa; border-left: 4px solid #f39c12; padding: 15px; margin: 15px 0; border-radius: 4px; }
+  .post.overdue { border-left-color: #e74c3c; }
+  .post-date { color: #666; font-size: 14px; }
+  .deadline { font-weight: bold; color: #e67e22; }
+  .overdue .deadline { color: #e74c3c; }
+  .button { display: inline-block; background: #2d6a4f; color: #fff !important; padding: 10px 18px; border-radius: 6px; text-decoration: none; margin: 6px 0; }
+  .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; color: #666; font-size: 12px; }
+`;
+
+function buildClientEmailHtml(client: ReminderClient, posts: DuePost[], reviewUrls: Record<string, string>): string {
+  const greeting = client.contact_name ? `Hi ${escapeHtml(client.contact_name)},` : 'Hi,';
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head><style>${EMAIL_STYLES}</style></head>
+    <body>
+      <div class="container">
+        <h1>Posts waiting for your approval</h1>
+        <p>${greeting}</p>
+        <p>These posts need your approval so they can go out on time:</p>
+        ${posts.map(post => `
+          <div class="post${post.overdue ? ' overdue' : ''}">
+            <strong>${escapeHtml(describePost(post))}</strong>
+            <div class="post-date">📅 Goes out ${formatDate(post.date)}</div>
+            <div class="deadline">${describeDeadline(post)}</div>
+          </div>
+        `).join('')}
+        ${Object.entries(reviewUrls).map(([month, url]) => `
+          <p><a class="button" href="${url}">Review ${formatMonth(month)} posts</a></p>
+        `).join('')}
+        <div class="footer">
+          <p>This is an automated reminder from Light Dust Content Manager.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function buildClientEmailText(client: ReminderClient, posts: DuePost[], reviewUrls: Record<string, string>): string {
+  let text = `${client.contact_name ? `Hi ${client.contact_name},` : 'Hi,'}\n\n`;
+  text += 'These posts need your approval so they can go out on time:\n\n';
+
+  for (const post of posts) {
+    text += `${describePost(post)}\n`;
+    text += `Goes out ${formatDate(post.date)} - ${describeDeadline(post)}\n\n`;
+  }
+  for (const [month, url] of Object.entries(reviewUrls)) {
+    text += `Review ${formatMonth(month)} posts: ${url}\n`;
+  }
+
+  text += '\n---\n';
+  text += 'This is an automated reminder from Light Dust Content Manager.\n';
+
+  return text;
+}
+
+function buildEscalationHtml(escalations: { client: ReminderClient; posts: DuePost[]; clientReminded: boolean }[]): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head><style>${EMAIL_STYLES}</style></head>
+    <body>
+      <div class="container">
+        <h1>Missed Approval Deadlines</h1>
+        <p>These posts are still waiting for client approval after their deadline:</p>
+        ${escalations.map(({ client, posts, clientReminded }) => `
+          <h2>${escapeHtml(client.name)}</h2>
+          <p class="post-date">${clientReminded
+            ? `Reminder sent to ${escapeHtml(client.contact_email || '')}`
+            : client.contact_email ? 'The client reminder could not be sent' : 'No client contact email - the client has not been reminded'}</p>
+          ${posts.map(post => `
+            <div class="post overdue">
+              <strong>${escapeHtml(describePost(post))}</strong>
+              <div class="post-date">📅 Goes out ${formatDate(post.date)}</div>
+              <div class="deadline">${describeDeadline(post)}</div>
+            </div>
+          `).join('')}
+        `).join('')}
+        <div class="footer">
+          <p>This is an automated notification from Light Dust Content Manager.</p>
+          <p><a href="https://seam-media-content-manager.vercel.app">Open Content Manager</a></p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+function buildEscalationText(escalations: { client: ReminderClient; posts: DuePost[]; clientReminded: boolean }[]): string {
+  let text = 'MISSED APPROVAL DEADLINES\n\n';
+  text += 'These posts are still waiting for client approval after their deadline:\n\n';
+
+  for (const { client, posts, clientReminded } of escalations) {
+    text += `--- ${client.name} ---\n`;
+    text += clientReminded
+      ? `Reminder sent to ${client.contact_email}\n\n`
+      : client.contact_email ? 'The client reminder could not be sent\n\n' : 'No client contact email - the client has not been reminded\n\n';
+    for (const post of posts) {
+      text += `${describePost(post)}\n`;
+      text += `Goes out ${formatDate(post.date)} - ${describeDeadline(post)}\n\n`;
+    }
+  }
+
+  text += '---\n';
+  text += 'This is an automated notification from Light Dust Content Manager.\n';
+  text += 'https://seam-media-content-manager.vercel.app\n';
+
+  return text;
+}
+
+function formatMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString('en-AU', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;')
+    .replace(/\n/g, '<br>');
+}
@@ -1,15 +1,28 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
 
 /**
- * Vercel Serverless Function - Cleanup old images from Supabase Storage
- * Deletes images for posts that have been "Posted" for more than 60 days
+ * Vercel Serverless Function - Remove media of deleted posts from Supabase Storage
+ * 1. Purges posts that have been in the trash for more than 30 days
+ * 2. Deletes the storage files queued for purged posts (media_cleanup_queue),
+ *    skipping any file another post (live or trashed) still uses
+ *
+ * Live posts are never touched - only media of posts removed for good.
  *
  * This can be called via a cron job or manually
  * Set up a Vercel Cron to run daily: vercel.json -> crons
  */
 
-const CLEANUP_AFTER_DAYS = 60;
+// Keep in sync with TRASH_RETENTION_DAYS in services/trashService.ts
+const TRASH_RETENTION_DAYS = 30;
 const BUCKET_NAME = 'post-images';
+const QUEUE_BATCH_SIZE = 500;
+
+interface QueuedMedia {
+  id: number;
+  client_id: string | null;
+  url: string;
+}
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Allow GET for cron jobs, POST for manual triggers
@@ -17,84 +30,125 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Verify this is a cron job request (Vercel adds this header)
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // Also allow manual trigger with secret
+    if (req.query.secret !== process.env.CRON_SECRET) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+  }
+
   try {
-    const { createClient } = await import('@supabase/supabase-js');
-    const supabase = createClient(
-      process.env.VITE_SUPABASE_URL!,
-      process.env.VITE_SUPABASE_ANON_KEY!
-    );
-
-    // Calculate the cutoff date (60 days ago)
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - CLEANUP_AFTER_DAYS);
-
-    // Find posts that are "Posted" and older than 60 days with image URLs
-    const { data: oldPosts, error: fetchError } = await supabase
+    const supabase = await getAdminClient();
+
+    // 1. Purge posts trashed before the cutoff - the delete trigger queues their media
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: purged, error: purgeError } = await supabase
       .from('posts')
-      .select('id, imageUrl, date, status')
-      .eq('status', 'Posted')
-      .lt('date', cutoffDate.toISOString().split('T')[0])
-      .not('imageUrl', 'is', null);
-
-    if (fetchError) {
-      console.error('Error fetching old posts:', fetchError);
-      return res.status(500).json({ error: 'Failed to fetch old posts' });
+      .delete()
+      .not('deleted_at', 'is', null)
+      .lt('deleted_at', cutoff)
+      .select('id');
+
+    if (purgeError) {
+      console.error('Error purging expired trash:', purgeError);
+      return res.status(500).json({ error: 'Failed to purge expired trash' });
+    }
+
+    // 2. Files queued by purges (from the trash view or step 1)
+    const { data: queueData, error: queueError } = await supabase
+      .from('media_cleanup_queue')
+      .select('id, client_id, url')
+      .order('queued_at', { ascending: true })
+      .limit(QUEUE_BATCH_SIZE);
+
+    if (queueError) {
+      console.error('Error fetching cleanup queue:', queueError);
+      return res.status(500).json({ error: 'Failed to fetch cleanup queue' });
     }
 
-    if (!oldPosts || oldPosts.length === 0) {
+    const queued = (queueData || []) as QueuedMedia[];
+    if (queued.length === 0) {
       return res.status(200).json({
-        message: 'No old images to clean up',
+        message: 'No media to clean up',
+        purged: purged?.length || 0,
         deleted: 0
       });
     }
 
-    let deletedCount = 0;
-    const errors: string[] = [];
-
-    for (const post of oldPosts) {
-      // Only process Supabase Storage URLs
-      if (!post.imageUrl || !post.imageUrl.includes('supabase')) {
-        continue;
+    // Duplicated posts share files, so keep anything still referenced by a remaining post
+    const clientIds = [...new Set(queued.map(item => item.client_id).filter((id): id is string => !!id))];
+    const inUse = new Set<string>();
+    if (clientIds.length > 0) {
+      const { data: remaining, error: remainingError } = await supabase
+        .from('posts')
+        .select('image_url, media_items')
+        .in('client_id', clientIds);
+
+      if (remainingError) {
+        console.error('Error fetching remaining posts:', remainingError);
+        return res.status(500).json({ error: 'Failed to check remaining posts' });
       }
 
-      try {
-        // Extract the file path from the URL
-        // URL format: https://xxx.supabase.co/storage/v1/object/public/post-images/clientId/filename.jpg
-        const urlParts = post.imageUrl.split(`/storage/v1/object/public/${BUCKET_NAME}/`);
-        if (urlParts.length !== 2) {
-          continue;
+      for (const post of remaining || []) {
+        if (post.image_url) inUse.add(post.image_url as string);
+        for (const item of (post.media_items as { url: string }[] | null) || []) {
+          inUse.add(item.url);
         }
+      }
+    }
 
-        const filePath = urlParts[1];
+    // Only process Supabase Storage URLs
+    // URL format: https://xxx.supabase.co/storage/v1/object/public/post-images/clientId/filename.jpg
+    const toPath = (url: string): string | null => {
+      const urlParts = url.split(`/storage/v1/object/public/${BUCKET_NAME}/`);
+      return urlParts.length === 2 ? urlParts[1] : null;
+    };
 
-        // Delete the file from storage
-        const { error: deleteError } = await supabase.storage
-          .from(BUCKET_NAME)
-          .remove([filePath]);
+    const removable = queued.filter(item => !inUse.has(item.url) && toPath(item.url));
+    const filePaths = [...new Set(removable.map(item => toPath(item.url)!))];
 
-        if (deleteError) {
-          console.error(`Failed to delete ${filePath}:`, deleteError);
-          errors.push(filePath);
-        } else {
-          deletedCount++;
+    let deletedCount = 0;
+    const errors: string[] = [];
 
-          // Clear the imageUrl from the post (optional - keeps record clean)
-          await supabase
-            .from('posts')
-            .update({ imageUrl: null })
-            .eq('id', post.id);
-        }
-      } catch (error) {
-        console.error(`Error processing post ${post.id}:`, error);
-        errors.push(post.id);
+    if (filePaths.length > 0) {
+      const { error: deleteError } = await supabase.storage
+        .from(BUCKET_NAME)
+        .remove(filePaths);
+
+      if (deleteError) {
+        console.error('Failed to delete media:', deleteError);
+        errors.push(...filePaths);
+      } else {
+        deletedCount = filePaths.length;
+      }
+    }
+
+    // Done with every entry except files that failed to delete (retried next run)
+    const doneIds = queued
+      .filter(item => errors.length === 0 || !removable.includes(item))
+      .map(item => item.id);
+
+    if (doneIds.length > 0) {
+      const { error: dequeueError } = await supabase
+        .from('media_cleanup_queue')
+        .delete()
+        .in('id', doneIds);
+
+      if (dequeueError) {
+        console.error('Error clearing cleanup queue:', dequeueError);
       }
     }
 
     return res.status(200).json({
       message: `Cleanup complete`,
+      purged: purged?.length || 0,
       deleted: deletedCount,
+      skippedInUse: queued.length - removable.length,
       errors: errors.length > 0 ? errors : undefined,
-      totalProcessed: oldPosts.length
+      totalProcessed: queued.length
     });
 
   } catch (error) {
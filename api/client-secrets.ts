@@ -0,0 +1,102 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
+import { getBearerToken, getSessionUser, canManageSettings } from './_lib/session.js';
+import { getSecretStatus, saveClientSecret, deleteClientSecret } from './_lib/secrets.js';
+import type { SecretProvider } from '../types';
+
+/**
+ * Vercel Serverless Function - Manage encrypted client credentials
+ * Write-only: tokens can be saved or removed, but only a masked status is ever returned
+ * GET    ?clientId=&provider=  -> masked token + expiry
+ * PUT    { clientId, provider, token } -> verify, encrypt and store
+ * DELETE ?clientId=&provider=  -> remove
+ * Agency admins only
+ */
+
+interface SaveSecretRequest {
+  clientId: string;
+  provider: SecretProvider;
+  token: string;
+}
+
+const PROVIDERS: SecretProvider[] = ['meta'];
+
+const FACEBOOK_API_VERSION = 'v18.0';
+const GRAPH_API_BASE = `https://graph.facebook.com/${FACEBOOK_API_VERSION}`;
+
+/**
+ * Ask Meta whether the token is valid and when it expires
+ */
+async function inspectMetaToken(token: string): Promise<{ valid: boolean; expiresAt: string | null; error?: string }> {
+  const params = new URLSearchParams({ input_token: token, access_token: token });
+  const response = await fetch(`${GRAPH_API_BASE}/debug_token?${params}`);
+  const data = await response.json();
+
+  if (!response.ok || !data.data?.is_valid) {
+    return {
+      valid: false,
+      expiresAt: null,
+      error: data.error?.message || data.data?.error?.message || 'Token is not valid',
+    };
+  }
+
+  // expires_at = 0 means the token never expires
+  const expiresAt = data.data.expires_at ? new Date(data.data.expires_at * 1000).toISOString() : null;
+  return { valid: true, expiresAt };
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const supabase = await getAdminClient();
+
+    const token = getBearerToken(req);
+    const user = token ? await getSessionUser(supabase, token) : null;
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    if (!canManageSettings(user.role)) {
+      return res.status(403).json({ error: 'Only agency admins can manage credentials' });
+    }
+
+    const params = req.method === 'PUT' ? (req.body || {}) as SaveSecretRequest : req.query;
+    const clientId = String(params.clientId || '');
+    const provider = String(params.provider || '') as SecretProvider;
+
+    if (!clientId || !PROVIDERS.includes(provider)) {
+      return res.status(400).json({ error: 'clientId and a valid provider are required' });
+    }
+
+    if (req.method === 'GET') {
+      const status = await getSecretStatus(supabase, clientId, provider);
+      return res.status(200).json({ status });
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteClientSecret(supabase, clientId, provider);
+      return res.status(200).json({ success: true });
+    }
+
+    const value = ((req.body as SaveSecretRequest).token || '').trim();
+    if (!value) {
+      return res.status(400).json({ error: 'Token is required' });
+    }
+
+    const inspection = await inspectMetaToken(value);
+    if (!inspection.valid) {
+      return res.status(400).json({ error: `Meta rejected this token: ${inspection.error}` });
+    }
+
+    await saveClientSecret(supabase, clientId, provider, value, inspection.expiresAt, user.id);
+    const status = await getSecretStatus(supabase, clientId, provider);
+    return res.status(200).json({ status });
+  } catch (error) {
+    console.error('Client secrets error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -8,12 +8,11 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 const LATE_API_BASE = 'https://getlate.dev/api/v1';
 
 interface SchedulePostRequest {
-  platforms: { platform: string; accountId: string }[];
-  content: string;
-  mediaUrls?: string[];
-  mediaType?: 'image' | 'video'; // Media type for the post
-  scheduledFor: string;
-  timezone?: string;
+  platforms: { platform: string; accountId: string; customContent?: string }[]; // Per-platform caption
+  content: string; // Fallback caption for platforms without customContent
+  mediaItems?: { url: string; type: 'image' | 'video' }[]; // Ordered - more than one is a carousel
+  scheduledFor: string; // Wall-clock date-time without offset, read in `timezone`
+  timezone?: string; // Client's IANA timezone
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -29,7 +28,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { platforms, content, mediaUrls, mediaType, scheduledFor, timezone } = req.body as SchedulePostRequest;
+    const { platforms, content, mediaItems, scheduledFor, timezone } = req.body as SchedulePostRequest;
 
     // Validate required fields
     if (!platforms || !content || !scheduledFor) {
@@ -38,7 +37,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // Check if Instagram is in the platforms and validate media is provided
     const hasInstagram = platforms.some(p => p.platform === 'instagram');
-    const hasValidMedia = mediaUrls && mediaUrls.length > 0 && mediaUrls.some(url => url && !url.startsWith('data:'));
+    // Filter out base64 data URLs as Late API needs public URLs
+    const publicItems = (mediaItems || []).filter(item => item.url && !item.url.startsWith('data:'));
+    const hasValidMedia = publicItems.length > 0;
 
     if (hasInstagram && !hasValidMedia) {
       return res.status(400).json({ error: 'Instagram posts require media content (images or videos)' });
@@ -49,23 +50,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       platforms,
       content,
       scheduledFor,
-      timezone: timezone || 'Australia/Sydney', // Default timezone
+      timezone: timezone || 'Australia/Sydney', // Default client timezone (see services/scheduleService.ts)
       publishNow: false,
       isDraft: false,
     };
 
     // Add media items if provided (Late expects mediaItems array with type and url)
-    if (mediaUrls && mediaUrls.length > 0) {
-      // Filter out base64 data URLs as Late API needs public URLs
-      const publicUrls = mediaUrls.filter(url => !url.startsWith('data:'));
-      if (publicUrls.length > 0) {
-        // Use the provided mediaType, or default to 'image'
-        const type = mediaType || 'image';
-        requestBody.mediaItems = publicUrls.map(url => ({
-          type: type,
-          url: url,
-        }));
-      }
+    // Several items are published as a carousel, in the order given
+    if (publicItems.length > 0) {
+      requestBody.mediaItems = publicItems.map(item => ({
+        type: item.type || 'image',
+        url: item.url,
+      }));
     }
 
     console.log('Late API schedule request:', JSON.stringify(requestBody, null, 2));
@@ -102,7 +98,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       data = { success: true };
     }
 
-    return res.status(200).json(data);
+    // Late nests the created post - surface its id so the post can be tracked to Published/Failed
+    const id = data.post?._id || data.post?.id || data._id || data.id;
+
+    return res.status(200).json({ ...data, id });
   } catch (error) {
     console.error('Late API schedule error:', error);
     return res.status(500).json({
@@ -0,0 +1,152 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
+import { createSession, getAccessibleClients, isAgencyRole } from './_lib/session.js';
+import type { User, UserRole } from '../types';
+
+/**
+ * Vercel Serverless Function - Log in with email + PIN
+ * Verifies the hashed PIN server-side, rate-limits by IP, locks accounts
+ * after repeated failures and issues a signed session token
+ */
+
+interface LoginRequest {
+  email: string;
+  pin: string;
+}
+
+// Per-account lockout
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+// Per-IP rate limit (failed attempts across all accounts)
+const MAX_FAILED_ATTEMPTS_PER_IP = 20;
+const IP_WINDOW_MINUTES = 15;
+
+const getClientIp = (req: VercelRequest): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = Array.isArray(forwarded) ? forwarded[0] : forwarded?.split(',')[0];
+  return first?.trim() || req.socket?.remoteAddress || 'unknown';
+};
+
+async function recordAttempt(
+  supabase: SupabaseClient,
+  ipAddress: string,
+  email: string,
+  succeeded: boolean
+): Promise<void> {
+  await supabase.from('login_attempts').insert({ ip_address: ipAddress, email, succeeded });
+
+  // Prune old attempts so the table stays small
+  const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+  await supabase.from('login_attempts').delete().lt('attempted_at', dayAgo);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { email, pin } = (req.body || {}) as LoginRequest;
+
+  if (!email || !pin) {
+    return res.status(400).json({ error: 'Email and PIN are required' });
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  const ipAddress = getClientIp(req);
+
+  try {
+    const supabase = await getAdminClient();
+
+    // Rate limit by IP before touching any account
+    const windowStart = new Date(Date.now() - IP_WINDOW_MINUTES * 60 * 1000).toISOString();
+    const { count: recentFailures } = await supabase
+      .from('login_attempts')
+      .select('id', { count: 'exact', head: true })
+      .eq('ip_address', ipAddress)
+      .eq('succeeded', false)
+      .gte('attempted_at', windowStart);
+
+    if ((recentFailures || 0) >= MAX_FAILED_ATTEMPTS_PER_IP) {
+      res.setHeader('Retry-After', String(IP_WINDOW_MINUTES * 60));
+      return res.status(429).json({ error: 'Too many login attempts. Please try again later.' });
+    }
+
+    const { data: account } = await supabase
+      .from('users')
+      .select('id, name, email, role, client_ids, is_active, failed_login_attempts, locked_until')
+      .eq('email', normalizedEmail)
+      .single();
+
+    // A locked account isn't checked at all - and answers like a wrong PIN, so a
+    // lockout doesn't reveal that the email has an account (the IP limit throttles)
+    const isLocked = !!account?.locked_until && new Date(account.locked_until).getTime() > Date.now();
+
+    let pinMatches = false;
+    if (account && !isLocked) {
+      const { data, error } = await supabase.rpc('check_user_pin', {
+        p_user_id: account.id,
+        p_pin: pin,
+      });
+      if (error) {
+        throw new Error(`PIN check failed: ${error.message}`);
+      }
+      pinMatches = data === true;
+    }
+
+    // Same response for unknown email, wrong PIN, locked and deactivated accounts
+    if (!account || !account.is_active || isLocked || !pinMatches) {
+      await recordAttempt(supabase, ipAddress, normalizedEmail, false);
+
+      if (account && !isLocked && !pinMatches) {
+        const failedAttempts = (account.failed_login_attempts || 0) + 1;
+        const lockedOut = failedAttempts >= MAX_FAILED_ATTEMPTS;
+        await supabase
+          .from('users')
+          .update({
+            failed_login_attempts: lockedOut ? 0 : failedAttempts,
+            locked_until: lockedOut
+              ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString()
+              : null,
+          })
+          .eq('id', account.id);
+      }
+
+      return res.status(401).json({ error: 'Incorrect email or PIN' });
+    }
+
+    const user: User = {
+      id: account.id,
+      name: account.name,
+      email: account.email,
+      role: account.role as UserRole,
+      client_ids: account.client_ids || [],
+    };
+
+    const clients = await getAccessibleClients(supabase, user);
+    if (!isAgencyRole(user.role) && clients.length === 0) {
+      return res.status(403).json({ error: 'No clients are assigned to this account' });
+    }
+
+    const { token, expiresAt } = await createSession(supabase, user.id);
+
+    await supabase
+      .from('users')
+      .update({
+        failed_login_attempts: 0,
+        locked_until: null,
+        last_login_at: new Date().toISOString(),
+      })
+      .eq('id', user.id);
+    await recordAttempt(supabase, ipAddress, normalizedEmail, true);
+
+    return res.status(200).json({ token, expiresAt, user, clients });
+  } catch (error) {
+    console.error('Login error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -1,23 +1,36 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
 
 /**
- * Vercel Cron Job - Check for client notes and send email notification
+ * Vercel Cron Job - Email new unresolved post comments
+ * Client comments go to the agency inbox; @mentioned staff get their own email.
+ * Internal (agency-only) notes are only ever sent to the staff they mention.
  * Runs every 20 minutes to batch notifications
  */
 
-interface PostWithNotes {
+interface NewComment {
   id: string;
-  date: string;
-  notes: string;
-  notes_updated_at: string;
-  generated_caption: string | null;
-  client_id: string;
+  post_id: string;
+  body: string;
+  author_name: string;
+  author_role: string;
+  mentions: string[];
+  internal: boolean;
+  created_at: string;
+  posts: {
+    date: string;
+    generated_caption: string | null;
+  } | null;
   clients: {
     name: string;
     brand_name: string;
-  };
+  } | null;
 }
 
+const AGENCY_ROLES = ['agency_admin', 'agency_editor'];
+const FROM_ADDRESS = 'Light Dust Content Manager <notifications@seammedia.com.au>';
+const AGENCY_INBOX = 'contact@seammedia.com.au';
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Check for test mode (bypasses 20-min delay)
   const isTestMode = req.query.test === 'true';
@@ -32,66 +45,54 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    // Import Supabase
-    const { createClient } = await import('@supabase/supabase-js');
-    const supabase = createClient(
-      process.env.VITE_SUPABASE_URL!,
-      process.env.VITE_SUPABASE_ANON_KEY!
-    );
-
-    // Find posts with notes that haven't been notified yet
-    // Only get notes updated more than 20 minutes ago (to allow batching)
+    // Service role - reads every client's comments regardless of RLS
+    const supabase = await getAdminClient();
+
+    // Find unresolved comments that haven't been notified yet
+    // Only get comments more than 20 minutes old (to allow batching, and to skip ones resolved quickly)
     // In test mode, skip the time filter
     const twentyMinutesAgo = new Date(Date.now() - 20 * 60 * 1000).toISOString();
 
     let query = supabase
-      .from('posts')
+      .from('post_comments')
       .select(`
         id,
-        date,
-        notes,
-        notes_updated_at,
-        generated_caption,
-        client_id,
+        post_id,
+        body,
+        author_name,
+        author_role,
+        mentions,
+        internal,
+        created_at,
+        posts (
+          date,
+          generated_caption
+        ),
         clients (
           name,
           brand_name
         )
       `)
-      .eq('notes_notified', false)
-      .not('notes', 'is', null)
-      .not('notes', 'eq', '');
+      .eq('notified', false)
+      .eq('resolved', false);
 
     // Only apply time filter if not in test mode
     if (!isTestMode) {
-      query = query.lt('notes_updated_at', twentyMinutesAgo);
+      query = query.lt('created_at', twentyMinutesAgo);
     }
 
-    const { data: posts, error: postsError } = await query.order('notes_updated_at', { ascending: true });
+    const { data, error: commentsError } = await query.order('created_at', { ascending: true });
 
-    if (postsError) {
-      console.error('Error fetching posts:', postsError);
-      return res.status(500).json({ error: 'Failed to fetch posts' });
+    if (commentsError) {
+      console.error('Error fetching comments:', commentsError);
+      return res.status(500).json({ error: 'Failed to fetch comments' });
     }
 
-    if (!posts || posts.length === 0) {
-      return res.status(200).json({ message: 'No new notes to notify' });
+    const comments = (data || []) as unknown as NewComment[];
+    if (comments.length === 0) {
+      return res.status(200).json({ message: 'No new comments to notify' });
     }
 
-    // Group posts by client
-    const postsByClient = (posts as unknown as PostWithNotes[]).reduce((acc, post) => {
-      const clientName = post.clients?.name || 'Unknown Client';
-      if (!acc[clientName]) {
-        acc[clientName] = [];
-      }
-      acc[clientName].push(post);
-      return acc;
-    }, {} as Record<string, PostWithNotes[]>);
-
-    // Build email content
-    const emailHtml = buildEmailHtml(postsByClient);
-    const emailText = buildEmailText(postsByClient);
-
     // Send email via Resend
     const resendApiKey = process.env.RESEND_API_KEY;
     if (!resendApiKey) {
@@ -99,42 +100,75 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(500).json({ error: 'Email service not configured' });
     }
 
-    const emailResponse = await fetch('https://api.resend.com/emails', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${resendApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        from: 'Light Dust Content Manager <notifications@seammedia.com.au>',
-        to: ['contact@seammedia.com.au'],
-        subject: `New Client Notes (${posts.length} post${posts.length > 1 ? 's' : ''})`,
-        html: emailHtml,
-        text: emailText,
-      }),
-    });
-
-    if (!emailResponse.ok) {
-      const errorData = await emailResponse.json();
-      console.error('Resend error:', errorData);
-      return res.status(500).json({ error: 'Failed to send email' });
+    // 1. Client comments -> agency inbox
+    const clientComments = comments.filter(c => !c.internal && !AGENCY_ROLES.includes(c.author_role));
+    if (clientComments.length > 0) {
+      const byClient = groupByClient(clientComments);
+      const sent = await sendEmail(resendApiKey, {
+        to: AGENCY_INBOX,
+        subject: `New Client Comments (${clientComments.length} comment${clientComments.length > 1 ? 's' : ''})`,
+        html: buildEmailHtml('New Client Comments', 'The following posts have new client feedback:', byClient),
+        text: buildEmailText('NEW CLIENT COMMENTS', 'The following posts have new client feedback:', byClient),
+      });
+      if (!sent) {
+        return res.status(500).json({ error: 'Failed to send email' });
+      }
     }
 
-    // Mark all posts as notified
-    const postIds = posts.map(p => p.id);
-    const { error: updateError } = await supabase
-      .from('posts')
-      .update({ notes_notified: true })
-      .in('id', postIds);
+    // 2. @mentions -> each mentioned person
+    const mentionedIds = [...new Set(comments.flatMap(c => c.mentions || []))];
+    let mentionEmails = 0;
+    const unsentIds = new Set<string>(); // Comments with a mention email that didn't go out
+    if (mentionedIds.length > 0) {
+      const { data: users, error: usersError } = await supabase
+        .from('users')
+        .select('id, name, email')
+        .in('id', mentionedIds)
+        .in('role', AGENCY_ROLES) // Internal notes must never reach a client address
+        .eq('is_active', true);
+
+      if (usersError) {
+        console.error('Error fetching mentioned users:', usersError);
+        comments.filter(c => (c.mentions || []).length > 0).forEach(c => unsentIds.add(c.id));
+      }
 
-    if (updateError) {
-      console.error('Error updating notification status:', updateError);
+      for (const user of users || []) {
+        const mentioning = comments.filter(c => (c.mentions || []).includes(user.id));
+        const byClient = groupByClient(mentioning);
+        const sent = await sendEmail(resendApiKey, {
+          to: user.email,
+          subject: `You were mentioned in ${mentioning.length} comment${mentioning.length > 1 ? 's' : ''}`,
+          html: buildEmailHtml(`Hi ${escapeHtml(user.name)}, you were mentioned`, 'You were @mentioned on these posts:', byClient),
+          text: buildEmailText('YOU WERE MENTIONED', 'You were @mentioned on these posts:', byClient),
+        });
+        if (sent) {
+          mentionEmails++;
+        } else {
+          mentioning.forEach(c => unsentIds.add(c.id));
+        }
+      }
+    }
+
+    // Mark processed comments as notified (agency comments without mentions need no email).
+    // Ones with a failed mention email stay unmarked so the next run retries them -
+    // its other emails may then go out twice, which beats losing the mention.
+    const commentIds = comments.filter(c => !unsentIds.has(c.id)).map(c => c.id);
+    if (commentIds.length > 0) {
+      const { error: updateError } = await supabase
+        .from('post_comments')
+        .update({ notified: true })
+        .in('id', commentIds);
+
+      if (updateError) {
+        console.error('Error updating notification status:', updateError);
+      }
     }
 
     return res.status(200).json({
       success: true,
-      notified: posts.length,
-      clients: Object.keys(postsByClient),
+      notified: commentIds.length,
+      clientComments: clientComments.length,
+      mentionEmails,
     });
 
   } catch (error) {
@@ -145,7 +179,52 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 }
 
-function buildEmailHtml(postsByClient: Record<string, PostWithNotes[]>): string {
+async function sendEmail(apiKey: string, email: { to: string; subject: string; html: string; text: string }): Promise<boolean> {
+  const emailResponse = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: FROM_ADDRESS,
+      to: [email.to],
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    }),
+  });
+
+  if (!emailResponse.ok) {
+    const errorData = await emailResponse.json().catch(() => ({}));
+    console.error('Resend error:', errorData);
+    return false;
+  }
+  return true;
+}
+
+// Client name -> post -> comments, in the order they were written
+function groupByClient(comments: NewComment[]): Record<string, Record<string, NewComment[]>> {
+  return comments.reduce((acc, comment) => {
+    const clientName = comment.clients?.name || 'Unknown Client';
+    acc[clientName] = acc[clientName] || {};
+    acc[clientName][comment.post_id] = acc[clientName][comment.post_id] || [];
+    acc[clientName][comment.post_id].push(comment);
+    return acc;
+  }, {} as Record<string, Record<string, NewComment[]>>);
+}
+
+function formatPostDate(comment: NewComment): string {
+  if (!comment.posts?.date) return 'No date';
+  return new Date(comment.posts.date).toLocaleDateString('en-AU', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+function buildEmailHtml(title: string, intro: string, byClient: Record<string, Record<string, NewComment[]>>): string {
   let html = `
     <!DOCTYPE html>
     <html>
@@ -165,31 +244,29 @@ function buildEmailHtml(postsByClient: Record<string, PostWithNotes[]>): string
     </head>
     <body>
       <div class="container">
-        <h1>New Client Notes</h1>
-        <p>The following posts have new client feedback:</p>
+        <h1>${title}</h1>
+        <p>${intro}</p>
   `;
 
-  for (const [clientName, posts] of Object.entries(postsByClient)) {
-    html += `<h2>${clientName}</h2>`;
+  for (const [clientName, posts] of Object.entries(byClient)) {
+    html += `<h2>${escapeHtml(clientName)}</h2>`;
 
-    for (const post of posts) {
-      const date = new Date(post.date).toLocaleDateString('en-AU', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-      });
+    for (const comments of Object.values(posts)) {
+      const first = comments[0];
+      const caption = first.posts?.generated_caption;
 
       html += `
         <div class="post">
-          <div class="post-date">📅 ${date}</div>
-          <div class="notes">
-            <span class="notes-label">Client Notes:</span><br>
-            ${escapeHtml(post.notes)}
-          </div>
-          ${post.generated_caption ? `
+          <div class="post-date">📅 ${formatPostDate(first)}</div>
+          ${comments.map(comment => `
+            <div class="notes">
+              <span class="notes-label">${escapeHtml(comment.author_name)}${comment.internal ? ' (internal note)' : ''}:</span><br>
+              ${escapeHtml(comment.body)}
+            </div>
+          `).join('')}
+          ${caption ? `
             <div class="caption-preview">
-              <strong>Current caption:</strong> ${escapeHtml(post.generated_caption.substring(0, 100))}${post.generated_caption.length > 100 ? '...' : ''}
+              <strong>Current caption:</strong> ${escapeHtml(caption.substring(0, 100))}${caption.length > 100 ? '...' : ''}
             </div>
           ` : ''}
         </div>
@@ -210,25 +287,23 @@ function buildEmailHtml(postsByClient: Record<string, PostWithNotes[]>): string
   return html;
 }
 
-function buildEmailText(postsByClient: Record<string, PostWithNotes[]>): string {
-  let text = 'NEW CLIENT NOTES\n\n';
-  text += 'The following posts have new client feedback:\n\n';
+function buildEmailText(title: string, intro: string, byClient: Record<string, Record<string, NewComment[]>>): string {
+  let text = `${title}\n\n`;
+  text += `${intro}\n\n`;
 
-  for (const [clientName, posts] of Object.entries(postsByClient)) {
+  for (const [clientName, posts] of Object.entries(byClient)) {
     text += `--- ${clientName} ---\n\n`;
 
-    for (const post of posts) {
-      const date = new Date(post.date).toLocaleDateString('en-AU', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-      });
+    for (const comments of Object.values(posts)) {
+      const first = comments[0];
+      const caption = first.posts?.generated_caption;
 
-      text += `Date: ${date}\n`;
-      text += `Client Notes: ${post.notes}\n`;
-      if (post.generated_caption) {
-        text += `Current caption: ${post.generated_caption.substring(0, 100)}${post.generated_caption.length > 100 ? '...' : ''}\n`;
+      text += `Date: ${formatPostDate(first)}\n`;
+      for (const comment of comments) {
+        text += `${comment.author_name}${comment.internal ? ' (internal note)' : ''}: ${comment.body}\n`;
+      }
+      if (caption) {
+        text += `Current caption: ${caption.substring(0, 100)}${caption.length > 100 ? '...' : ''}\n`;
       }
       text += '\n';
     }
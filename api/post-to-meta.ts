@@ -1,23 +1,35 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
+import { getBearerToken, getSessionUser, canAccessClient } from './_lib/session.js';
+import { getClientSecret } from './_lib/secrets.js';
 
 /**
  * Vercel Serverless Function for Meta API Posting
- * Keeps access tokens secure on server-side
+ * Keeps access tokens secure on server-side - the token is decrypted here and never returned
  */
 
+interface MetaMediaItem {
+  url: string;
+  type: 'image' | 'video';
+}
+
 interface PostToMetaRequest {
   clientId: string;
   postId: string;
   platform: 'facebook' | 'instagram';
-  imageUrl?: string;
-  mediaType?: 'image' | 'video'; // Type of media being posted
+  mediaItems?: MetaMediaItem[]; // Ordered - more than one is published as a carousel
   caption: string;
   scheduledTime?: string;
 }
 
+type MetaResult = { success: boolean; metaPostId?: string; error?: string };
+
 const FACEBOOK_API_VERSION = 'v18.0';
 const GRAPH_API_BASE = `https://graph.facebook.com/${FACEBOOK_API_VERSION}`;
 
+// Instagram carousels take 2-10 items
+const MAX_CAROUSEL_ITEMS = 10;
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Only allow POST requests
   if (req.method !== 'POST') {
@@ -25,7 +37,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { clientId, postId, platform, imageUrl, mediaType, caption, scheduledTime } =
+    const { clientId, postId, platform, mediaItems, caption, scheduledTime } =
       req.body as PostToMetaRequest;
 
     // Validate required fields
@@ -33,24 +45,35 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    // Determine media type from URL if not explicitly provided
-    const isVideo = mediaType === 'video' || (imageUrl ? (
-      imageUrl.includes('.mp4') ||
-      imageUrl.includes('.mov') ||
-      imageUrl.includes('.webm')
-    ) : false);
-
-    // Import Supabase (server-side)
-    const { createClient } = await import('@supabase/supabase-js');
-    const supabase = createClient(
-      process.env.VITE_SUPABASE_URL!,
-      process.env.VITE_SUPABASE_ANON_KEY!
-    );
+    // Determine each item's media type from its URL if not explicitly provided
+    const items: MetaMediaItem[] = (mediaItems || [])
+      .filter(item => item && item.url)
+      .map(item => ({
+        url: item.url,
+        type: item.type === 'video' || /\.(mp4|mov|webm)/i.test(item.url) ? 'video' : 'image',
+      }));
+
+    if (items.length > MAX_CAROUSEL_ITEMS) {
+      return res.status(400).json({ error: `Carousels can have at most ${MAX_CAROUSEL_ITEMS} items` });
+    }
+
+    // Service role - client credentials are not readable through RLS
+    const supabase = await getAdminClient();
 
-    // Fetch client credentials from database
+    // Only signed-in users with access to this client may post for it
+    const token = getBearerToken(req);
+    const user = token ? await getSessionUser(supabase, token) : null;
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    if (!canAccessClient(user, clientId)) {
+      return res.status(403).json({ error: 'No access to this client' });
+    }
+
+    // Fetch client page/account IDs from database
     const { data: client, error: clientError } = await supabase
       .from('clients')
-      .select('*')
+      .select('id, meta_page_id, instagram_account_id')
       .eq('id', clientId)
       .single();
 
@@ -58,32 +81,46 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(404).json({ error: 'Client not found' });
     }
 
-    if (!client.meta_access_token) {
+    // Decrypt the access token from the secrets vault
+    const accessToken = await getClientSecret(supabase, clientId, 'meta');
+    if (!accessToken) {
       return res.status(400).json({ error: 'Meta credentials not configured' });
     }
 
     // Post to the selected platform
     let result;
     if (platform === 'facebook') {
-      result = await postToFacebook(
-        client.meta_page_id,
-        client.meta_access_token,
-        imageUrl,
-        caption,
-        scheduledTime,
-        isVideo
-      );
+      result = items.length > 1
+        ? await postToFacebookMultiPhoto(client.meta_page_id, accessToken, items, caption, scheduledTime)
+        : await postToFacebook(
+            client.meta_page_id,
+            accessToken,
+            items[0]?.url,
+            caption,
+            scheduledTime,
+            items[0]?.type === 'video'
+          );
     } else {
-      result = await postToInstagram(
-        client.instagram_account_id,
-        client.meta_access_token,
-        imageUrl!,
-        caption,
-        isVideo
-      );
+      result = items.length > 1
+        ? await postToInstagramCarousel(client.instagram_account_id, accessToken, items, caption)
+        : await postToInstagram(
+            client.instagram_account_id,
+            accessToken,
+            items[0]?.url,
+            caption,
+            items[0]?.type === 'video'
+          );
     }
 
     if (!result.success) {
+      await supabase.from('social_posts').insert({
+        post_id: postId,
+        client_id: clientId,
+        platform,
+        status: 'failed',
+        error_message: result.error,
+        scheduled_for: scheduledTime || new Date().toISOString(),
+      });
       return res.status(500).json({ error: result.error });
     }
 
@@ -120,7 +157,7 @@ async function postToFacebook(
   caption: string,
   scheduledTime?: string,
   isVideo?: boolean
-): Promise<{ success: boolean; metaPostId?: string; error?: string }> {
+): Promise<MetaResult> {
   try {
     // Use different endpoints for photos vs videos
     const endpoint = isVideo ? 'videos' : 'photos';
@@ -135,18 +172,101 @@ async function postToFacebook(
       formData.append(isVideo ? 'file_url' : 'url', mediaUrl);
     }
 
-    // Schedule post if future date
-    if (scheduledTime) {
-      const scheduledTimestamp = Math.floor(new Date(scheduledTime).getTime() / 1000);
-      const now = Math.floor(Date.now() / 1000);
+    appendSchedule(formData, scheduledTime);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formData.toString(),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Facebook API error');
+    }
+
+    return {
+      success: true,
+      metaPostId: data.id,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Schedule a Facebook post if the time is in the future
+ */
+function appendSchedule(formData: URLSearchParams, scheduledTime?: string) {
+  if (!scheduledTime) return;
+
+  const scheduledTimestamp = Math.floor(new Date(scheduledTime).getTime() / 1000);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (scheduledTimestamp > now) {
+    formData.append('published', 'false');
+    formData.append('scheduled_publish_time', scheduledTimestamp.toString());
+  }
+}
+
+/**
+ * Post several photos to a Facebook Page as one post
+ * Each photo is uploaded unpublished, then attached to a single feed post
+ */
+async function postToFacebookMultiPhoto(
+  pageId: string,
+  accessToken: string,
+  items: MetaMediaItem[],
+  caption: string,
+  scheduledTime?: string
+): Promise<MetaResult> {
+  try {
+    if (items.some(item => item.type === 'video')) {
+      throw new Error('Facebook multi-media posts support images only - remove the video or post it separately');
+    }
 
-      if (scheduledTimestamp > now) {
-        formData.append('published', 'false');
-        formData.append('scheduled_publish_time', scheduledTimestamp.toString());
+    // Step 1: Upload each photo without publishing it
+    const photoIds: string[] = [];
+    for (const item of items) {
+      const photoParams = new URLSearchParams({
+        url: item.url,
+        published: 'false',
+        access_token: accessToken,
+      });
+
+      const photoResponse = await fetch(`${GRAPH_API_BASE}/${pageId}/photos`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: photoParams.toString(),
+      });
+
+      const photoData = await photoResponse.json();
+
+      if (!photoResponse.ok) {
+        throw new Error(photoData.error?.message || 'Facebook photo upload error');
       }
+      photoIds.push(photoData.id);
     }
 
-    const response = await fetch(url, {
+    // Step 2: Create the feed post with every photo attached, in order
+    const formData = new URLSearchParams();
+    formData.append('message', caption);
+    formData.append('access_token', accessToken);
+    photoIds.forEach((id, index) => {
+      formData.append(`attached_media[${index}]`, JSON.stringify({ media_fbid: id }));
+    });
+
+    appendSchedule(formData, scheduledTime);
+
+    const response = await fetch(`${GRAPH_API_BASE}/${pageId}/feed`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -172,23 +292,159 @@ async function postToFacebook(
   }
 }
 
+/**
+ * Create an Instagram media container and return its ID
+ */
+async function createInstagramContainer(
+  instagramAccountId: string,
+  params: URLSearchParams
+): Promise<string> {
+  const containerResponse = await fetch(`${GRAPH_API_BASE}/${instagramAccountId}/media?${params}`, {
+    method: 'POST',
+  });
+
+  const containerData = await containerResponse.json();
+
+  if (!containerResponse.ok) {
+    throw new Error(containerData.error?.message || 'Instagram container creation error');
+  }
+
+  return containerData.id;
+}
+
+/**
+ * Poll a container until Instagram has finished processing it (max 60 seconds)
+ * Needed for videos and carousels before they can be published
+ */
+async function waitForInstagramContainer(containerId: string, accessToken: string): Promise<void> {
+  let attempts = 0;
+  const maxAttempts = 30;
+  while (attempts < maxAttempts) {
+    const statusUrl = `${GRAPH_API_BASE}/${containerId}`;
+    const statusParams = new URLSearchParams({
+      fields: 'status_code',
+      access_token: accessToken,
+    });
+
+    const statusResponse = await fetch(`${statusUrl}?${statusParams}`);
+    const statusData = await statusResponse.json();
+
+    if (statusData.status_code === 'FINISHED') {
+      return;
+    } else if (statusData.status_code === 'ERROR') {
+      throw new Error('Media processing failed on Instagram');
+    }
+
+    // Wait 2 seconds before checking again
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    attempts++;
+  }
+
+  throw new Error('Media processing timed out');
+}
+
+/**
+ * Publish a finished Instagram container
+ */
+async function publishInstagramContainer(
+  instagramAccountId: string,
+  accessToken: string,
+  containerId: string
+): Promise<string> {
+  const publishUrl = `${GRAPH_API_BASE}/${instagramAccountId}/media_publish`;
+  const publishParams = new URLSearchParams({
+    creation_id: containerId,
+    access_token: accessToken,
+  });
+
+  const publishResponse = await fetch(`${publishUrl}?${publishParams}`, {
+    method: 'POST',
+  });
+
+  const publishData = await publishResponse.json();
+
+  if (!publishResponse.ok) {
+    throw new Error(publishData.error?.message || 'Instagram publishing error');
+  }
+
+  return publishData.id;
+}
+
+/**
+ * Post an Instagram carousel (2-10 images and/or videos)
+ * One container per item, then a CAROUSEL container that lists them in order
+ */
+async function postToInstagramCarousel(
+  instagramAccountId: string,
+  accessToken: string,
+  items: MetaMediaItem[],
+  caption: string
+): Promise<MetaResult> {
+  try {
+    // Step 1: Create a child container for each item
+    const childIds: string[] = [];
+    for (const item of items) {
+      const childParams = new URLSearchParams({
+        is_carousel_item: 'true',
+        access_token: accessToken,
+      });
+      if (item.type === 'video') {
+        childParams.append('media_type', 'VIDEO');
+        childParams.append('video_url', item.url);
+      } else {
+        childParams.append('image_url', item.url);
+      }
+
+      const childId = await createInstagramContainer(instagramAccountId, childParams);
+      if (item.type === 'video') {
+        await waitForInstagramContainer(childId, accessToken);
+      }
+      childIds.push(childId);
+    }
+
+    // Step 2: Create the carousel container
+    const carouselId = await createInstagramContainer(
+      instagramAccountId,
+      new URLSearchParams({
+        media_type: 'CAROUSEL',
+        children: childIds.join(','),
+        caption: caption,
+        access_token: accessToken,
+      })
+    );
+    await waitForInstagramContainer(carouselId, accessToken);
+
+    // Step 3: Publish the carousel
+    const metaPostId = await publishInstagramContainer(instagramAccountId, accessToken, carouselId);
+
+    return {
+      success: true,
+      metaPostId,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 /**
  * Post to Instagram Business Account (supports both images and videos/reels)
  */
 async function postToInstagram(
   instagramAccountId: string,
   accessToken: string,
-  mediaUrl: string,
+  mediaUrl: string | undefined,
   caption: string,
   isVideo?: boolean
-): Promise<{ success: boolean; metaPostId?: string; error?: string }> {
+): Promise<MetaResult> {
   try {
     if (!mediaUrl) {
       throw new Error('Instagram posts require a media URL');
     }
 
     // Step 1: Create media container
-    const containerUrl = `${GRAPH_API_BASE}/${instagramAccountId}/media`;
     const containerParams = new URLSearchParams({
       caption: caption,
       access_token: accessToken,
@@ -202,67 +458,19 @@ async function postToInstagram(
       containerParams.append('image_url', mediaUrl);
     }
 
-    const containerResponse = await fetch(`${containerUrl}?${containerParams}`, {
-      method: 'POST',
-    });
-
-    const containerData = await containerResponse.json();
-
-    if (!containerResponse.ok) {
-      throw new Error(containerData.error?.message || 'Instagram container creation error');
-    }
+    const containerId = await createInstagramContainer(instagramAccountId, containerParams);
 
     // For videos, we need to wait for processing to complete
     if (isVideo) {
-      // Poll for container status until ready (max 60 seconds)
-      let attempts = 0;
-      const maxAttempts = 30;
-      while (attempts < maxAttempts) {
-        const statusUrl = `${GRAPH_API_BASE}/${containerData.id}`;
-        const statusParams = new URLSearchParams({
-          fields: 'status_code',
-          access_token: accessToken,
-        });
-
-        const statusResponse = await fetch(`${statusUrl}?${statusParams}`);
-        const statusData = await statusResponse.json();
-
-        if (statusData.status_code === 'FINISHED') {
-          break;
-        } else if (statusData.status_code === 'ERROR') {
-          throw new Error('Video processing failed on Instagram');
-        }
-
-        // Wait 2 seconds before checking again
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        attempts++;
-      }
-
-      if (attempts >= maxAttempts) {
-        throw new Error('Video processing timed out');
-      }
+      await waitForInstagramContainer(containerId, accessToken);
     }
 
     // Step 2: Publish the container
-    const publishUrl = `${GRAPH_API_BASE}/${instagramAccountId}/media_publish`;
-    const publishParams = new URLSearchParams({
-      creation_id: containerData.id,
-      access_token: accessToken,
-    });
-
-    const publishResponse = await fetch(`${publishUrl}?${publishParams}`, {
-      method: 'POST',
-    });
-
-    const publishData = await publishResponse.json();
-
-    if (!publishResponse.ok) {
-      throw new Error(publishData.error?.message || 'Instagram publishing error');
-    }
+    const metaPostId = await publishInstagramContainer(instagramAccountId, accessToken, containerId);
 
     return {
       success: true,
-      metaPostId: publishData.id,
+      metaPostId,
     };
   } catch (error) {
     return {
@@ -0,0 +1,135 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
+
+/**
+ * Vercel Cron Job - Move Scheduled posts on to Published or Failed
+ * Asks Late what happened to each post that is due, and records the result.
+ * Scheduled posts without a Late id (scheduled before ids were stored) are
+ * marked Published once their date has passed.
+ * Runs hourly; the database trigger still checks every transition.
+ */
+
+const LATE_API_BASE = 'https://getlate.dev/api/v1';
+
+interface ScheduledRow {
+  id: string;
+  date: string;
+  late_post_id: string | null;
+}
+
+type LateOutcome = { status: 'Published' } | { status: 'Failed'; error: string } | null;
+
+// Late's post status -> our status (null = still waiting)
+const getLateOutcome = async (apiKey: string, latePostId: string): Promise<LateOutcome> => {
+  const response = await fetch(`${LATE_API_BASE}/posts/${encodeURIComponent(latePostId)}`, {
+    headers: { 'Authorization': `Bearer ${apiKey}` },
+  });
+
+  if (response.status === 404) {
+    return { status: 'Failed', error: 'The post no longer exists in Late' };
+  }
+  if (!response.ok) {
+    throw new Error(`Late API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const post = data.post || data;
+  const platforms: { platform?: string; status?: string; errorMessage?: string }[] = post.platforms || [];
+
+  if (post.status === 'published') {
+    return { status: 'Published' };
+  }
+  if (post.status === 'failed' || post.status === 'partial') {
+    const failed = platforms.filter(p => p.status === 'failed');
+    const error = failed.map(p => `${p.platform}: ${p.errorMessage || 'failed'}`).join('; ');
+    return { status: 'Failed', error: error || 'Late could not publish this post' };
+  }
+  return null;
+};
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Verify this is a cron job request (Vercel adds this header)
+  const authHeader = req.headers.authorization;
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    // Also allow manual trigger with the secret
+    if (req.query.secret !== process.env.CRON_SECRET) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+  }
+
+  const apiKey = process.env.VITE_LATE_API_KEY;
+  if (!apiKey) {
+    return res.status(500).json({ error: 'Late API key not configured' });
+  }
+
+  try {
+    // Service role - checks every client's posts regardless of RLS
+    const supabase = await getAdminClient();
+
+    // Dates are in each client's timezone, so include tomorrow (UTC) for zones ahead of UTC
+    const today = new Date().toISOString().split('T')[0];
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const { data: duePosts, error: fetchError } = await supabase
+      .from('posts')
+      .select('id, date, late_post_id')
+      .eq('status', 'Scheduled')
+      .lte('date', tomorrow);
+
+    if (fetchError) {
+      console.error('Error fetching scheduled posts:', fetchError);
+      return res.status(500).json({ error: 'Failed to fetch scheduled posts' });
+    }
+
+    let published = 0;
+    let failed = 0;
+    const errors: string[] = [];
+
+    for (const post of (duePosts || []) as ScheduledRow[]) {
+      try {
+        let outcome: LateOutcome;
+        if (post.late_post_id) {
+          outcome = await getLateOutcome(apiKey, post.late_post_id);
+        } else {
+          outcome = post.date < today ? { status: 'Published' } : null;
+        }
+
+        if (!outcome) continue;
+
+        const { error: updateError } = await supabase
+          .from('posts')
+          .update(outcome.status === 'Failed'
+            ? { status: 'Failed', publish_error: outcome.error }
+            : { status: 'Published' })
+          .eq('id', post.id)
+          .eq('status', 'Scheduled')
+          .setHeader('x-change-source', 'publish_check');
+
+        if (updateError) {
+          console.error(`Failed to update post ${post.id}:`, updateError);
+          errors.push(post.id);
+        } else if (outcome.status === 'Published') {
+          published++;
+        } else {
+          failed++;
+        }
+      } catch (error) {
+        console.error(`Error checking post ${post.id}:`, error);
+        errors.push(post.id);
+      }
+    }
+
+    return res.status(200).json({
+      message: 'Publish check complete',
+      checked: duePosts?.length || 0,
+      published,
+      failed,
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error('Publish check error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
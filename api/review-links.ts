@@ -0,0 +1,95 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
+import { getBearerToken, getSessionUser, isAgencyRole } from './_lib/session.js';
+import { createReviewLink, buildReviewUrl, getAppOrigin, getReviewPosts } from './_lib/reviewLinks.js';
+
+/**
+ * Vercel Serverless Function - Create magic review links for review emails
+ * POST { clientId, month: 'YYYY-MM' } -> a month link plus one link per post awaiting approval
+ * POST { clientId, postId }           -> a single-post link
+ * Agency staff only
+ */
+
+interface CreateReviewLinksRequest {
+  clientId: string;
+  month?: string;
+  postId?: string;
+  recipientName?: string;
+  recipientEmail?: string;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { clientId, month, postId, recipientName, recipientEmail } = (req.body || {}) as CreateReviewLinksRequest;
+
+  if (!clientId || (!month && !postId) || (month && postId)) {
+    return res.status(400).json({ error: 'clientId and either month or postId are required' });
+  }
+  if (month && !/^\d{4}-\d{2}$/.test(month)) {
+    return res.status(400).json({ error: 'month must be YYYY-MM' });
+  }
+
+  try {
+    const supabase = await getAdminClient();
+
+    const token = getBearerToken(req);
+    const user = token ? await getSessionUser(supabase, token) : null;
+    if (!user) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    if (!isAgencyRole(user.role)) {
+      return res.status(403).json({ error: 'Only agency staff can create review links' });
+    }
+
+    const origin = getAppOrigin(req);
+    const linkDetails = { clientId, recipientName, recipientEmail, createdBy: user.id };
+
+    if (postId) {
+      const { data: post } = await supabase
+        .from('posts')
+        .select('id')
+        .eq('id', postId)
+        .eq('client_id', clientId)
+        .is('deleted_at', null)
+        .maybeSingle();
+      if (!post) {
+        return res.status(404).json({ error: 'Post not found' });
+      }
+
+      const link = await createReviewLink(supabase, { ...linkDetails, postId });
+      return res.status(200).json({ url: buildReviewUrl(origin, link.token), expiresAt: link.expiresAt });
+    }
+
+    const monthLink = await createReviewLink(supabase, { ...linkDetails, month });
+
+    // Individual links for the posts that still need a decision
+    const monthPosts = await getReviewPosts(supabase, { client_id: clientId, post_id: null, month: month! });
+    const awaiting = monthPosts.filter(p => p.status === 'For Approval' || p.status === 'Revision');
+
+    const postLinks = [];
+    for (const post of awaiting) {
+      const link = await createReviewLink(supabase, { ...linkDetails, postId: post.id });
+      postLinks.push({
+        postId: post.id,
+        title: post.title,
+        date: post.date,
+        url: buildReviewUrl(origin, link.token),
+      });
+    }
+
+    return res.status(200).json({
+      url: buildReviewUrl(origin, monthLink.token),
+      expiresAt: monthLink.expiresAt,
+      postLinks,
+    });
+  } catch (error) {
+    console.error('Review link error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
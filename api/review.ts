@@ -0,0 +1,180 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
+import { verifyReviewToken, getReviewPosts, getReviewApprover, getReviewApprovals } from './_lib/reviewLinks.js';
+import { autoSchedulePost } from './_lib/autoPost.js';
+
+/**
+ * Vercel Serverless Function - Magic-link review page backend
+ * GET  ?token=                               -> the posts covered by the link
+ * POST { token, postId, action, note? }      -> approve or request a revision
+ * The link token is the only credential; every action is checked against its scope.
+ * Approving adds the reviewer's sign-off - the post only moves to Approved once
+ * the client's approval rule is met (add-approval-quorum-schema.sql), and is
+ * then auto-scheduled here - no app needs to be open
+ */
+
+interface ReviewActionRequest {
+  token: string;
+  postId: string;
+  action: 'approve' | 'revision';
+  note?: string;
+}
+
+// Statuses a reviewer may act on
+const REVIEWABLE_STATUSES = ['For Approval', 'Revision', 'Approved'];
+
+// Header values must be plain ASCII
+const toHeaderValue = (value: string): string => value.replace(/[^\x20-\x7E]/g, '').trim();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const token = req.method === 'GET'
+    ? String(req.query.token || '')
+    : String(((req.body || {}) as ReviewActionRequest).token || '');
+
+  if (!token) {
+    return res.status(400).json({ error: 'Review link is missing its token' });
+  }
+
+  try {
+    const supabase = await getAdminClient();
+
+    const link = await verifyReviewToken(supabase, token);
+    if (!link) {
+      return res.status(401).json({ error: 'This review link is invalid or has expired' });
+    }
+
+    if (req.method === 'GET') {
+      const { data: client } = await supabase
+        .from('clients')
+        .select('name, brand_name')
+        .eq('id', link.client_id)
+        .single();
+
+      const posts = await getReviewPosts(supabase, link);
+      const approver = await getReviewApprover(supabase, link);
+      const approvals = await getReviewApprovals(supabase, link.client_id, approver.key, posts.map(p => p.id));
+
+      await supabase
+        .from('review_links')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', link.id);
+
+      return res.status(200).json({
+        clientName: client?.brand_name || client?.name || '',
+        scope: link.post_id ? 'post' : 'month',
+        month: link.month,
+        recipientName: link.recipient_name,
+        expiresAt: link.expires_at,
+        posts,
+        approvals,
+      });
+    }
+
+    const { postId, action, note } = req.body as ReviewActionRequest;
+
+    if (!postId || (action !== 'approve' && action !== 'revision')) {
+      return res.status(400).json({ error: 'postId and a valid action are required' });
+    }
+    if (action === 'revision' && !note?.trim()) {
+      return res.status(400).json({ error: 'Please describe the changes you need' });
+    }
+
+    // The post must be inside this link's scope
+    const posts = await getReviewPosts(supabase, link);
+    const post = posts.find(p => p.id === postId);
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+    if (!REVIEWABLE_STATUSES.includes(post.status)) {
+      return res.status(409).json({ error: `This post is ${post.status} and can no longer be changed` });
+    }
+
+    const approver = await getReviewApprover(supabase, link);
+    const reviewer = approver.name;
+    let status = post.status;
+
+    // Recorded in post_events against the reviewer
+    if (action === 'approve') {
+      const { data: newStatus, error: approveError } = await supabase
+        .rpc('add_post_approval', {
+          p_post_id: postId,
+          p_approver_key: approver.key,
+          p_user_id: approver.userId,
+          p_name: reviewer,
+          p_role: approver.role,
+          p_source: 'review_link',
+        })
+        .setHeader('x-change-source', 'review_link')
+        .setHeader('x-actor-name', toHeaderValue(reviewer) || 'Client');
+
+      if (approveError) {
+        throw new Error(`Failed to approve post: ${approveError.message}`);
+      }
+      status = newStatus;
+
+      // Quorum met by this approval - hand it to Late like the app does
+      if (newStatus === 'Approved' && post.status !== 'Approved') {
+        const outcome = await autoSchedulePost(supabase, postId).catch(error => {
+          console.error(`Auto-schedule failed for ${postId}:`, error);
+          return 'skipped' as const;
+        });
+        if (outcome === 'scheduled') status = 'Scheduled';
+        else if (outcome === 'failed') status = 'Failed';
+      }
+    } else {
+      const { data: updated, error: updateError } = await supabase
+        .from('posts')
+        .update({ status: 'Revision' })
+        .eq('id', postId)
+        .eq('client_id', link.client_id)
+        .select('id, status')
+        .single()
+        .setHeader('x-change-source', 'review_link')
+        .setHeader('x-actor-name', toHeaderValue(reviewer) || 'Client');
+
+      if (updateError) {
+        throw new Error(`Failed to update post: ${updateError.message}`);
+      }
+      status = updated.status;
+    }
+
+    // The note becomes an unresolved comment from the reviewer (picked up by notify-notes)
+    if (note?.trim()) {
+      const { error: commentError } = await supabase
+        .from('post_comments')
+        .insert({
+          post_id: postId,
+          client_id: link.client_id,
+          body: note.trim(),
+          author_name: reviewer,
+          author_role: 'client_approver',
+        });
+
+      if (commentError) {
+        throw new Error(`Failed to save comment: ${commentError.message}`);
+      }
+    }
+
+    await supabase
+      .from('review_links')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', link.id);
+
+    const approvals = await getReviewApprovals(supabase, link.client_id, approver.key, [postId]);
+
+    return res.status(200).json({
+      success: true,
+      post: { ...post, status },
+      approval: approvals.posts[postId] || { approverNames: [], approvedByYou: false },
+    });
+  } catch (error) {
+    console.error('Review error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getAdminClient } from './_lib/supabaseAdmin.js';
+import { getBearerToken, getSessionUser, deleteSession, getAccessibleClients } from './_lib/session.js';
+
+/**
+ * Vercel Serverless Function - Validate or end a session
+ * GET    -> returns the signed-in user and their accessible clients
+ * DELETE -> revokes the session (logout)
+ */
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const token = getBearerToken(req);
+  if (!token) {
+    return res.status(401).json({ error: 'Not signed in' });
+  }
+
+  try {
+    const supabase = await getAdminClient();
+
+    if (req.method === 'DELETE') {
+      await deleteSession(supabase, token);
+      return res.status(200).json({ success: true });
+    }
+
+    const user = await getSessionUser(supabase, token);
+    if (!user) {
+      return res.status(401).json({ error: 'Session expired' });
+    }
+
+    const clients = await getAccessibleClients(supabase, user);
+    return res.status(200).json({ user, clients });
+  } catch (error) {
+    console.error('Session error:', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { MapPin, X } from 'lucide-react';
+import { MediaItem, PostComment, MentionableUser, CommentPin } from '../types';
+import { MediaCarousel, MediaPin } from './MediaCarousel';
+import { CommentInput } from './PostComments';
+import { getThreads, getPinNumbers, describePin } from '../services/commentService';
+
+interface AnnotatedMediaProps {
+  postId: string;
+  items: MediaItem[];
+  comments: PostComment[]; // May include other posts' comments - filtered by postId
+  mentionables: MentionableUser[];
+  canComment: boolean;
+  onAddPin: (body: string, mentions: string[], pin: CommentPin) => Promise<void>;
+  className?: string;
+  autoPlay?: boolean;
+}
+
+// Post media with open comment pins drawn on top - click a point (or pause a video) to pin a new comment
+export const AnnotatedMedia: React.FC<AnnotatedMediaProps> = ({ postId, items, comments, mentionables, canComment, onAddPin, className, autoPlay }) => {
+  const [placing, setPlacing] = useState(false);
+  const [pendingPin, setPendingPin] = useState<CommentPin | null>(null);
+
+  const pinNumbers = getPinNumbers(comments, postId);
+  const pins: MediaPin[] = getThreads(comments, postId)
+    .filter(({ comment }) => comment.pin && !comment.resolved)
+    .map(({ comment }) => ({
+      id: comment.id,
+      label: String(pinNumbers.get(comment.id)),
+      title: `${comment.authorName}: ${comment.body}`,
+      pin: comment.pin!,
+    }));
+  if (pendingPin) {
+    pins.push({ id: 'pending', label: '+', title: 'New comment', pin: pendingPin });
+  }
+
+  const stopPlacing = () => {
+    setPlacing(false);
+    setPendingPin(null);
+  };
+
+  return (
+    <div className="relative w-full h-full">
+      <MediaCarousel
+        items={items}
+        className={className}
+        autoPlay={autoPlay}
+        pins={pins}
+        onPlacePin={placing && !pendingPin ? setPendingPin : undefined}
+      />
+
+      {canComment && !pendingPin && (
+        <button
+          onClick={(e) => { e.stopPropagation(); placing ? stopPlacing() : setPlacing(true); }}
+          className={`absolute bottom-3 right-3 flex items-center gap-1 text-xs font-medium px-2.5 py-1.5 rounded-lg shadow transition-colors ${placing ? 'bg-amber-400 text-brand-dark' : 'bg-white/90 text-stone-700 hover:bg-white'}`}
+          title="Click a point on the image, or pause a video and click the frame"
+        >
+          <MapPin className="w-3.5 h-3.5" />
+          {placing ? 'Click to place pin' : 'Pin a comment'}
+        </button>
+      )}
+
+      {pendingPin && (
+        <div className="absolute left-3 right-3 bottom-3 bg-white rounded-lg shadow-lg p-2" onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-[11px] font-semibold text-stone-500">Comment {describePin(pendingPin)}</span>
+            <button onClick={stopPlacing} className="text-stone-400 hover:text-stone-600" title="Cancel">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <CommentInput
+            placeholder="What should change here? (@ to mention)"
+            mentionables={mentionables}
+            autoFocus
+            onSubmit={async (body, mentions) => {
+              await onAddPin(body, mentions, pendingPin);
+              stopPlacing();
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
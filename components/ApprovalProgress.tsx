@@ -0,0 +1,84 @@
+import React from 'react';
+import { Check, Clock, Undo2 } from 'lucide-react';
+import { ApprovalProgress as Progress, ClientApprover } from '../services/approvalService';
+
+interface ApprovalProgressProps {
+  progress: Progress;
+  approvers: ClientApprover[]; // Names for required approvers still missing
+  currentUserId?: string;
+  isApproved: boolean;
+  canApprove: boolean; // The post can still move to Approved and the user may approve
+  onApprove: () => void;
+  onWithdraw: () => void;
+}
+
+const formatApprovedAt = (value: string): string =>
+  new Date(value).toLocaleString('en-AU', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+// Who has signed off on a post, and who still needs to (multi-approver clients)
+export const ApprovalProgress: React.FC<ApprovalProgressProps> = ({
+  progress, approvers, currentUserId, isApproved, canApprove, onApprove, onWithdraw
+}) => {
+  const { approvals, needed, notCounted, missingApprovers } = progress;
+  const approvedByMe = !!currentUserId && approvals.some(approval => approval.userId === currentUserId);
+  const count = Math.min(approvals.length - notCounted.length, needed);
+
+  return (
+    <div className="space-y-2">
+      {!isApproved && (
+        <div>
+          <div className="flex items-center justify-between text-[11px] font-medium text-stone-500 mb-1">
+            <span>{count} of {needed} approvals</span>
+          </div>
+          <div className="h-1.5 bg-stone-100 rounded-full overflow-hidden">
+            <div className="h-full bg-brand-green transition-all" style={{ width: `${(count / needed) * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {approvals.length > 0 && (
+        <ul className="space-y-1">
+          {approvals.map(approval => (
+            <li key={approval.id} className="flex items-start gap-1.5 text-[11px] text-stone-600" title={approval.source === 'review_link' ? 'Approved from a review link' : undefined}>
+              <Check className="w-3 h-3 mt-0.5 text-brand-green shrink-0" />
+              <span className="min-w-0">
+                <span className="font-medium">{approval.approverName}</span>
+                <span className="text-stone-400"> · {formatApprovedAt(approval.createdAt)}</span>
+                {notCounted.includes(approval.id) && <span className="text-stone-400"> (agency - not counted)</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isApproved && missingApprovers.length > 0 && (
+        <ul className="space-y-1">
+          {missingApprovers.map(id => (
+            <li key={id} className="flex items-start gap-1.5 text-[11px] text-stone-400">
+              <Clock className="w-3 h-3 mt-0.5 shrink-0" />
+              <span>{approvers.find(approver => approver.id === id)?.name || 'Required approver'} (required)</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isApproved && approvedByMe && (
+        <button
+          onClick={onWithdraw}
+          className="w-full text-xs flex items-center justify-center gap-1 px-3 py-1.5 border border-stone-300 text-stone-600 rounded hover:bg-stone-50 transition-colors"
+        >
+          <Undo2 className="w-3 h-3" /> Withdraw my approval
+        </button>
+      )}
+
+      {canApprove && !approvedByMe && (
+        <button
+          onClick={onApprove}
+          className="w-full text-xs flex items-center justify-center gap-1 px-3 py-1.5 bg-brand-green text-white rounded hover:bg-emerald-800 transition-colors"
+        >
+          <Check className="w-3 h-3" /> Approve
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Lightbulb, Plus, Film } from 'lucide-react';
+import { Post, ContentPillar } from '../types';
+import { getPillar, getPillarColors } from '../services/pillarService';
+
+interface BacklogSidebarProps {
+  posts: Post[]; // Undated posts only
+  pillars: ContentPillar[];
+  draggedPost: Post | null;
+  onDragStart: (post: Post) => void;
+  onDragEnd: () => void;
+  onDropToBacklog?: (post: Post) => void; // Dropping a dated post here clears its date
+  onAddIdea?: (title: string) => Promise<void>;
+  onSelect: (post: Post) => void;
+}
+
+// Undated ideas next to the calendar - drag one onto a day to schedule it
+export const BacklogSidebar: React.FC<BacklogSidebarProps> = ({ posts, pillars, draggedPost, onDragStart, onDragEnd, onDropToBacklog, onAddIdea, onSelect }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [ideaTitle, setIdeaTitle] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const canDrop = !!onDropToBacklog && !!draggedPost?.date;
+
+  const handleAddIdea = async () => {
+    if (!onAddIdea || !ideaTitle.trim() || adding) return;
+    setAdding(true);
+    try {
+      await onAddIdea(ideaTitle.trim());
+      setIdeaTitle('');
+    } catch (error: any) {
+      alert(error.message || 'Failed to add idea');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <aside
+      className={`w-60 shrink-0 bg-white rounded-lg shadow-sm border p-4 flex flex-col transition-colors ${isDragOver ? 'border-brand-green border-2 bg-brand-green/5' : 'border-stone-300'}`}
+      onDragOver={(e) => {
+        if (!canDrop) return;
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        if (canDrop && draggedPost) onDropToBacklog!(draggedPost);
+        onDragEnd();
+      }}
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <Lightbulb className="w-4 h-4 text-amber-500" />
+        <h3 className="font-serif font-bold text-brand-dark">Ideas Backlog</h3>
+        <span className="ml-auto text-xs text-stone-400">{posts.length}</span>
+      </div>
+      <p className="text-xs text-stone-400 mb-3">
+        Posts without a date. {onDropToBacklog ? 'Drag onto a day to schedule, or drop a post here to unschedule it.' : ''}
+      </p>
+
+      {onAddIdea && (
+        <div className="flex gap-1 mb-3">
+          <input
+            type="text"
+            value={ideaTitle}
+            onChange={(e) => setIdeaTitle(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleAddIdea(); }}
+            placeholder="New idea..."
+            disabled={adding}
+            className="flex-1 min-w-0 px-2 py-1.5 text-xs border border-stone-300 rounded focus:ring-1 focus:ring-brand-green focus:border-brand-green outline-none"
+          />
+          <button
+            onClick={handleAddIdea}
+            disabled={!ideaTitle.trim() || adding}
+            className="px-2 bg-brand-green text-white rounded hover:bg-emerald-800 disabled:opacity-50 transition-colors"
+            title="Add idea"
+          >
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-1.5 overflow-y-auto max-h-[640px]">
+        {posts.length === 0 && (
+          <p className="text-xs text-stone-400 italic text-center py-6">No unscheduled ideas</p>
+        )}
+        {posts.map(post => {
+          const pillar = getPillar(pillars, post.pillarId);
+          const isDragging = draggedPost?.id === post.id;
+          return (
+            <div
+              key={post.id}
+              draggable={!!onDropToBacklog}
+              onDragStart={(e) => {
+                onDragStart(post);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragEnd={onDragEnd}
+              onClick={() => onSelect(post)}
+              className={`flex items-start gap-2 p-2 rounded border border-stone-200 bg-stone-50 hover:bg-stone-100 text-xs transition-colors ${onDropToBacklog ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'} ${isDragging ? 'opacity-50' : ''}`}
+              title={post.generatedCaption || post.title}
+            >
+              {post.imageUrl ? (
+                post.mediaType === 'video' ? (
+                  <div className="w-8 h-8 bg-stone-800 rounded flex items-center justify-center shrink-0">
+                    <Film className="w-4 h-4 text-white" />
+                  </div>
+                ) : (
+                  <img src={post.imageUrl} alt="" className="w-8 h-8 object-cover rounded shrink-0" />
+                )
+              ) : (
+                <span className={`w-1.5 self-stretch rounded-full shrink-0 ${getPillarColors(pillar).dot}`} />
+              )}
+              <div className="min-w-0">
+                <p className="font-medium text-stone-700 truncate">{post.title || 'Untitled idea'}</p>
+                <p className="text-stone-400 truncate">
+                  {post.status}{pillar ? ` · ${pillar.name}` : ''}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
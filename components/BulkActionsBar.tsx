@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Loader2, Trash2, Copy, Sparkles, CalendarClock, Undo2, X } from 'lucide-react';
+import { ContentPillar, PostStatus } from '../types';
+import { MANUAL_STATUSES } from '../services/statusService';
+import { NO_PILLAR } from '../services/pillarService';
+
+interface BulkActionsBarProps {
+  count: number; // Selected posts
+  pillars: ContentPillar[];
+  defaultMonth: string; // YYYY-MM preselected for "Duplicate to"
+  working: string | null; // Progress label while an action runs
+  undoLabel: string | null; // Last action that can still be undone
+  onSetStatus: (status: PostStatus) => void;
+  onShiftDates: (days: number) => void;
+  onSetPillar: (pillarId: string) => void; // '' clears the pillar
+  onDuplicateToMonth: (month: string) => void;
+  onGenerateCaptions: () => void;
+  onDelete: () => void;
+  onClearSelection: () => void;
+  onUndo: () => void;
+  onDismissUndo: () => void;
+}
+
+// Actions for the posts ticked in the table - each one is a single batched write
+export const BulkActionsBar: React.FC<BulkActionsBarProps> = ({
+  count, pillars, defaultMonth, working, undoLabel,
+  onSetStatus, onShiftDates, onSetPillar, onDuplicateToMonth, onGenerateCaptions, onDelete, onClearSelection, onUndo, onDismissUndo
+}) => {
+  const [shiftDays, setShiftDays] = useState(7);
+  const [targetMonth, setTargetMonth] = useState(defaultMonth);
+
+  if (count === 0 && !working && !undoLabel) return null;
+
+  const disabled = !!working;
+  const selectClass = 'text-sm px-2 py-1.5 rounded-lg border border-stone-300 bg-white text-stone-600 focus:outline-none focus:ring-2 focus:ring-brand-green disabled:opacity-50';
+  const buttonClass = 'text-sm px-3 py-1.5 rounded-lg border border-stone-300 bg-white text-stone-700 hover:bg-stone-50 flex items-center gap-1.5 disabled:opacity-50 transition-colors';
+
+  return (
+    <div className="mb-4 space-y-2">
+      {count > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg border border-brand-green/40 bg-brand-green/5">
+          <span className="text-sm font-semibold text-brand-dark mr-1">{count} selected</span>
+
+          <select
+            value=""
+            disabled={disabled}
+            onChange={(e) => e.target.value && onSetStatus(e.target.value as PostStatus)}
+            className={selectClass}
+          >
+            <option value="">Set status...</option>
+            {MANUAL_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+          </select>
+
+          {pillars.length > 0 && (
+            <select
+              value=""
+              disabled={disabled}
+              onChange={(e) => e.target.value && onSetPillar(e.target.value === NO_PILLAR ? '' : e.target.value)}
+              className={selectClass}
+            >
+              <option value="">Set pillar...</option>
+              {pillars.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              <option value={NO_PILLAR}>No pillar</option>
+            </select>
+          )}
+
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              value={shiftDays}
+              onChange={(e) => setShiftDays(parseInt(e.target.value, 10) || 0)}
+              disabled={disabled}
+              className="w-16 text-sm px-2 py-1.5 rounded-lg border border-stone-300 focus:outline-none focus:ring-2 focus:ring-brand-green"
+              title="Days to move (negative moves earlier)"
+            />
+            <button onClick={() => onShiftDates(shiftDays)} disabled={disabled || shiftDays === 0} className={buttonClass}>
+              <CalendarClock className="w-3.5 h-3.5" /> Shift days
+            </button>
+          </div>
+
+          <div className="flex items-center gap-1">
+            <input
+              type="month"
+              value={targetMonth}
+              onChange={(e) => setTargetMonth(e.target.value)}
+              disabled={disabled}
+              className="text-sm px-2 py-1.5 rounded-lg border border-stone-300 focus:outline-none focus:ring-2 focus:ring-brand-green"
+            />
+            <button onClick={() => onDuplicateToMonth(targetMonth)} disabled={disabled || !targetMonth} className={buttonClass}>
+              <Copy className="w-3.5 h-3.5" /> Duplicate to
+            </button>
+          </div>
+
+          <button onClick={onGenerateCaptions} disabled={disabled} className={buttonClass}>
+            <Sparkles className="w-3.5 h-3.5" /> AI captions
+          </button>
+
+          <button onClick={onDelete} disabled={disabled} className={`${buttonClass} text-red-600 hover:bg-red-50`}>
+            <Trash2 className="w-3.5 h-3.5" /> Delete
+          </button>
+
+          <button onClick={onClearSelection} disabled={disabled} className="ml-auto text-sm text-stone-500 hover:text-brand-dark">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {working && (
+        <div className="flex items-center gap-2 text-sm text-stone-600">
+          <Loader2 className="w-4 h-4 animate-spin" /> {working}
+        </div>
+      )}
+
+      {!working && undoLabel && (
+        <div className="inline-flex items-center gap-3 px-3 py-2 rounded-lg bg-brand-dark text-white text-sm shadow">
+          <span>{undoLabel}</span>
+          <button onClick={onUndo} className="flex items-center gap-1 font-semibold text-emerald-300 hover:text-emerald-200">
+            <Undo2 className="w-3.5 h-3.5" /> Undo
+          </button>
+          <button onClick={onDismissUndo} className="text-white/60 hover:text-white" title="Dismiss">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
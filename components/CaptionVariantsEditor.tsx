@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { X, Sparkles, Loader2, RotateCcw, AlertCircle } from 'lucide-react';
+import { Post, CaptionVariants, SocialPlatform } from '../types';
+import {
+  PLATFORMS,
+  PLATFORM_LIMITS,
+  countChars,
+  formatCaption,
+  getPlatformCaption,
+  getCaptionIssues,
+  hasVariant,
+} from '../services/captionService';
+import { generateCaptionVariants } from '../services/geminiService';
+
+interface CaptionVariantsEditorProps {
+  post: Post;
+  brandName: string;
+  clientNotes?: string;
+  canGenerate: boolean; // AI generation is agency-only
+  disabled?: boolean;
+  onSave: (variants: CaptionVariants) => void;
+  onClose: () => void;
+}
+
+const parseHashtags = (value: string): string[] =>
+  value
+    .split(/[\s#]+/)
+    .filter(tag => tag.trim().length > 0)
+    .map(tag => tag.replace(/^#/, ''));
+
+// Per-platform caption overrides - empty fields fall back to the base caption/hashtags
+export const CaptionVariantsEditor: React.FC<CaptionVariantsEditorProps> = ({
+  post,
+  brandName,
+  clientNotes,
+  canGenerate,
+  disabled,
+  onSave,
+  onClose,
+}) => {
+  const [variants, setVariants] = useState<CaptionVariants>(post.captionVariants || {});
+  const [activePlatform, setActivePlatform] = useState<SocialPlatform>('instagram');
+  const [hashtagDrafts, setHashtagDrafts] = useState<Partial<Record<SocialPlatform, string>>>({});
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const draftPost = { ...post, captionVariants: variants };
+  const variant = variants[activePlatform] || {};
+  const limits = PLATFORM_LIMITS[activePlatform];
+  const resolved = getPlatformCaption(draftPost, activePlatform);
+  const length = countChars(formatCaption(resolved.caption, resolved.hashtags));
+  const hashtagText = hashtagDrafts[activePlatform] ?? (variant.hashtags || []).map(tag => `#${tag}`).join(' ');
+
+  const updateVariant = (platform: SocialPlatform, changes: Partial<{ caption: string; hashtags: string[] }>) => {
+    setVariants(prev => ({ ...prev, [platform]: { ...prev[platform], ...changes } }));
+  };
+
+  const resetVariant = (platform: SocialPlatform) => {
+    setVariants(prev => {
+      const next = { ...prev };
+      delete next[platform];
+      return next;
+    });
+    setHashtagDrafts(prev => ({ ...prev, [platform]: undefined }));
+  };
+
+  const handleGenerate = async () => {
+    if (!post.generatedCaption) {
+      setError('Write or generate the base caption first');
+      return;
+    }
+
+    setGenerating(true);
+    setError(null);
+    try {
+      const generated = await generateCaptionVariants(
+        post.generatedCaption,
+        post.generatedHashtags || [],
+        PLATFORMS,
+        brandName,
+        clientNotes
+      );
+      setVariants(prev => ({ ...prev, ...generated }));
+      setHashtagDrafts({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate variants');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // Drop empty overrides so they keep following the base caption
+  const handleSave = () => {
+    const cleaned: CaptionVariants = {};
+    for (const platform of PLATFORMS) {
+      const current = variants[platform];
+      const caption = current?.caption?.trim() ? current.caption : undefined;
+      const hashtags = current?.hashtags && current.hashtags.length > 0 ? current.hashtags : undefined;
+      if (caption || hashtags) {
+        cleaned[platform] = { caption, hashtags };
+      }
+    }
+    onSave(cleaned);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-stone-200 flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-serif font-bold text-brand-dark">Platform Captions</h2>
+            <p className="text-sm text-stone-500 mt-1">Leave a field empty to use the base caption and hashtags.</p>
+          </div>
+          <button onClick={onClose} className="text-stone-400 hover:text-stone-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Platform tabs */}
+        <div className="flex border-b border-stone-200 px-6 gap-1 overflow-x-auto">
+          {PLATFORMS.map(platform => {
+            const issues = getCaptionIssues(draftPost, platform);
+            return (
+              <button
+                key={platform}
+                onClick={() => setActivePlatform(platform)}
+                className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors flex items-center gap-1.5 whitespace-nowrap ${
+                  activePlatform === platform
+                    ? 'border-brand-green text-brand-green'
+                    : 'border-transparent text-stone-500 hover:text-stone-700'
+                }`}
+              >
+                {PLATFORM_LIMITS[platform].label}
+                {issues.length > 0 ? (
+                  <span className="w-1.5 h-1.5 rounded-full bg-red-500" title={issues.join(', ')}></span>
+                ) : hasVariant(draftPost, platform) && (
+                  <span className="w-1.5 h-1.5 rounded-full bg-brand-green" title="Custom caption"></span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Editor */}
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs font-semibold uppercase tracking-wider text-stone-500">Caption</label>
+              {hasVariant(draftPost, activePlatform) && !disabled && (
+                <button
+                  onClick={() => resetVariant(activePlatform)}
+                  className="text-xs flex items-center gap-1 text-stone-500 hover:text-brand-dark transition-colors"
+                >
+                  <RotateCcw className="w-3 h-3" /> Use base caption
+                </button>
+              )}
+            </div>
+            <textarea
+              value={variant.caption || ''}
+              onChange={(e) => updateVariant(activePlatform, { caption: e.target.value })}
+              placeholder={post.generatedCaption || 'No base caption yet'}
+              disabled={disabled}
+              className="w-full min-h-[180px] p-3 text-sm leading-relaxed border border-stone-200 rounded focus:ring-1 focus:ring-brand-green focus:border-brand-green outline-none resize-y"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold uppercase tracking-wider text-stone-500 mb-1">
+              Hashtags{limits.maxHashtags !== null && ` (max ${limits.maxHashtags})`}
+            </label>
+            <input
+              type="text"
+              value={hashtagText}
+              onChange={(e) => {
+                setHashtagDrafts(prev => ({ ...prev, [activePlatform]: e.target.value }));
+                updateVariant(activePlatform, { hashtags: parseHashtags(e.target.value) });
+              }}
+              placeholder={(post.generatedHashtags || []).map(tag => `#${tag}`).join(' ') || '#hashtag1 #hashtag2'}
+              disabled={disabled}
+              className="w-full p-2 text-xs text-brand-green bg-brand-green/5 border border-brand-green/20 rounded focus:ring-1 focus:ring-brand-green focus:border-brand-green outline-none"
+            />
+          </div>
+
+          {/* Limits */}
+          <div className="flex items-center justify-between text-xs">
+            <span className={length > limits.maxChars ? 'text-red-600 font-medium' : 'text-stone-500'}>
+              {length.toLocaleString()} / {limits.maxChars.toLocaleString()} characters
+            </span>
+            {getCaptionIssues(draftPost, activePlatform).length > 0 && (
+              <span className="flex items-center gap-1 text-red-600">
+                <AlertCircle className="w-3.5 h-3.5" />
+                Over the {limits.label} limit - extra hashtags then text will be cut when posting
+              </span>
+            )}
+          </div>
+
+          {error && (
+            <p className="text-xs text-red-600 bg-red-50 px-3 py-2 rounded">{error}</p>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="p-6 border-t border-stone-200 flex items-center justify-between">
+          {canGenerate && !disabled ? (
+            <button
+              onClick={handleGenerate}
+              disabled={generating}
+              className="text-sm flex items-center gap-2 text-brand-green hover:text-emerald-700 transition-colors disabled:opacity-50"
+            >
+              {generating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+              {generating ? 'Generating...' : 'Generate all with AI'}
+            </button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors"
+            >
+              {disabled ? 'Close' : 'Cancel'}
+            </button>
+            {!disabled && (
+              <button
+                onClick={handleSave}
+                disabled={generating}
+                className="px-4 py-2 text-sm bg-brand-dark text-white rounded-lg hover:bg-black transition-colors disabled:opacity-50"
+              >
+                Save Captions
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
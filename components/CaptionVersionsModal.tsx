@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, RotateCcw } from 'lucide-react';
+import { Post, CaptionVersion } from '../types';
+import { getCaptionVersions, getVersionText, diffWords, CAPTION_SOURCE_LABELS } from '../services/captionVersionService';
+
+interface CaptionVersionsModalProps {
+  post: Post;
+  disabled?: boolean;
+  onRestore: (version: CaptionVersion) => void;
+  onClose: () => void;
+}
+
+const formatVersionDate = (value: string): string =>
+  new Date(value).toLocaleString('en-AU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Caption history - compare any version with the current caption and restore it
+export const CaptionVersionsModal: React.FC<CaptionVersionsModalProps> = ({ post, disabled, onRestore, onClose }) => {
+  const [versions, setVersions] = useState<CaptionVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    getCaptionVersions(post.id)
+      .then(loaded => {
+        setVersions(loaded);
+        // Start on the newest version that differs from the current caption
+        const currentText = getVersionText({ caption: post.generatedCaption || '', hashtags: post.generatedHashtags || [] });
+        const previous = loaded.find(v => getVersionText(v) !== currentText) || loaded[0];
+        setSelectedId(previous?.id || null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load caption versions'))
+      .finally(() => setLoading(false));
+  }, [post.id]);
+
+  const currentText = getVersionText({ caption: post.generatedCaption || '', hashtags: post.generatedHashtags || [] });
+  const selected = versions.find(v => v.id === selectedId);
+  const firstVersion = versions[versions.length - 1];
+  const segments = selected ? diffWords(getVersionText(selected), currentText) : [];
+
+  const handleRestore = (version: CaptionVersion) => {
+    onRestore(version);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-stone-200 flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-serif font-bold text-brand-dark">Caption Versions</h2>
+            <p className="text-sm text-stone-500 mt-1">Every caption and hashtag change, with who made it and how.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {firstVersion && !disabled && getVersionText(firstVersion) !== currentText && (
+              <button
+                onClick={() => handleRestore(firstVersion)}
+                className="text-sm flex items-center gap-1.5 px-3 py-1.5 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors"
+              >
+                <RotateCcw className="w-3.5 h-3.5" /> Restore first version
+              </button>
+            )}
+            <button onClick={onClose} className="text-stone-400 hover:text-stone-600 transition-colors">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-stone-400 py-12 justify-center">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading versions...
+          </div>
+        ) : error ? (
+          <p className="m-6 text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-stone-400 py-12 text-center">No caption versions recorded yet</p>
+        ) : (
+          <div className="flex min-h-0 flex-1">
+            {/* Version list */}
+            <ul className="w-64 shrink-0 border-r border-stone-200 overflow-y-auto">
+              {versions.map((version, index) => {
+                const isCurrent = getVersionText(version) === currentText;
+                return (
+                  <li key={version.id}>
+                    <button
+                      onClick={() => setSelectedId(version.id)}
+                      className={`w-full text-left px-4 py-3 border-b border-stone-100 transition-colors ${version.id === selectedId ? 'bg-brand-green/10' : 'hover:bg-stone-50'}`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-xs font-semibold text-stone-700">{CAPTION_SOURCE_LABELS[version.source] || version.source}</span>
+                        {isCurrent ? (
+                          <span className="text-[10px] font-bold uppercase text-brand-green">Current</span>
+                        ) : index === versions.length - 1 && (
+                          <span className="text-[10px] font-bold uppercase text-stone-400">First</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-stone-400 mt-0.5">{version.actorName} · {formatVersionDate(version.createdAt)}</p>
+                      <p className="text-xs text-stone-500 mt-1 line-clamp-2">{version.caption || '(no caption)'}</p>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {/* Side-by-side diff against the current caption */}
+            {selected && (
+              <div className="flex-1 flex flex-col min-w-0">
+                <div className="grid grid-cols-2 gap-4 p-6 overflow-y-auto flex-1">
+                  <div>
+                    <h3 className="text-xs font-bold text-stone-500 uppercase tracking-wide mb-2">
+                      {CAPTION_SOURCE_LABELS[selected.source]} · {formatVersionDate(selected.createdAt)}
+                    </h3>
+                    <p className="text-sm text-stone-700 leading-relaxed whitespace-pre-wrap break-words bg-stone-50 p-3 rounded-lg">
+                      {segments.filter(s => s.type !== 'added').map((segment, i) => (
+                        <span key={i} className={segment.type === 'removed' ? 'bg-red-100 text-red-800 line-through' : ''}>{segment.text}</span>
+                      ))}
+                    </p>
+                  </div>
+                  <div>
+                    <h3 className="text-xs font-bold text-stone-500 uppercase tracking-wide mb-2">Current</h3>
+                    <p className="text-sm text-stone-700 leading-relaxed whitespace-pre-wrap break-words bg-stone-50 p-3 rounded-lg">
+                      {segments.filter(s => s.type !== 'removed').map((segment, i) => (
+                        <span key={i} className={segment.type === 'added' ? 'bg-emerald-100 text-emerald-800' : ''}>{segment.text}</span>
+                      ))}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="p-6 border-t border-stone-200 flex items-center justify-between">
+                  <span className="text-xs text-stone-400">
+                    <span className="bg-red-100 text-red-800 px-1 rounded">Removed</span> and{' '}
+                    <span className="bg-emerald-100 text-emerald-800 px-1 rounded">added</span> since this version
+                  </span>
+                  {!disabled && (
+                    <button
+                      onClick={() => handleRestore(selected)}
+                      disabled={getVersionText(selected) === currentText}
+                      className="px-4 py-2 text-sm bg-brand-dark text-white rounded-lg hover:bg-black transition-colors disabled:opacity-50 flex items-center gap-2"
+                    >
+                      <RotateCcw className="w-4 h-4" /> Restore this version
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
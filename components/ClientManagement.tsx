@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
-import { ChevronLeft, ChevronRight, Sparkles, Check, Clock, AlertTriangle, Loader2 } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Sparkles, Check, Clock, AlertTriangle, Loader2, XCircle, CalendarClock, Hourglass } from 'lucide-react';
 import { Client, Post } from '../types';
 import { supabase } from '../services/supabaseClient';
+import { getApprovalRisk } from '../services/approvalService';
+import { subscribeToPostChanges, PostRowChange } from '../services/realtimeService';
 
 interface ClientManagementProps {
   clients: Client[];
@@ -9,7 +11,7 @@ interface ClientManagementProps {
 }
 
 // Weekly status types
-type WeeklyStatusType = 'posted' | 'approved' | 'awaiting' | 'in_progress' | 'outstanding' | 'no_posts';
+type WeeklyStatusType = 'published' | 'scheduled' | 'approved' | 'awaiting' | 'at_risk' | 'in_progress' | 'outstanding' | 'failed' | 'no_posts';
 
 interface WeeklyStatusInfo {
   type: WeeklyStatusType;
@@ -46,7 +48,7 @@ const getWeekDates = (weekStart: Date): Date[] => {
 };
 
 // Determine the weekly status for a client's posts
-const getWeeklyStatusInfo = (posts: Post[], today: Date): WeeklyStatusInfo => {
+const getWeeklyStatusInfo = (posts: Post[], client: Client, today: Date): WeeklyStatusInfo => {
   const todayStr = formatDateKey(today);
 
   if (posts.length === 0) {
@@ -59,15 +61,27 @@ const getWeeklyStatusInfo = (posts: Post[], today: Date): WeeklyStatusInfo => {
     };
   }
 
+  // Failed schedules/publishes need attention before anything else
+  if (posts.some(post => post.status === 'Failed')) {
+    return {
+      type: 'failed',
+      label: 'Failed',
+      bgColor: 'bg-red-700',
+      textColor: 'text-white',
+      icon: <XCircle className="w-5 h-5" />
+    };
+  }
+
   // Check for outstanding posts:
-  // ONLY posts where the date has PASSED (before today) and not posted are outstanding
+  // ONLY posts where the date has PASSED (before today) and never handed off are outstanding
   const hasOutstanding = posts.some(post => {
     const postDate = post.date;
+    if (!postDate) return false; // Backlog ideas aren't due yet
     const isPastDate = postDate < todayStr; // Date is before today
-    const notPosted = post.status !== 'Posted';
+    const notHandedOff = post.status !== 'Scheduled' && post.status !== 'Published';
 
-    // Outstanding ONLY if: date has passed AND not posted
-    return isPastDate && notPosted;
+    // Outstanding ONLY if: date has passed AND not scheduled or published
+    return isPastDate && notHandedOff;
   });
 
   if (hasOutstanding) {
@@ -80,28 +94,52 @@ const getWeeklyStatusInfo = (posts: Post[], today: Date): WeeklyStatusInfo => {
     };
   }
 
-  // Check if all posts are posted
-  const allPosted = posts.every(post => post.status === 'Posted');
-  if (allPosted) {
+  // Posts still awaiting approval that are near or past their approval deadline
+  const hasAtRisk = posts.some(post => getApprovalRisk(post, client, todayStr));
+  if (hasAtRisk) {
+    return {
+      type: 'at_risk',
+      label: 'At Risk',
+      bgColor: 'bg-orange-500',
+      textColor: 'text-white',
+      icon: <Hourglass className="w-5 h-5" />
+    };
+  }
+
+  // Check if all posts are published
+  const allPublished = posts.every(post => post.status === 'Published');
+  if (allPublished) {
     return {
-      type: 'posted',
-      label: 'Posted',
+      type: 'published',
+      label: 'Published',
       bgColor: 'bg-emerald-500',
       textColor: 'text-white',
       icon: <Check className="w-5 h-5" />
     };
   }
 
+  // Check if every post is queued with Late (or already out)
+  const allScheduled = posts.every(post => post.status === 'Scheduled' || post.status === 'Published');
+  if (allScheduled) {
+    return {
+      type: 'scheduled',
+      label: 'Scheduled',
+      bgColor: 'bg-blue-500',
+      textColor: 'text-white',
+      icon: <CalendarClock className="w-5 h-5" />
+    };
+  }
+
   // Check if any posts are awaiting approval (For Approval status)
   const hasAwaitingApproval = posts.some(post => post.status === 'For Approval');
 
-  // Check if any posts are approved but not posted
+  // Check if any posts are approved but not scheduled
   const hasApproved = posts.some(post => post.status === 'Approved');
 
   // Check if any posts are in progress (Draft or Generated)
   const hasInProgress = posts.some(post => post.status === 'Draft' || post.status === 'Generated');
 
-  // Priority: Outstanding > In Progress > Awaiting Approval > Approved > Posted
+  // Priority: Failed > Outstanding > At Risk > In Progress > Awaiting Approval > Approved > Scheduled > Published
   // (Show the "worst" status that needs attention)
 
   if (hasInProgress) {
@@ -144,29 +182,65 @@ const getWeeklyStatusInfo = (posts: Post[], today: Date): WeeklyStatusInfo => {
   };
 };
 
+// The few fields the weekly grid needs from a posts row
+const toWeekPost = (post: Record<string, any>): Post => ({
+  id: post.id,
+  client_id: post.client_id,
+  title: post.title,
+  date: post.date,
+  status: post.status,
+  imageDescription: post.image_description || '',
+  imageUrl: post.image_url || '',
+  mediaType: post.media_type || 'image',
+  generatedCaption: post.generated_caption || '',
+  generatedHashtags: post.generated_hashtags || [],
+  publishError: post.publish_error || '',
+});
+
+// Posts by client with one post taken out and, if it is a live post in the week, put back in date order
+const placeWeekPost = (
+  byClient: Record<string, Post[]>,
+  id: string,
+  row: Record<string, any> | null,
+  startStr: string,
+  endStr: string
+): Record<string, Post[]> => {
+  const next: Record<string, Post[]> = {};
+  for (const [clientId, posts] of Object.entries(byClient)) {
+    next[clientId] = posts.filter(post => post.id !== id);
+  }
+
+  if (row && !row.deleted_at && row.date && row.date >= startStr && row.date <= endStr) {
+    next[row.client_id] = [...(next[row.client_id] || []), toWeekPost(row)]
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+  return next;
+};
+
 export function ClientManagement({ clients, onClientSelect }: ClientManagementProps) {
   const [currentWeekStart, setCurrentWeekStart] = useState(() => getMonday(new Date()));
   const [allPosts, setAllPosts] = useState<Record<string, Post[]>>({});
   const [loading, setLoading] = useState(true);
 
-  // Fetch all posts for all clients
+  // Fetch all posts for all clients, then keep the week live
   useEffect(() => {
-    const fetchAllPosts = async () => {
-      setLoading(true);
+    // Get date range for the week
+    const weekEnd = new Date(currentWeekStart);
+    weekEnd.setDate(currentWeekStart.getDate() + 6);
 
-      // Get date range for the week
-      const weekEnd = new Date(currentWeekStart);
-      weekEnd.setDate(currentWeekStart.getDate() + 6);
+    const startStr = formatDateKey(currentWeekStart);
+    const endStr = formatDateKey(weekEnd);
 
-      const startStr = formatDateKey(currentWeekStart);
-      const endStr = formatDateKey(weekEnd);
+    const fetchAllPosts = async (showLoading: boolean) => {
+      if (showLoading) setLoading(true);
 
-      // Fetch posts for all clients within the week
+      // Fetch posts for all clients within the week (undated backlog ideas never match)
       const { data, error } = await supabase
         .from('posts')
         .select('*')
         .gte('date', startStr)
         .lte('date', endStr)
+        .is('deleted_at', null)
         .order('date', { ascending: true });
 
       if (error) {
@@ -181,26 +255,36 @@ export function ClientManagement({ clients, onClientSelect }: ClientManagementPr
         if (!postsByClient[post.client_id]) {
           postsByClient[post.client_id] = [];
         }
-        postsByClient[post.client_id].push({
-          id: post.id,
-          client_id: post.client_id,
-          title: post.title,
-          date: post.date,
-          status: post.status,
-          imageDescription: post.image_description || '',
-          imageUrl: post.image_url || '',
-          mediaType: post.media_type || 'image',
-          generatedCaption: post.generated_caption || '',
-          generatedHashtags: post.generated_hashtags || [],
-          notes: post.notes || ''
-        });
+        postsByClient[post.client_id].push(toWeekPost(post));
       }
 
       setAllPosts(postsByClient);
       setLoading(false);
     };
 
-    fetchAllPosts();
+    const applyChange = async (change: PostRowChange) => {
+      if (change.type === 'delete') {
+        setAllPosts(prev => placeWeekPost(prev, change.id, null, startStr, endStr));
+      } else if (change.type === 'upsert') {
+        setAllPosts(prev => placeWeekPost(prev, change.row.id, change.row, startStr, endStr));
+      } else {
+        const { data, error } = await supabase.from('posts').select('*').eq('id', change.id).maybeSingle();
+        if (error) {
+          console.error('Error loading changed post:', error);
+          return;
+        }
+        setAllPosts(prev => placeWeekPost(prev, change.id, data, startStr, endStr));
+      }
+    };
+
+    fetchAllPosts(true);
+
+    // Every client the user can see - changes are placed into (or out of) the week as they happen
+    return subscribeToPostChanges({
+      channelName: 'weekly-posts',
+      onChange: applyChange,
+      onResync: () => fetchAllPosts(false),
+    });
   }, [currentWeekStart]);
 
   const weekDates = getWeekDates(currentWeekStart);
@@ -226,7 +310,7 @@ export function ClientManagement({ clients, onClientSelect }: ClientManagementPr
   const weekRangeStr = `${currentWeekStart.toLocaleDateString('en-AU', { month: 'short', day: 'numeric' })} - ${weekEnd.toLocaleDateString('en-AU', { month: 'short', day: 'numeric' })}`;
 
   // Filter to only show non-master clients
-  const displayClients = clients.filter(c => c.pin !== '1991');
+  const displayClients = clients.filter(c => !c.is_agency);
 
   // Check if today is in the current week
   const today = new Date();
@@ -263,7 +347,11 @@ export function ClientManagement({ clients, onClientSelect }: ClientManagementPr
         <div className="flex items-center gap-4 text-xs">
           <div className="flex items-center gap-1.5">
             <div className="w-3 h-3 rounded bg-emerald-500"></div>
-            <span className="text-stone-500">Posted</span>
+            <span className="text-stone-500">Published</span>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-3 h-3 rounded bg-blue-500"></div>
+            <span className="text-stone-500">Scheduled</span>
           </div>
           <div className="flex items-center gap-1.5">
             <div className="w-3 h-3 rounded bg-sky-400"></div>
@@ -273,6 +361,10 @@ export function ClientManagement({ clients, onClientSelect }: ClientManagementPr
             <div className="w-3 h-3 rounded bg-amber-400"></div>
             <span className="text-stone-500">Awaiting Approval</span>
           </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-3 h-3 rounded bg-orange-500"></div>
+            <span className="text-stone-500">At Risk</span>
+          </div>
           <div className="flex items-center gap-1.5">
             <div className="w-3 h-3 rounded bg-stone-400"></div>
             <span className="text-stone-500">In Progress</span>
@@ -281,6 +373,10 @@ export function ClientManagement({ clients, onClientSelect }: ClientManagementPr
             <div className="w-3 h-3 rounded bg-red-500"></div>
             <span className="text-stone-500">Outstanding</span>
           </div>
+          <div className="flex items-center gap-1.5">
+            <div className="w-3 h-3 rounded bg-red-700"></div>
+            <span className="text-stone-500">Failed</span>
+          </div>
           <button
             className="ml-2 flex items-center gap-1.5 px-3 py-1.5 bg-rose-500 hover:bg-rose-600 text-white rounded-lg font-medium transition-colors"
             title="AI Status Report (Coming Soon)"
@@ -357,7 +453,7 @@ export function ClientManagement({ clients, onClientSelect }: ClientManagementPr
 
                 // Get all posts for this client this week
                 const clientPosts = allPosts[client.id] || [];
-                const statusInfo = getWeeklyStatusInfo(clientPosts, today);
+                const statusInfo = getWeeklyStatusInfo(clientPosts, client, today);
                 const postCount = clientPosts.length;
 
                 return (
@@ -392,7 +488,7 @@ export function ClientManagement({ clients, onClientSelect }: ClientManagementPr
                         {statusInfo.icon}
                         <span className="font-semibold">{statusInfo.label}</span>
                         {postCount > 0 && (
-                          <span className={`text-sm ${statusInfo.type === 'awaiting' || statusInfo.type === 'outstanding' ? '' : 'opacity-80'}`}>
+                          <span className={`text-sm ${statusInfo.type === 'awaiting' || statusInfo.type === 'at_risk' || statusInfo.type === 'outstanding' || statusInfo.type === 'failed' ? '' : 'opacity-80'}`}>
                             ({postCount} post{postCount !== 1 ? 's' : ''})
                           </span>
                         )}
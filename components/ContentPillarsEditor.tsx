@@ -0,0 +1,55 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { ContentPillar } from '../types';
+import { PILLAR_COLORS, PILLAR_COLOR_OPTIONS, nextPillarColor } from '../services/pillarService';
+
+interface ContentPillarsEditorProps {
+  pillars: ContentPillar[];
+  onChange: (pillars: ContentPillar[]) => void;
+}
+
+// Client settings - name and colour each content pillar
+export const ContentPillarsEditor: React.FC<ContentPillarsEditorProps> = ({ pillars, onChange }) => {
+  const update = (id: string, changes: Partial<ContentPillar>) => {
+    onChange(pillars.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  return (
+    <div className="space-y-2">
+      {pillars.map(pillar => (
+        <div key={pillar.id} className="flex items-center gap-2">
+          <div className="flex gap-1">
+            {PILLAR_COLOR_OPTIONS.map(color => (
+              <button
+                key={color}
+                onClick={() => update(pillar.id, { color })}
+                className={`w-4 h-4 rounded-full ${PILLAR_COLORS[color].dot} ${pillar.color === color ? 'ring-2 ring-offset-1 ring-stone-500' : 'opacity-40 hover:opacity-100'}`}
+                title={color}
+              />
+            ))}
+          </div>
+          <input
+            type="text"
+            value={pillar.name}
+            onChange={(e) => update(pillar.id, { name: e.target.value })}
+            placeholder="Pillar name"
+            className="flex-1 px-3 py-1.5 border border-stone-300 rounded-lg focus:ring-2 focus:ring-brand-green focus:border-brand-green outline-none text-sm"
+          />
+          <button
+            onClick={() => onChange(pillars.filter(p => p.id !== pillar.id))}
+            className="p-1.5 text-stone-400 hover:text-red-500 transition-colors"
+            title="Remove pillar (posts using it become unassigned)"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...pillars, { id: crypto.randomUUID(), name: '', color: nextPillarColor(pillars) }])}
+        className="flex items-center gap-1.5 text-sm text-stone-600 hover:text-brand-green transition-colors"
+      >
+        <Plus className="w-4 h-4" /> Add pillar
+      </button>
+    </div>
+  );
+};
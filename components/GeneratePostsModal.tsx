@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { X, Sparkles, Loader2, Calendar, Hash, HardDrive, CheckCircle2 } from 'lucide-react';
-import { Client } from '../types';
+import { X, Sparkles, Loader2, Calendar, Hash, HardDrive, CheckCircle2, Tag } from 'lucide-react';
+import { Client, ContentPillar } from '../types';
 import { supabase } from '../services/supabaseClient';
 import { v4 as uuidv4 } from 'uuid';
 import {
@@ -12,6 +12,8 @@ import {
   DriveFile
 } from '../services/driveService';
 import { uploadImage } from '../services/storageService';
+import { CHANGE_SOURCE_HEADER } from '../services/postHistoryService';
+import { getClientPillars, getPillar, getPillarColors, planPillarMix } from '../services/pillarService';
 
 interface GeneratePostsModalProps {
   client: Client;
@@ -46,7 +48,8 @@ const generateContentIdeas = async (
   brandTone: string,
   brandKeywords: string[],
   clientNotes: string,
-  numberOfPosts: number
+  numberOfPosts: number,
+  pillarPlan: (ContentPillar | undefined)[] = []
 ): Promise<{ caption: string; hashtags: string[] }[]> => {
   const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
   if (!apiKey) {
@@ -104,9 +107,16 @@ const generateContentIdeas = async (
     },
   });
 
+  // One line per post when a pillar mix was chosen - posts come back in the same order
+  const pillarLines = pillarPlan.some(Boolean)
+    ? `\n    Content pillars - write each post for its pillar, in this order:\n${pillarPlan
+        .map((pillar, i) => `    ${i + 1}. ${pillar ? pillar.name : 'Any topic'}`)
+        .join('\n')}\n`
+    : '';
+
   const prompt = `
     Generate ${numberOfPosts} unique Instagram post ideas for ${brandName}.
-
+${pillarLines}
     Each post should:
     - Have a unique topic or angle that showcases the brand
     - Include an engaging caption with a hook, value proposition, and call to action
@@ -139,6 +149,13 @@ export function GeneratePostsModal({ client, onClose, onPostsGenerated }: Genera
     return tomorrow.toISOString().split('T')[0];
   });
   const [frequency, setFrequency] = useState<'daily' | 'every2days' | 'every3days' | 'weekly'>('every2days');
+  const pillars = getClientPillars(client);
+  const [pillarMix, setPillarMix] = useState<Record<string, number>>({}); // Pillar id -> percent of posts
+
+  // Which pillar each post will be written for
+  const pillarPlan = planPillarMix(pillarMix, numberOfPosts);
+  const mixTotal = Object.values(pillarMix).reduce((sum, percent) => sum + percent, 0);
+
   const [generating, setGenerating] = useState(false);
   const [progress, setProgress] = useState('');
   const [error, setError] = useState<string | null>(null);
@@ -203,7 +220,8 @@ export function GeneratePostsModal({ client, onClose, onPostsGenerated }: Genera
         client.brand_tone || '',
         client.brand_keywords || [],
         client.client_notes || '',
-        numberOfPosts
+        numberOfPosts,
+        pillarPlan.map(id => getPillar(pillars, id))
       );
 
       if (contentIdeas.length === 0) {
@@ -283,9 +301,10 @@ export function GeneratePostsModal({ client, onClose, onPostsGenerated }: Genera
           status: 'Generated',
           image_description: '',
           image_url: imageUrl,
+          media_items: imageUrl ? [{ url: imageUrl, type: 'image' }] : [],
           generated_caption: idea.caption,
           generated_hashtags: idea.hashtags,
-          notes: '',
+          pillar: pillarPlan[i] || null,
         });
       }
 
@@ -294,7 +313,8 @@ export function GeneratePostsModal({ client, onClose, onPostsGenerated }: Genera
       // Insert all posts
       const { error: insertError } = await supabase
         .from('posts')
-        .insert(postsToCreate);
+        .insert(postsToCreate)
+        .setHeader(CHANGE_SOURCE_HEADER, 'ai_generate');
 
       if (insertError) {
         throw new Error(`Failed to create posts: ${insertError.message}`);
@@ -412,6 +432,43 @@ export function GeneratePostsModal({ client, onClose, onPostsGenerated }: Genera
             </select>
           </div>
 
+          {/* Pillar Mix */}
+          {pillars.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-2">
+                <Tag className="w-4 h-4 inline mr-1" />
+                Pillar Mix
+              </label>
+              <div className="space-y-2">
+                {pillars.map(pillar => (
+                  <div key={pillar.id} className="flex items-center gap-3">
+                    <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${getPillarColors(pillar).dot}`} />
+                    <span className="flex-1 text-sm text-stone-600 truncate">{pillar.name}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="10"
+                      value={pillarMix[pillar.id] || ''}
+                      onChange={(e) => setPillarMix({ ...pillarMix, [pillar.id]: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+                      disabled={generating}
+                      placeholder="0"
+                      className="w-20 px-3 py-1.5 border border-stone-300 rounded-lg text-sm focus:ring-2 focus:ring-brand-green focus:border-brand-green"
+                    />
+                    <span className="text-sm text-stone-400">%</span>
+                  </div>
+                ))}
+              </div>
+              <p className={`text-xs mt-2 ${mixTotal > 100 ? 'text-red-600' : 'text-stone-400'}`}>
+                {mixTotal === 0
+                  ? 'Leave at 0% to let the AI pick topics freely.'
+                  : mixTotal > 100
+                    ? `Adds up to ${mixTotal}% - percentages will be scaled down to fit.`
+                    : `${mixTotal}% assigned${mixTotal < 100 ? ` - the other ${100 - mixTotal}% are free topics` : ''}.`}
+              </p>
+            </div>
+          )}
+
           {/* Google Drive Images Option */}
           <div className={`rounded-lg p-4 ${canIncludeImages ? 'bg-blue-50 border border-blue-200' : 'bg-stone-50 border border-stone-200'}`}>
             <div className="flex items-start gap-3">
@@ -461,14 +518,19 @@ export function GeneratePostsModal({ client, onClose, onPostsGenerated }: Genera
               Scheduled Dates Preview
             </h4>
             <div className="flex flex-wrap gap-2">
-              {previewDates.slice(0, 10).map((date, idx) => (
-                <span
-                  key={idx}
-                  className="px-2 py-1 bg-white border border-stone-200 rounded text-xs text-stone-600"
-                >
-                  {new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })}
-                </span>
-              ))}
+              {previewDates.slice(0, 10).map((date, idx) => {
+                const pillar = getPillar(pillars, pillarPlan[idx]);
+                return (
+                  <span
+                    key={idx}
+                    className="px-2 py-1 bg-white border border-stone-200 rounded text-xs text-stone-600 flex items-center gap-1"
+                    title={pillar?.name}
+                  >
+                    {pillar && <span className={`w-2 h-2 rounded-full ${getPillarColors(pillar).dot}`} />}
+                    {new Date(date).toLocaleDateString('en-AU', { day: 'numeric', month: 'short' })}
+                  </span>
+                );
+              })}
               {previewDates.length > 10 && (
                 <span className="px-2 py-1 text-xs text-stone-400">
                   +{previewDates.length - 10} more
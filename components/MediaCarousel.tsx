@@ -0,0 +1,225 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, Film } from 'lucide-react';
+import { MediaItem, CommentPin } from '../types';
+import { formatPinTime } from '../services/commentService';
+
+// A comment pin drawn over the media item it belongs to
+export interface MediaPin {
+  id: string;
+  label: string; // Shown in the marker, e.g. the pin number
+  title: string; // Tooltip
+  pin: CommentPin;
+}
+
+interface MediaCarouselProps {
+  items: MediaItem[];
+  className?: string; // Applied to the image/video element
+  autoPlay?: boolean;
+  pins?: MediaPin[];
+  onPlacePin?: (pin: CommentPin) => void; // When set, clicking the media places a pin
+}
+
+interface Box { left: number; top: number; width: number; height: number }
+
+// Video pins with a point show while playback is this close to their timestamp
+const PIN_TIME_WINDOW = 1;
+
+// Where the media is actually drawn inside its element (object-cover crops, object-contain letterboxes)
+const getContentBox = (el: HTMLImageElement | HTMLVideoElement): Box => {
+  const naturalWidth = el instanceof HTMLVideoElement ? el.videoWidth : el.naturalWidth;
+  const naturalHeight = el instanceof HTMLVideoElement ? el.videoHeight : el.naturalHeight;
+  const { clientWidth, clientHeight } = el;
+  const fit = getComputedStyle(el).objectFit;
+
+  if (!naturalWidth || !naturalHeight || (fit !== 'cover' && fit !== 'contain')) {
+    return { left: 0, top: 0, width: clientWidth, height: clientHeight };
+  }
+
+  const scale = fit === 'cover'
+    ? Math.max(clientWidth / naturalWidth, clientHeight / naturalHeight)
+    : Math.min(clientWidth / naturalWidth, clientHeight / naturalHeight);
+  const width = naturalWidth * scale;
+  const height = naturalHeight * scale;
+  return { left: (clientWidth - width) / 2, top: (clientHeight - height) / 2, width, height };
+};
+
+// Viewer for a post's media - arrows and dots appear when there is more than one item
+export const MediaCarousel: React.FC<MediaCarouselProps> = ({ items, className = 'w-full h-full object-cover', autoPlay, pins = [], onPlacePin }) => {
+  const [index, setIndex] = useState(0);
+  const [frame, setFrame] = useState<Box | null>(null); // Element box within the carousel
+  const [content, setContent] = useState<Box | null>(null); // Drawn media within the element
+  const [currentTime, setCurrentTime] = useState(0);
+  const mediaRef = useRef<HTMLImageElement | HTMLVideoElement | null>(null);
+
+  // Stay in range when items are removed
+  useEffect(() => {
+    if (index >= items.length) setIndex(Math.max(0, items.length - 1));
+  }, [items.length, index]);
+
+  const item = items[index];
+
+  const measure = useCallback(() => {
+    const el = mediaRef.current;
+    if (!el) return;
+    setFrame({ left: el.offsetLeft, top: el.offsetTop, width: el.clientWidth, height: el.clientHeight });
+    setContent(getContentBox(el));
+  }, []);
+
+  // Pins are only positioned when something will be drawn or placed
+  const annotating = pins.length > 0 || !!onPlacePin;
+
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (!el || !annotating) return;
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [item?.url, annotating, measure]);
+
+  // Hold the frame still while a pin is being placed on a video
+  useEffect(() => {
+    if (onPlacePin && mediaRef.current instanceof HTMLVideoElement) {
+      mediaRef.current.pause();
+    }
+  }, [onPlacePin]);
+
+  if (!item) return null;
+
+  const isCarousel = items.length > 1;
+  const itemPins = pins.filter(p => p.pin.mediaUrl === item.url);
+  const pointPins = itemPins.filter(p =>
+    p.pin.x !== undefined && p.pin.y !== undefined
+    && (item.type !== 'video' || p.pin.time === undefined || Math.abs(p.pin.time - currentTime) <= PIN_TIME_WINDOW)
+  );
+  const timePins = item.type === 'video' ? itemPins.filter(p => p.pin.time !== undefined) : [];
+
+  const handlePlace = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const el = mediaRef.current;
+    if (!onPlacePin || !el || !content) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left - content.left) / content.width;
+    const y = (e.clientY - rect.top - content.top) / content.height;
+    if (x < 0 || x > 1 || y < 0 || y > 1) return;
+
+    onPlacePin({
+      mediaUrl: item.url,
+      x: Math.round(x * 1000) / 1000,
+      y: Math.round(y * 1000) / 1000,
+      time: el instanceof HTMLVideoElement ? Math.round(el.currentTime * 10) / 10 : undefined,
+    });
+  };
+
+  const seekTo = (time: number) => {
+    const el = mediaRef.current;
+    if (el instanceof HTMLVideoElement) {
+      el.pause();
+      el.currentTime = time;
+    }
+  };
+
+  return (
+    <div className="relative w-full h-full group/carousel">
+      {item.type === 'video' ? (
+        <video
+          key={item.url}
+          ref={(el) => { mediaRef.current = el; }}
+          src={item.url}
+          className={className}
+          controls
+          muted
+          playsInline
+          autoPlay={autoPlay}
+          onLoadedMetadata={annotating ? measure : undefined}
+          onTimeUpdate={annotating ? (e) => setCurrentTime(e.currentTarget.currentTime) : undefined}
+        />
+      ) : (
+        <img
+          key={item.url}
+          ref={(el) => { mediaRef.current = el; }}
+          src={item.url}
+          alt={`Media ${index + 1}`}
+          className={className}
+          onLoad={annotating ? measure : undefined}
+        />
+      )}
+
+      {/* Pins, clipped to the visible part of the media */}
+      {annotating && frame && content && (
+        <div
+          className={`absolute overflow-hidden ${onPlacePin ? 'cursor-crosshair' : 'pointer-events-none'}`}
+          style={{ left: frame.left, top: frame.top, width: frame.width, height: frame.height }}
+          onClick={onPlacePin ? handlePlace : undefined}
+        >
+          {pointPins.map(p => (
+            <span
+              key={p.id}
+              title={p.title}
+              className="absolute -translate-x-1/2 -translate-y-1/2 min-w-[24px] h-6 px-1 rounded-full bg-amber-400 text-brand-dark text-[11px] font-bold border-2 border-white shadow flex items-center justify-center pointer-events-auto"
+              style={{ left: content.left + p.pin.x! * content.width, top: content.top + p.pin.y! * content.height }}
+            >
+              {p.label}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Video pins - jump to the moment they were left at */}
+      {timePins.length > 0 && (
+        <div className="absolute bottom-14 left-2 flex flex-wrap gap-1 max-w-[80%]">
+          {timePins.map(p => (
+            <button
+              key={p.id}
+              onClick={(e) => { e.stopPropagation(); seekTo(p.pin.time!); }}
+              title={p.title}
+              className="bg-amber-400 text-brand-dark text-[10px] font-bold px-1.5 py-0.5 rounded shadow"
+            >
+              {p.label} · {formatPinTime(p.pin.time!)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {item.type === 'video' && (
+        <div className="absolute top-2 left-2 bg-black/70 text-white text-[10px] font-medium px-2 py-1 rounded flex items-center gap-1 pointer-events-none">
+          <Film className="w-3 h-3" />
+          VIDEO
+        </div>
+      )}
+
+      {isCarousel && (
+        <>
+          <div className="absolute top-2 right-2 bg-black/70 text-white text-[10px] font-medium px-2 py-1 rounded pointer-events-none">
+            {index + 1}/{items.length}
+          </div>
+          <button
+            onClick={(e) => { e.stopPropagation(); setIndex(i => (i - 1 + items.length) % items.length); }}
+            className="absolute left-2 top-1/2 -translate-y-1/2 bg-white/90 hover:bg-white text-stone-700 rounded-full p-1.5 shadow"
+            title="Previous"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); setIndex(i => (i + 1) % items.length); }}
+            className="absolute right-2 top-1/2 -translate-y-1/2 bg-white/90 hover:bg-white text-stone-700 rounded-full p-1.5 shadow"
+            title="Next"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <div className="absolute bottom-3 left-0 right-0 flex justify-center gap-1.5">
+            {items.map((_, i) => (
+              <button
+                key={i}
+                onClick={(e) => { e.stopPropagation(); setIndex(i); }}
+                className={`w-2 h-2 rounded-full shadow ${i === index ? 'bg-white' : 'bg-white/50'}`}
+                title={`Item ${i + 1}`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
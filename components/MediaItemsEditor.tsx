@@ -0,0 +1,90 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Film, Loader2, Plus, X } from 'lucide-react';
+import { MediaItem } from '../types';
+import { MAX_MEDIA_ITEMS, moveMediaItem } from '../services/storageService';
+
+interface MediaItemsEditorProps {
+  items: MediaItem[];
+  onChange: (items: MediaItem[]) => void;
+  onAddFiles: (files: File[]) => void;
+  uploading?: boolean;
+  disabled?: boolean;
+}
+
+// Thumbnail strip for ordering, removing and adding a post's media
+// The first item is the cover (used for AI captions and single-media platforms)
+export const MediaItemsEditor: React.FC<MediaItemsEditorProps> = ({ items, onChange, onAddFiles, uploading, disabled }) => {
+  const canAdd = !disabled && !uploading && items.length < MAX_MEDIA_ITEMS;
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        {items.map((item, index) => (
+          <div key={`${item.url}-${index}`} className="relative w-16 h-16 rounded-md overflow-hidden border border-stone-300 bg-stone-100 group/item">
+            {item.type === 'video' ? (
+              <div className="w-full h-full bg-stone-800 flex items-center justify-center">
+                <Film className="w-5 h-5 text-white" />
+              </div>
+            ) : (
+              <img src={item.url} alt={`Media ${index + 1}`} className="w-full h-full object-cover" />
+            )}
+            <span className="absolute top-0.5 left-0.5 bg-black/70 text-white text-[9px] font-bold px-1 rounded">
+              {index === 0 ? 'Cover' : index + 1}
+            </span>
+            {!disabled && (
+              <>
+                <button
+                  onClick={() => onChange(items.filter((_, i) => i !== index))}
+                  className="absolute top-0.5 right-0.5 bg-white/90 text-red-600 rounded-full p-0.5 opacity-0 group-hover/item:opacity-100 transition-opacity"
+                  title="Remove"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+                <div className="absolute bottom-0 left-0 right-0 flex justify-between opacity-0 group-hover/item:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => onChange(moveMediaItem(items, index, -1))}
+                    disabled={index === 0}
+                    className="bg-white/90 text-stone-700 p-0.5 disabled:invisible"
+                    title="Move earlier"
+                  >
+                    <ChevronLeft className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onChange(moveMediaItem(items, index, 1))}
+                    disabled={index === items.length - 1}
+                    className="bg-white/90 text-stone-700 p-0.5 disabled:invisible"
+                    title="Move later"
+                  >
+                    <ChevronRight className="w-3 h-3" />
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+
+        {!disabled && items.length < MAX_MEDIA_ITEMS && (
+          <label className={`w-16 h-16 rounded-md border-2 border-dashed border-stone-300 flex flex-col items-center justify-center text-stone-400 transition-colors ${canAdd ? 'cursor-pointer hover:border-brand-green hover:text-brand-green' : 'opacity-50'}`}>
+            <input
+              type="file"
+              accept="image/*,video/*"
+              multiple
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                if (files.length > 0) onAddFiles(files.slice(0, MAX_MEDIA_ITEMS - items.length));
+              }}
+              className="hidden"
+              disabled={!canAdd}
+            />
+            {uploading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Plus className="w-5 h-5" />}
+            <span className="text-[9px] font-medium mt-0.5">{uploading ? 'Uploading' : 'Add'}</span>
+          </label>
+        )}
+      </div>
+      {items.length > 1 && (
+        <p className="text-[11px] text-stone-500 mt-2">Carousel of {items.length} - hover an item to reorder or remove it.</p>
+      )}
+    </div>
+  );
+};
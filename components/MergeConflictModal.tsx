@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { GitMerge } from 'lucide-react';
+import { Post, PostEditConflict, MediaItem } from '../types';
+
+interface MergeConflictModalProps {
+  conflict: PostEditConflict;
+  postTitle: string;
+  remaining: number; // Other conflicts waiting after this one
+  onKeepMine: (value: unknown) => void; // Also used for a merged value
+  onUseTheirs: () => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof Post, string>> = {
+  title: 'Title',
+  date: 'Date',
+  publishTime: 'Publish time',
+  status: 'Status',
+  imageDescription: 'Image description',
+  mediaItems: 'Media',
+  generatedCaption: 'Caption',
+  generatedHashtags: 'Hashtags',
+  captionVariants: 'Platform captions',
+  pillarId: 'Content pillar',
+  campaign: 'Campaign',
+  tags: 'Tags',
+};
+
+const formatValue = (field: keyof Post, value: unknown): string => {
+  if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) return '(empty)';
+  if (field === 'generatedHashtags') return (value as string[]).map(tag => `#${tag}`).join(' ');
+  if (field === 'mediaItems') {
+    const items = value as MediaItem[];
+    return `${items.length} item${items.length === 1 ? '' : 's'}\n${items.map(item => item.url.startsWith('http') ? item.url : `(uploaded ${item.type})`).join('\n')}`;
+  }
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+};
+
+// Someone else saved the same field while this user was editing it - show
+// both values side by side and let them keep theirs, take the server's, or merge
+export const MergeConflictModal: React.FC<MergeConflictModalProps> = ({ conflict, postTitle, remaining, onKeepMine, onUseTheirs }) => {
+  const { field, mine, theirs } = conflict;
+  const isText = typeof mine === 'string' && typeof theirs === 'string';
+  const [merged, setMerged] = useState(isText ? (mine as string) : '');
+
+  useEffect(() => {
+    setMerged(typeof mine === 'string' ? mine : '');
+  }, [conflict]);
+
+  const label = FIELD_LABELS[field] || field;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-stone-200">
+          <h2 className="text-xl font-serif font-bold text-brand-dark flex items-center gap-2">
+            <GitMerge className="w-5 h-5 text-amber-600" />
+            {label} changed while you were editing
+          </h2>
+          <p className="text-sm text-stone-500 mt-1">
+            Someone else saved "{postTitle || 'Untitled'}" before your edit was saved. Your edit hasn't been saved yet - choose which {label.toLowerCase()} to keep.
+            {remaining > 0 && ` (${remaining} more after this one)`}
+          </p>
+        </div>
+
+        {/* Both versions */}
+        <div className="p-6 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <p className="text-xs font-bold text-stone-500 uppercase tracking-wide mb-2">Your version</p>
+            <pre className="text-sm whitespace-pre-wrap font-sans bg-brand-green/5 border border-brand-green/20 rounded-lg p-3 max-h-64 overflow-y-auto">{formatValue(field, mine)}</pre>
+          </div>
+          <div>
+            <p className="text-xs font-bold text-stone-500 uppercase tracking-wide mb-2">Their version (saved)</p>
+            <pre className="text-sm whitespace-pre-wrap font-sans bg-amber-50 border border-amber-200 rounded-lg p-3 max-h-64 overflow-y-auto">{formatValue(field, theirs)}</pre>
+          </div>
+          {isText && (
+            <div className="md:col-span-2">
+              <p className="text-xs font-bold text-stone-500 uppercase tracking-wide mb-2">Merged</p>
+              <textarea
+                value={merged}
+                onChange={(e) => setMerged(e.target.value)}
+                className="w-full min-h-[120px] p-3 text-sm border border-stone-200 rounded-lg focus:ring-1 focus:ring-brand-green focus:border-brand-green outline-none resize-y"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="p-6 border-t border-stone-200 flex flex-wrap justify-end gap-3">
+          <button
+            onClick={onUseTheirs}
+            className="px-4 py-2 text-sm border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors"
+          >
+            Use theirs
+          </button>
+          {isText && merged !== mine && merged !== theirs && (
+            <button
+              onClick={() => onKeepMine(merged)}
+              className="px-4 py-2 text-sm border border-brand-green text-brand-green rounded-lg hover:bg-brand-green/5 transition-colors"
+            >
+              Save merged
+            </button>
+          )}
+          <button
+            onClick={() => onKeepMine(mine)}
+            className="px-4 py-2 text-sm bg-brand-green text-white rounded-lg hover:bg-brand-green/90 transition-colors"
+          >
+            Keep mine
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import React, { useState, useRef } from 'react';
+import { Loader2, Send, CheckCircle2, RotateCcw, CornerDownRight, MapPin } from 'lucide-react';
+import { PostComment, MentionableUser } from '../types';
+import { getThreads, extractMentions, getPinNumbers, describePin } from '../services/commentService';
+
+interface PostCommentsProps {
+  postId: string;
+  comments: PostComment[]; // May include other posts' comments - filtered by postId
+  mentionables: MentionableUser[];
+  canComment: boolean;
+  internal?: boolean; // Show the agency-only channel instead of client feedback
+  onAdd: (body: string, parentId: string | undefined, mentions: string[]) => Promise<void>;
+  onResolve: (commentId: string, resolved: boolean) => Promise<void>;
+}
+
+const isAgencyAuthor = (role: string) => role === 'agency_admin' || role === 'agency_editor';
+
+const formatCommentTime = (value: string): string =>
+  new Date(value).toLocaleString('en-AU', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+// Body with @mentions of known staff highlighted
+const CommentBody: React.FC<{ body: string; mentionables: MentionableUser[] }> = ({ body, mentionables }) => {
+  const names = mentionables.map(user => user.name).sort((a, b) => b.length - a.length);
+  if (names.length === 0) return <>{body}</>;
+
+  const escaped = names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = body.split(new RegExp(`(@(?:${escaped.join('|')}))`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) => i % 2 === 1
+        ? <span key={i} className="font-medium text-brand-green">{part}</span>
+        : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+// Textarea with @mention suggestions for agency staff
+export const CommentInput: React.FC<{
+  placeholder: string;
+  mentionables: MentionableUser[];
+  onSubmit: (body: string, mentions: string[]) => Promise<void>;
+  autoFocus?: boolean;
+}> = ({ placeholder, mentionables, onSubmit, autoFocus }) => {
+  const [body, setBody] = useState('');
+  const [query, setQuery] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = query === null
+    ? []
+    : mentionables.filter(user => user.name.toLowerCase().startsWith(query.toLowerCase())).slice(0, 5);
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    const beforeCaret = e.target.value.slice(0, e.target.selectionStart);
+    const match = beforeCaret.match(/(?:^|\s)@([\w ]{0,30})$/);
+    setQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (user: MentionableUser) => {
+    const textarea = textareaRef.current;
+    const caret = textarea ? textarea.selectionStart : body.length;
+    const before = body.slice(0, caret).replace(/@([\w ]{0,30})$/, `@${user.name} `);
+    setBody(before + body.slice(caret));
+    setQuery(null);
+    textarea?.focus();
+  };
+
+  const handleSubmit = async () => {
+    if (!body.trim() || sending) return;
+    setSending(true);
+    try {
+      await onSubmit(body, extractMentions(body, mentionables));
+      setBody('');
+      setQuery(null);
+    } catch (error: any) {
+      alert(error.message || 'Failed to add comment');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={body}
+        onChange={handleChange}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit();
+          if (e.key === 'Escape') setQuery(null);
+        }}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        className="w-full h-16 p-2 pr-8 text-xs border border-stone-200 rounded bg-stone-50 focus:bg-white focus:ring-1 focus:ring-stone-400 focus:border-stone-400 outline-none resize-none transition-colors"
+      />
+      <button
+        onClick={handleSubmit}
+        disabled={!body.trim() || sending}
+        className="absolute right-2 bottom-3 text-stone-400 hover:text-brand-green disabled:opacity-40 transition-colors"
+        title="Send (Ctrl+Enter)"
+      >
+        {sending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+      </button>
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full mt-1 bg-white border border-stone-200 rounded shadow-lg z-20 py-1">
+          {suggestions.map(user => (
+            <li key={user.id}>
+              <button
+                onMouseDown={(e) => { e.preventDefault(); insertMention(user); }}
+                className="w-full text-left px-2 py-1 text-xs hover:bg-stone-100"
+              >
+                @{user.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Threaded comments for one post - resolve a thread once its feedback is handled
+export const PostComments: React.FC<PostCommentsProps> = ({ postId, comments, mentionables, canComment, internal = false, onAdd, onResolve }) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const threads = getThreads(comments, postId, internal);
+  const pinNumbers = getPinNumbers(comments, postId);
+  const resolvedCount = threads.filter(t => t.comment.resolved).length;
+  const visible = threads.filter(t => showResolved || !t.comment.resolved);
+
+  const renderComment = (comment: PostComment, isReply: boolean) => (
+    <div className={isReply ? 'pl-3 border-l border-stone-200 mt-2' : ''}>
+      <div className="flex items-center gap-1.5 text-[11px] text-stone-400">
+        {isReply && <CornerDownRight className="w-3 h-3" />}
+        <span className="font-semibold text-stone-700">{comment.authorName}</span>
+        {isAgencyAuthor(comment.authorRole) && (
+          <span className="px-1 rounded bg-brand-green/10 text-brand-green text-[9px] font-bold uppercase">Agency</span>
+        )}
+        <span>{formatCommentTime(comment.createdAt)}</span>
+        {comment.pin && (
+          <span className="flex items-center gap-0.5 px-1 rounded bg-amber-100 text-amber-800 font-bold" title={`Pinned ${describePin(comment.pin)}`}>
+            <MapPin className="w-2.5 h-2.5" />{pinNumbers.get(comment.id)}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-stone-700 whitespace-pre-wrap break-words mt-0.5">
+        <CommentBody body={comment.body} mentionables={mentionables} />
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      {visible.length === 0 && (
+        <p className="text-xs text-stone-400 italic">
+          {threads.length > 0 ? 'All comments resolved' : internal ? 'No internal notes yet' : 'No comments yet'}
+        </p>
+      )}
+
+      {visible.map(({ comment, replies }) => (
+        <div
+          key={comment.id}
+          className={`p-2 rounded border text-left ${comment.resolved ? 'bg-stone-50 border-stone-100 opacity-60' : internal ? 'bg-amber-50/50 border-amber-200' : 'bg-white border-stone-200'}`}
+        >
+          {renderComment(comment, false)}
+          {replies.map(reply => (
+            <React.Fragment key={reply.id}>{renderComment(reply, true)}</React.Fragment>
+          ))}
+
+          <div className="flex items-center gap-3 mt-1.5 text-[11px]">
+            {comment.resolved ? (
+              <>
+                <span className="text-stone-400">Resolved{comment.resolvedByName ? ` by ${comment.resolvedByName}` : ''}</span>
+                {canComment && (
+                  <button onClick={() => onResolve(comment.id, false)} className="flex items-center gap-0.5 text-stone-500 hover:text-brand-dark">
+                    <RotateCcw className="w-3 h-3" /> Reopen
+                  </button>
+                )}
+              </>
+            ) : canComment && (
+              <>
+                <button onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)} className="text-stone-500 hover:text-brand-dark">
+                  Reply
+                </button>
+                <button onClick={() => onResolve(comment.id, true)} className="flex items-center gap-0.5 text-stone-500 hover:text-brand-green">
+                  <CheckCircle2 className="w-3 h-3" /> Resolve
+                </button>
+              </>
+            )}
+          </div>
+
+          {replyingTo === comment.id && (
+            <div className="mt-2">
+              <CommentInput
+                placeholder="Reply... (@ to mention)"
+                mentionables={mentionables}
+                autoFocus
+                onSubmit={async (body, mentions) => {
+                  await onAdd(body, comment.id, mentions);
+                  setReplyingTo(null);
+                }}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      {resolvedCount > 0 && (
+        <button onClick={() => setShowResolved(!showResolved)} className="text-[11px] text-stone-500 hover:text-brand-dark">
+          {showResolved ? 'Hide resolved' : `Show ${resolvedCount} resolved`}
+        </button>
+      )}
+
+      {canComment && (
+        <CommentInput
+          placeholder={internal ? 'Add an internal note... (agency only)' : 'Add a comment... (@ to mention)'}
+          mentionables={mentionables}
+          onSubmit={(body, mentions) => onAdd(body, undefined, mentions)}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,63 +1,61 @@
 import React, { useState } from 'react';
-import { Post, BrandContext, MediaType } from '../types';
+import { Post, BrandContext, MediaType, MediaItem } from '../types';
 import { Sparkles, Save, Film, Image, Loader2 } from 'lucide-react';
-import { detectMediaType, validateFileSize, uploadMedia } from '../services/storageService';
+import { detectMediaType, validateFileSize, uploadMedia, getMediaItems, toMediaFields, MAX_MEDIA_ITEMS } from '../services/storageService';
+import { MediaCarousel } from './MediaCarousel';
+import { MediaItemsEditor } from './MediaItemsEditor';
+import { getPublishTime } from '../services/scheduleService';
 
 interface PostEditorProps {
   post: Post;
   brand: BrandContext;
   clientId: string;
+  timezone: string;
   onUpdate: (updatedPost: Post) => void;
   onClose: () => void;
 }
 
-export const PostEditor: React.FC<PostEditorProps> = ({ post, clientId, onUpdate, onClose }) => {
+export const PostEditor: React.FC<PostEditorProps> = ({ post, clientId, timezone, onUpdate, onClose }) => {
   const [editedPost, setEditedPost] = useState<Post>(post);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
 
-  const handleMediaUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setUploadError(null);
+  const mediaItems = getMediaItems(editedPost);
 
-      // Detect media type
-      const mediaType: MediaType = detectMediaType(file);
+  // Upload each file in order and append it to the post's media
+  const handleMediaUpload = async (files: File[]) => {
+    setUploadError(null);
 
-      // Validate file size
+    // Validate every file before uploading any
+    for (const file of files) {
+      const mediaType: MediaType = detectMediaType(file);
       const validation = validateFileSize(file, mediaType);
       if (!validation.valid) {
-        setUploadError(validation.error || 'File too large');
+        setUploadError(`${file.name}: ${validation.error || 'File too large'}`);
         return;
       }
+    }
 
-      // Upload to Supabase Storage immediately (don't store as base64)
-      setIsUploading(true);
-      try {
-        const { url: publicUrl, mediaType: detectedType } = await uploadMedia(file, clientId, editedPost.id);
-        setEditedPost(prev => ({
-          ...prev,
-          imageUrl: publicUrl,
-          mediaType: detectedType
-        }));
-      } catch (error: any) {
-        console.error('Upload error:', error);
-        setUploadError(error.message || 'Failed to upload media');
-      } finally {
-        setIsUploading(false);
+    // Upload to Supabase Storage immediately (don't store as base64)
+    setIsUploading(true);
+    try {
+      const uploaded: MediaItem[] = [];
+      for (const file of files) {
+        const { url, mediaType } = await uploadMedia(file, clientId, editedPost.id);
+        uploaded.push({ url, type: mediaType });
       }
+      setEditedPost(prev => ({
+        ...prev,
+        ...toMediaFields([...getMediaItems(prev), ...uploaded].slice(0, MAX_MEDIA_ITEMS))
+      }));
+    } catch (error: any) {
+      console.error('Upload error:', error);
+      setUploadError(error.message || 'Failed to upload media');
+    } finally {
+      setIsUploading(false);
     }
   };
 
-  // Determine if current media is a video
-  const isVideo = editedPost.mediaType === 'video' ||
-    (editedPost.imageUrl && (
-      editedPost.imageUrl.startsWith('data:video/') ||
-      editedPost.imageUrl.includes('.mp4') ||
-      editedPost.imageUrl.includes('.mov') ||
-      editedPost.imageUrl.includes('.webm')
-    ));
-
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-xl w-full max-w-4xl h-[90vh] flex overflow-hidden shadow-2xl">
@@ -66,57 +64,48 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, clientId, onUpdate
           <h3 className="font-serif text-xl mb-4 text-brand-dark">New Post Visuals</h3>
 
           <div className="aspect-square bg-white rounded-lg border-2 border-dashed border-stone-300 flex items-center justify-center mb-4 relative overflow-hidden group">
-            {isUploading ? (
+            {isUploading && mediaItems.length === 0 ? (
               <div className="text-stone-400 text-center p-4">
                 <Loader2 className="w-8 h-8 animate-spin mx-auto mb-2" />
                 <p>Uploading...</p>
               </div>
-            ) : editedPost.imageUrl ? (
-              isVideo ? (
-                <video
-                  src={editedPost.imageUrl + '#t=0.5'}
-                  className="w-full h-full object-cover"
-                  controls
-                  muted
-                  playsInline
-                  preload="metadata"
-                />
-              ) : (
-                <img src={editedPost.imageUrl} alt="Post" className="w-full h-full object-cover" />
-              )
+            ) : mediaItems.length > 0 ? (
+              <MediaCarousel items={mediaItems} />
             ) : (
-              <div className="text-stone-400 text-center p-4">
-                <div className="flex justify-center gap-2 mb-2">
-                  <Image className="w-5 h-5" />
-                  <Film className="w-5 h-5" />
+              <>
+                <div className="text-stone-400 text-center p-4">
+                  <div className="flex justify-center gap-2 mb-2">
+                    <Image className="w-5 h-5" />
+                    <Film className="w-5 h-5" />
+                  </div>
+                  <p>Upload Images or Videos</p>
+                  <p className="text-xs mt-2">Select several for a carousel...</p>
                 </div>
-                <p>Upload Image or Video</p>
-                <p className="text-xs mt-2">Click to browse...</p>
-              </div>
+                <input
+                    type="file"
+                    accept="image/*,video/*"
+                    multiple
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files || []).slice(0, MAX_MEDIA_ITEMS);
+                      e.target.value = '';
+                      if (files.length > 0) handleMediaUpload(files);
+                    }}
+                    className="absolute inset-0 opacity-0 cursor-pointer"
+                    disabled={isUploading}
+                />
+              </>
             )}
-            <input
-                type="file"
-                accept="image/*,video/*"
-                onChange={handleMediaUpload}
-                className="absolute inset-0 opacity-0 cursor-pointer"
-                disabled={isUploading}
-            />
           </div>
 
-          {/* Media type indicator */}
-          {editedPost.imageUrl && (
-            <div className="flex items-center gap-2 mb-4 text-sm text-stone-500">
-              {isVideo ? (
-                <>
-                  <Film className="w-4 h-4" />
-                  <span>Video</span>
-                </>
-              ) : (
-                <>
-                  <Image className="w-4 h-4" />
-                  <span>Image</span>
-                </>
-              )}
+          {/* Order, remove and add media */}
+          {mediaItems.length > 0 && (
+            <div className="mb-4">
+              <MediaItemsEditor
+                items={mediaItems}
+                onChange={(items) => setEditedPost(prev => ({ ...prev, ...toMediaFields(items) }))}
+                onAddFiles={handleMediaUpload}
+                uploading={isUploading}
+              />
             </div>
           )}
 
@@ -146,6 +135,16 @@ export const PostEditor: React.FC<PostEditorProps> = ({ post, clientId, onUpdate
                 className="w-full p-2 text-sm border border-stone-200 rounded-lg"
               />
             </div>
+            <div>
+              <label className="block text-xs font-semibold uppercase tracking-wider text-stone-500 mb-1">Publish Time</label>
+              <input
+                type="time"
+                value={getPublishTime(editedPost)}
+                onChange={(e) => setEditedPost({...editedPost, publishTime: e.target.value})}
+                className="w-full p-2 text-sm border border-stone-200 rounded-lg"
+              />
+              <p className="text-xs text-stone-400 mt-1">In the client's timezone ({timezone})</p>
+            </div>
           </div>
         </div>
 
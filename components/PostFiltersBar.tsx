@@ -0,0 +1,65 @@
+import React from 'react';
+import { Filter, X } from 'lucide-react';
+import { ContentPillar } from '../types';
+import { PostFilters, EMPTY_FILTERS, NO_PILLAR, hasActiveFilters } from '../services/pillarService';
+
+interface PostFiltersBarProps {
+  filters: PostFilters;
+  pillars: ContentPillar[];
+  campaigns: string[];
+  tags: string[];
+  onChange: (filters: PostFilters) => void;
+}
+
+// Pillar / campaign / tag filters shared by the table and calendar views
+export const PostFiltersBar: React.FC<PostFiltersBarProps> = ({ filters, pillars, campaigns, tags, onChange }) => {
+  if (pillars.length === 0 && campaigns.length === 0 && tags.length === 0) return null;
+
+  const selectClass = (active: boolean) =>
+    `text-sm px-3 py-1.5 rounded-lg border bg-white focus:outline-none focus:ring-2 focus:ring-brand-green ${active ? 'border-brand-green text-brand-dark' : 'border-stone-300 text-stone-600'}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      <Filter className="w-4 h-4 text-stone-400" />
+      {pillars.length > 0 && (
+        <select
+          value={filters.pillarId}
+          onChange={(e) => onChange({ ...filters, pillarId: e.target.value })}
+          className={selectClass(!!filters.pillarId)}
+        >
+          <option value="">All pillars</option>
+          {pillars.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          <option value={NO_PILLAR}>No pillar</option>
+        </select>
+      )}
+      {campaigns.length > 0 && (
+        <select
+          value={filters.campaign}
+          onChange={(e) => onChange({ ...filters, campaign: e.target.value })}
+          className={selectClass(!!filters.campaign)}
+        >
+          <option value="">All campaigns</option>
+          {campaigns.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      )}
+      {tags.length > 0 && (
+        <select
+          value={filters.tag}
+          onChange={(e) => onChange({ ...filters, tag: e.target.value })}
+          className={selectClass(!!filters.tag)}
+        >
+          <option value="">All tags</option>
+          {tags.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+      )}
+      {hasActiveFilters(filters) && (
+        <button
+          onClick={() => onChange(EMPTY_FILTERS)}
+          className="text-sm flex items-center gap-1 text-stone-500 hover:text-brand-dark"
+        >
+          <X className="w-3.5 h-3.5" /> Clear
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { ContentPillar } from '../types';
+import { getPillar, getPillarColors, normalizeTag } from '../services/pillarService';
+
+interface PostLabelsEditorProps {
+  postId: string;
+  pillarId?: string;
+  campaign?: string;
+  tags?: string[];
+  pillars: ContentPillar[];
+  campaigns: string[]; // Campaigns already in use, offered as suggestions
+  disabled?: boolean;
+  onChange: (field: 'pillarId' | 'campaign' | 'tags', value: string | string[]) => void;
+}
+
+// Pillar, campaign and tags for one post (table row)
+export const PostLabelsEditor: React.FC<PostLabelsEditorProps> = ({ postId, pillarId, campaign, tags = [], pillars, campaigns, disabled, onChange }) => {
+  const [tagInput, setTagInput] = useState('');
+  const pillar = getPillar(pillars, pillarId);
+
+  const addTag = () => {
+    const tag = normalizeTag(tagInput);
+    if (tag && !tags.includes(tag)) onChange('tags', [...tags, tag]);
+    setTagInput('');
+  };
+
+  return (
+    <div className="space-y-1.5">
+      {pillars.length > 0 && (
+        <div className="flex items-center gap-1.5">
+          <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${getPillarColors(pillar).dot}`} />
+          <select
+            value={pillar ? pillar.id : ''}
+            onChange={(e) => onChange('pillarId', e.target.value)}
+            disabled={disabled}
+            className="w-full text-xs bg-transparent text-stone-600 border border-transparent hover:border-brand-green rounded px-1 py-0.5 focus:outline-none cursor-pointer disabled:cursor-default"
+            title="Content pillar"
+          >
+            <option value="">No pillar</option>
+            {pillars.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <input
+        type="text"
+        defaultValue={campaign || ''}
+        key={`${postId}-${campaign || ''}`}
+        list={`campaigns-${postId}`}
+        onBlur={(e) => {
+          const value = e.target.value.trim();
+          if (value !== (campaign || '')) onChange('campaign', value);
+        }}
+        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+        disabled={disabled}
+        placeholder={disabled ? '' : 'Campaign'}
+        className="w-full text-xs bg-transparent text-stone-600 border border-transparent hover:border-brand-green rounded px-1 py-0.5 focus:outline-none focus:border-brand-green"
+        title="Campaign"
+      />
+      <datalist id={`campaigns-${postId}`}>
+        {campaigns.map(c => <option key={c} value={c} />)}
+      </datalist>
+
+      <div className="flex flex-wrap gap-1">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-0.5 text-[10px] bg-stone-100 text-stone-600 px-1.5 py-0.5 rounded">
+            {tag}
+            {!disabled && (
+              <button onClick={() => onChange('tags', tags.filter(t => t !== tag))} className="text-stone-400 hover:text-red-500" title="Remove tag">
+                <X className="w-2.5 h-2.5" />
+              </button>
+            )}
+          </span>
+        ))}
+        {!disabled && (
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+            onBlur={addTag}
+            placeholder="+ tag"
+            className="w-14 text-[10px] bg-transparent text-stone-500 focus:outline-none"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
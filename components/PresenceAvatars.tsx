@@ -0,0 +1,58 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { PresencePeer, PresenceField, getPresenceFieldLabel } from '../services/presenceService';
+
+interface PresenceAvatarsProps {
+  peers: PresencePeer[]; // Already narrowed to one post (see getPostPeers)
+  postId: string;
+  max?: number;
+}
+
+const AVATAR_COLORS = ['bg-rose-500', 'bg-amber-500', 'bg-sky-500', 'bg-violet-500', 'bg-teal-500', 'bg-orange-500'];
+
+const getInitials = (name: string): string =>
+  name.split(' ').map(word => word[0]).join('').substring(0, 2).toUpperCase() || '?';
+
+const getColor = (userId: string): string =>
+  AVATAR_COLORS[[...userId].reduce((sum, char) => sum + char.charCodeAt(0), 0) % AVATAR_COLORS.length];
+
+// Stacked initials of the other people on a post - a ring marks someone typing
+export const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ peers, postId, max = 3 }) => {
+  if (peers.length === 0) return null;
+
+  const describe = (peer: PresencePeer) =>
+    peer.editing?.postId === postId
+      ? `${peer.name} is editing the ${getPresenceFieldLabel(peer.editing.field)}`
+      : `${peer.name} is viewing`;
+
+  return (
+    <div className="flex items-center -space-x-1.5" title={peers.map(describe).join('\n')}>
+      {peers.slice(0, max).map(peer => (
+        <div
+          key={peer.key}
+          className={`w-6 h-6 rounded-full ${getColor(peer.userId)} text-white text-[10px] font-bold flex items-center justify-center border-2 ${
+            peer.editing?.postId === postId ? 'border-amber-300' : 'border-white'
+          }`}
+        >
+          {getInitials(peer.name)}
+        </div>
+      ))}
+      {peers.length > max && (
+        <div className="w-6 h-6 rounded-full bg-stone-200 text-stone-600 text-[10px] font-bold flex items-center justify-center border-2 border-white">
+          +{peers.length - max}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Soft lock above a field someone else is typing in - it stays editable
+export const FieldLockNotice: React.FC<{ editor?: PresencePeer; field: PresenceField }> = ({ editor, field }) => {
+  if (!editor) return null;
+  return (
+    <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 px-2 py-1 rounded flex items-center gap-1.5">
+      <Lock className="w-3 h-3 shrink-0" />
+      {editor.name} is editing the {getPresenceFieldLabel(field)}
+    </p>
+  );
+};
@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { Leaf, Loader2, Check, AlertCircle, MessageSquare, Eye, X, Film, Layers } from 'lucide-react';
+import { Post } from '../types';
+import { getReview, submitReviewAction, ReviewData, ReviewAction } from '../services/reviewService';
+import { getMediaItems } from '../services/storageService';
+import { getPublishTime, formatPublishTime } from '../services/scheduleService';
+import { MediaCarousel } from './MediaCarousel';
+
+interface ReviewPageProps {
+  token: string;
+}
+
+const formatDate = (date: string): string => {
+  if (!date) return 'No date';
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const formatMonth = (month: string): string => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1, 1).toLocaleString('en-AU', { month: 'long', year: 'numeric' });
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  'For Approval': 'bg-amber-100 text-amber-800',
+  'Revision': 'bg-red-100 text-red-800',
+  'Approved': 'bg-brand-green text-white',
+  'Scheduled': 'bg-blue-600 text-white',
+  'Published': 'bg-stone-800 text-white',
+  'Failed': 'bg-red-600 text-white',
+};
+
+// Minimal review page opened from a magic link in a review email - no login required
+export function ReviewPage({ token }: ReviewPageProps) {
+  const [review, setReview] = useState<ReviewData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [revisionPostId, setRevisionPostId] = useState<string | null>(null);
+  const [revisionNote, setRevisionNote] = useState('');
+  const [submittingPostId, setSubmittingPostId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<{ postId: string; message: string } | null>(null);
+  const [viewingPost, setViewingPost] = useState<Post | null>(null);
+
+  useEffect(() => {
+    getReview(token)
+      .then(setReview)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load review'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleAction = async (post: Post, action: ReviewAction) => {
+    setSubmittingPostId(post.id);
+    setActionError(null);
+
+    try {
+      const { post: updated, approval } = await submitReviewAction(token, post.id, action, action === 'revision' ? revisionNote : undefined);
+      setReview(prev => prev && ({
+        ...prev,
+        posts: prev.posts.map(p => p.id === post.id ? { ...p, status: updated.status } : p),
+        approvals: { ...prev.approvals, posts: { ...prev.approvals.posts, [post.id]: approval } },
+      }));
+      setRevisionPostId(null);
+      setRevisionNote('');
+    } catch (err) {
+      setActionError({ postId: post.id, message: err instanceof Error ? err.message : 'Something went wrong' });
+    } finally {
+      setSubmittingPostId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F5F5F0] flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-green" />
+      </div>
+    );
+  }
+
+  if (error || !review) {
+    return (
+      <div className="min-h-screen bg-[#F5F5F0] flex items-center justify-center p-4">
+        <div className="bg-white p-10 rounded-xl shadow-lg max-w-md w-full text-center border border-stone-200">
+          <div className="w-14 h-14 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4 text-red-600">
+            <AlertCircle className="w-7 h-7" />
+          </div>
+          <h1 className="font-serif text-2xl text-brand-dark mb-2">Link unavailable</h1>
+          <p className="text-stone-500 text-sm">{error || 'This review link could not be loaded.'}</p>
+          <p className="text-stone-400 text-xs mt-4">Ask Seam Media to send you a new link, or log in to the content manager.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F0] text-stone-800 font-sans">
+      <header className="bg-white border-b border-stone-200 shadow-sm">
+        <div className="max-w-3xl mx-auto px-6 h-16 flex items-center gap-3">
+          <div className="p-1.5 bg-brand-green rounded text-white">
+            <Leaf className="w-5 h-5" />
+          </div>
+          <h1 className="font-serif text-xl font-bold tracking-tight text-brand-dark">
+            {review.clientName} <span className="font-sans font-normal text-stone-400 text-sm">
+              {review.scope === 'month' && review.month ? `Review · ${formatMonth(review.month)}` : 'Post review'}
+            </span>
+          </h1>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        <p className="text-sm text-stone-500">
+          {review.recipientName ? `Hi ${review.recipientName}, ` : ''}please approve each post or request changes.
+          This link expires on {new Date(review.expiresAt).toLocaleDateString('en-AU')}.
+        </p>
+
+        {review.posts.length === 0 && (
+          <div className="bg-white rounded-xl border border-stone-200 p-10 text-center text-stone-400">
+            There are no posts to review right now.
+          </div>
+        )}
+
+        {review.posts.map(post => {
+          const canAct = post.status === 'For Approval' || post.status === 'Revision' || post.status === 'Approved';
+          const isSubmitting = submittingPostId === post.id;
+          const approval = review.approvals.posts[post.id];
+          const approvedByYou = !!approval?.approvedByYou;
+          const approvalCount = Math.min(approval?.approverNames.length || 0, review.approvals.needed);
+
+          return (
+            <div key={post.id} className="bg-white rounded-xl border border-stone-200 shadow-sm overflow-hidden flex">
+              {/* Media */}
+              <button
+                onClick={() => setViewingPost(post)}
+                className="w-48 shrink-0 bg-stone-100 relative group"
+                title="View post"
+              >
+                {post.imageUrl ? (
+                  post.mediaType === 'video' ? (
+                    <>
+                      <video src={post.imageUrl + '#t=0.5'} className="w-full h-full object-cover" muted playsInline preload="metadata" />
+                      <div className="absolute top-2 left-2 bg-black/70 text-white text-[10px] font-medium px-2 py-1 rounded flex items-center gap-1">
+                        <Film className="w-3 h-3" /> VIDEO
+                      </div>
+                    </>
+                  ) : (
+                    <img src={post.imageUrl} alt="Post" className="w-full h-full object-cover" />
+                  )
+                ) : (
+                  <span className="text-xs text-stone-400">No media</span>
+                )}
+                {getMediaItems(post).length > 1 && (
+                  <div className="absolute top-2 right-2 bg-black/70 text-white text-[10px] font-medium px-2 py-1 rounded flex items-center gap-1">
+                    <Layers className="w-3 h-3" /> {getMediaItems(post).length}
+                  </div>
+                )}
+              </button>
+
+              {/* Content */}
+              <div className="flex-1 p-5 flex flex-col gap-3">
+                <div className="flex items-center gap-3">
+                  <span className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${STATUS_STYLES[post.status] || 'bg-stone-100 text-stone-600'}`}>
+                    {post.status}
+                  </span>
+                  <span className="text-sm text-stone-500">{formatDate(post.date)} at {formatPublishTime(getPublishTime(post))}</span>
+                </div>
+
+                {/* Sign-off progress when the client needs more than one approval */}
+                {review.approvals.needed > 1 && post.status !== 'Approved' && (approvalCount > 0 || approvedByYou) && (
+                  <p className="text-xs text-stone-500 flex items-center gap-1.5">
+                    <Check className="w-3.5 h-3.5 text-brand-green" />
+                    {approvedByYou ? 'Approved by you' : `Approved by ${approval!.approverNames.join(', ')}`}
+                    {' '}· {approvalCount} of {review.approvals.needed} approvals
+                  </p>
+                )}
+
+                <p className="text-sm text-stone-700 leading-relaxed whitespace-pre-wrap line-clamp-4">
+                  {post.generatedCaption || post.imageDescription || 'No caption yet'}
+                </p>
+
+                <div className="flex flex-wrap gap-2 mt-auto">
+                  <button
+                    onClick={() => setViewingPost(post)}
+                    className="text-xs flex items-center gap-1 px-3 py-2 border border-stone-300 rounded-lg text-stone-600 hover:border-brand-green hover:text-brand-green transition-colors"
+                  >
+                    <Eye className="w-3.5 h-3.5" /> View
+                  </button>
+                  {canAct && post.status !== 'Approved' && !approvedByYou && (
+                    <button
+                      onClick={() => handleAction(post, 'approve')}
+                      disabled={isSubmitting}
+                      className="text-xs flex items-center gap-1 px-3 py-2 bg-brand-green text-white rounded-lg hover:bg-emerald-800 transition-colors disabled:opacity-50"
+                    >
+                      {isSubmitting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                      Approve
+                    </button>
+                  )}
+                  {canAct && post.status !== 'Revision' && revisionPostId !== post.id && (
+                    <button
+                      onClick={() => { setRevisionPostId(post.id); setRevisionNote(''); }}
+                      disabled={isSubmitting}
+                      className="text-xs flex items-center gap-1 px-3 py-2 bg-amber-100 text-amber-800 border border-amber-200 rounded-lg hover:bg-amber-200 transition-colors disabled:opacity-50"
+                    >
+                      <MessageSquare className="w-3.5 h-3.5" /> Request Revision
+                    </button>
+                  )}
+                </div>
+
+                {revisionPostId === post.id && (
+                  <div className="space-y-2">
+                    <textarea
+                      value={revisionNote}
+                      onChange={(e) => setRevisionNote(e.target.value)}
+                      placeholder="What would you like changed?"
+                      className="w-full h-24 p-3 text-sm border border-stone-300 rounded-lg focus:ring-1 focus:ring-brand-green focus:border-brand-green outline-none resize-none"
+                      autoFocus
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleAction(post, 'revision')}
+                        disabled={isSubmitting || !revisionNote.trim()}
+                        className="text-xs px-3 py-2 bg-brand-dark text-white rounded-lg hover:bg-black transition-colors disabled:opacity-50"
+                      >
+                        {isSubmitting ? 'Sending...' : 'Send Revision Request'}
+                      </button>
+                      <button
+                        onClick={() => setRevisionPostId(null)}
+                        className="text-xs px-3 py-2 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {actionError?.postId === post.id && (
+                  <p className="text-xs text-red-600 bg-red-50 px-3 py-2 rounded">{actionError.message}</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        <p className="text-center text-xs text-stone-400 pt-4">© 2025 Seam Media</p>
+      </main>
+
+      {/* Full post view */}
+      {viewingPost && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={() => setViewingPost(null)}>
+          <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto relative" onClick={(e) => e.stopPropagation()}>
+            <button onClick={() => setViewingPost(null)} className="absolute top-3 right-3 text-stone-400 hover:text-stone-600 z-10">
+              <X className="w-6 h-6" />
+            </button>
+            {getMediaItems(viewingPost).length > 0 && (
+              <div className="bg-stone-100 rounded-t-xl">
+                <MediaCarousel items={getMediaItems(viewingPost)} className="w-full max-h-[60vh] object-contain rounded-t-xl" />
+              </div>
+            )}
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-stone-500">{formatDate(viewingPost.date)} at {formatPublishTime(getPublishTime(viewingPost))}</p>
+              <p className="text-sm text-stone-700 leading-relaxed whitespace-pre-wrap">{viewingPost.generatedCaption || viewingPost.imageDescription}</p>
+              {viewingPost.generatedHashtags && viewingPost.generatedHashtags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {viewingPost.generatedHashtags.map((tag, idx) => (
+                    <span key={idx} className="text-xs text-brand-green bg-brand-green/10 px-2 py-1 rounded">#{tag}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
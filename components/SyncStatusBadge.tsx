@@ -0,0 +1,45 @@
+import React from 'react';
+import { CloudOff, Loader2, GitMerge } from 'lucide-react';
+import { PostSyncState } from '../services/offlineQueueService';
+
+interface SyncStatusBadgeProps {
+  state?: PostSyncState | null;
+  compact?: boolean; // Icon only (calendar chips)
+}
+
+const SYNC_STATES: Record<PostSyncState, { label: string; title: string; className: string; icon: React.ReactNode }> = {
+  queued: {
+    label: 'Not synced',
+    title: 'Saved on this device - it will be sent when the connection is back',
+    className: 'bg-stone-100 text-stone-600 border-stone-300',
+    icon: <CloudOff className="w-3 h-3" />,
+  },
+  syncing: {
+    label: 'Syncing',
+    title: 'Sending changes made offline',
+    className: 'bg-blue-50 text-blue-700 border-blue-200',
+    icon: <Loader2 className="w-3 h-3 animate-spin" />,
+  },
+  conflict: {
+    label: 'Conflict',
+    title: 'Someone else changed this post - choose which version to keep',
+    className: 'bg-amber-50 text-amber-800 border-amber-300',
+    icon: <GitMerge className="w-3 h-3" />,
+  },
+};
+
+// Whether a post's latest changes have reached the database (nothing shown once they have)
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ state, compact = false }) => {
+  if (!state) return null;
+  const { label, title, className, icon } = SYNC_STATES[state];
+
+  if (compact) {
+    return <span className={`inline-flex shrink-0 p-0.5 rounded-full border ${className}`} title={title}>{icon}</span>;
+  }
+  return (
+    <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-semibold ${className}`} title={title}>
+      {icon}
+      {label}
+    </span>
+  );
+};
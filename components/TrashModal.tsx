@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, RotateCcw, Trash2, Film } from 'lucide-react';
+import { TrashedPost } from '../types';
+import { getTrashedPosts, restorePosts, purgePosts, getDaysLeftInTrash, TRASH_RETENTION_DAYS } from '../services/trashService';
+
+interface TrashModalProps {
+  clientId: string;
+  onClose: () => void;
+}
+
+const formatTrashDate = (value: string): string =>
+  new Date(value).toLocaleString('en-AU', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+const formatPostDate = (date: string): string => {
+  if (!date) return 'Backlog idea';
+  const [year, month, day] = date.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+// Deleted posts for one client - restore them, or delete them for good
+export const TrashModal: React.FC<TrashModalProps> = ({ clientId, onClose }) => {
+  const [posts, setPosts] = useState<TrashedPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null); // Post id, or 'all' while emptying
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      setPosts(await getTrashedPosts(clientId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [clientId]);
+
+  const run = async (busy: string, action: () => Promise<void>) => {
+    setBusyId(busy);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = (post: TrashedPost) => {
+    if (!confirm(`Permanently delete "${post.title || 'Untitled'}"? Its media, comments and history are removed and this can't be undone.`)) return;
+    run(post.id, () => purgePosts([post.id]));
+  };
+
+  const handleEmpty = () => {
+    if (!confirm(`Permanently delete all ${posts.length} posts in the trash? This can't be undone.`)) return;
+    run('all', () => purgePosts(posts.map(post => post.id)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="p-6 border-b border-stone-200 flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-serif font-bold text-brand-dark">Trash</h2>
+            <p className="text-sm text-stone-500 mt-1">Deleted posts are kept for {TRASH_RETENTION_DAYS} days, then removed with their media.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {posts.length > 0 && (
+              <button
+                onClick={handleEmpty}
+                disabled={!!busyId}
+                className="text-sm flex items-center gap-1.5 px-3 py-1.5 border border-red-200 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+              >
+                {busyId === 'all' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />} Empty trash
+              </button>
+            )}
+            <button onClick={onClose} className="text-stone-400 hover:text-stone-600 transition-colors">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="mx-6 mt-4 text-sm text-red-600 bg-red-50 p-3 rounded-lg">{error}</p>}
+
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-stone-400 py-12 justify-center">
+            <Loader2 className="w-4 h-4 animate-spin" /> Loading trash...
+          </div>
+        ) : posts.length === 0 ? (
+          <p className="text-sm text-stone-400 py-12 text-center">The trash is empty</p>
+        ) : (
+          <ul className="overflow-y-auto divide-y divide-stone-100 p-2">
+            {posts.map(post => {
+              const daysLeft = getDaysLeftInTrash(post.deletedAt);
+              return (
+                <li key={post.id} className="flex items-center gap-3 p-3">
+                  {post.imageUrl ? (
+                    post.mediaType === 'video' ? (
+                      <div className="w-12 h-12 bg-stone-800 rounded flex items-center justify-center shrink-0">
+                        <Film className="w-5 h-5 text-white" />
+                      </div>
+                    ) : (
+                      <img src={post.imageUrl} alt="" className="w-12 h-12 object-cover rounded shrink-0" />
+                    )
+                  ) : (
+                    <div className="w-12 h-12 bg-stone-100 rounded shrink-0 flex items-center justify-center">
+                      <span className="text-[10px] text-stone-400">No img</span>
+                    </div>
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-stone-800 truncate">{post.title || 'Untitled'}</p>
+                    <p className="text-xs text-stone-500 truncate">{post.caption || 'No caption'}</p>
+                    <p className="text-[11px] text-stone-400 mt-0.5">
+                      {formatPostDate(post.date)} · {post.status} · Deleted {formatTrashDate(post.deletedAt)} · {daysLeft === 0 ? 'Removed at next cleanup' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => run(post.id, () => restorePosts([post.id]))}
+                    disabled={!!busyId}
+                    className="text-sm flex items-center gap-1.5 px-3 py-1.5 border border-stone-300 rounded-lg hover:bg-stone-50 disabled:opacity-50 transition-colors"
+                  >
+                    {busyId === post.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />} Restore
+                  </button>
+                  <button
+                    onClick={() => handlePurge(post)}
+                    disabled={!!busyId}
+                    className="text-stone-400 hover:text-red-500 disabled:opacity-50 transition-colors p-1.5"
+                    title="Delete forever"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
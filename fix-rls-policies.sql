@@ -1,5 +1,8 @@
 -- Fix RLS Policies for Posts Table
 -- Run this in Supabase SQL Editor if data is not saving
+--
+-- SUPERSEDED by add-client-rls-policies.sql - this opens posts to everyone.
+-- Do not run it once per-client policies are in place.
 
 -- First, drop existing policy if it exists
 DROP POLICY IF EXISTS "Enable all access for posts table" ON posts;
@@ -1,15 +1,19 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { ReviewPage } from './components/ReviewPage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Magic links from review emails open the standalone review page (no login)
+const reviewToken = new URLSearchParams(window.location.search).get('review');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {reviewToken ? <ReviewPage token={reviewToken} /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { supabase } from './supabaseClient';
+import { Client, Post, PostApproval, PostStatus, UserRole } from '../types';
+import { CHANGE_SOURCE_HEADER, ChangeSource } from './postHistoryService';
+import { isAgencyRole } from './authService';
+import { shiftDate } from './bulkService';
+
+// Approval Service - multi-approver sign-off
+// Each approval is recorded per person (post_approvals); the database moves a
+// post to Approved once the client's rule is met - approval_quorum approvals,
+// including every user in required_approvers (add-approval-quorum-schema.sql).
+// Once a client has a rule, only client-side approvals count towards it.
+// Posts awaiting approval also have a deadline: approval_lead_days before
+// their date (add-approval-deadlines-schema.sql).
+
+// Keep in sync with api/approval-reminders.ts
+export const DEFAULT_APPROVAL_LEAD_DAYS = 3;
+export const APPROVAL_AT_RISK_DAYS = 2; // Days before the deadline a post counts as at risk
+
+export interface ClientApprover {
+  id: string;
+  name: string;
+}
+
+export interface ApprovalProgress {
+  approvals: PostApproval[];
+  needed: number; // Approvals the post needs in total
+  notCounted: string[]; // Approval IDs that don't count towards it (agency approvals under a client rule)
+  missingApprovers: string[]; // Required approver IDs who haven't approved yet
+}
+
+const mapDbToApproval = (row: any): PostApproval => ({
+  id: row.id,
+  postId: row.post_id,
+  userId: row.user_id || undefined,
+  approverName: row.approver_name,
+  approverRole: row.approver_role || undefined,
+  source: row.source,
+  createdAt: row.created_at,
+});
+
+// Every approval on a client's posts, oldest first
+export const getClientApprovals = async (clientId: string): Promise<PostApproval[]> => {
+  const { data, error } = await supabase
+    .from('post_approvals')
+    .select('id, post_id, user_id, approver_name, approver_role, source, created_at')
+    .eq('client_id', clientId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load approvals: ${error.message}`);
+  }
+
+  return (data || []).map(mapDbToApproval);
+};
+
+// Approve as the signed-in user - returns each post's status afterwards
+// ('Approved' once the rule was met, otherwise unchanged)
+export const approvePosts = async (postIds: string[], source: ChangeSource = 'edit'): Promise<Map<string, PostStatus>> => {
+  const statuses = new Map<string, PostStatus>();
+  if (postIds.length === 0) return statuses;
+
+  const { data, error } = await supabase
+    .rpc('approve_posts', { p_post_ids: postIds })
+    .setHeader(CHANGE_SOURCE_HEADER, source);
+
+  if (error) {
+    throw new Error(`Failed to approve posts: ${error.message}`);
+  }
+
+  for (const row of (data || []) as { approved_post_id: string; new_status: PostStatus }[]) {
+    statuses.set(row.approved_post_id, row.new_status);
+  }
+  return statuses;
+};
+
+// Take back the signed-in user's approvals (only on posts not yet Approved)
+export const withdrawApprovals = async (postIds: string[]): Promise<void> => {
+  if (postIds.length === 0) return;
+
+  const { error } = await supabase.rpc('withdraw_post_approvals', { p_post_ids: postIds });
+
+  if (error) {
+    throw new Error(`Failed to withdraw approvals: ${error.message}`);
+  }
+};
+
+// Client approvers who can be named as required approvers
+export const getClientApprovers = async (clientId: string): Promise<ClientApprover[]> => {
+  const { data, error } = await supabase.rpc('app_client_approvers', { p_client_id: clientId });
+
+  if (error) {
+    throw new Error(`Failed to load approvers: ${error.message}`);
+  }
+
+  return (data || []) as ClientApprover[];
+};
+
+// Approvals needed for a client's posts - required approvers count towards the quorum
+export const getApprovalsNeeded = (client: Client | null | undefined): number => {
+  return Math.max(client?.approval_quorum || 1, client?.required_approvers?.length || 0);
+};
+
+// Whether an approval counts towards the client's rule - under the default rule
+// any approval does; a configured rule needs the client's own approvers
+// (keep in sync with post_approval_quorum_met)
+export const countsTowardsRule = (client: Client | null | undefined, approval: PostApproval): boolean => {
+  const hasRule = (client?.approval_quorum || 1) > 1 || (client?.required_approvers?.length || 0) > 0;
+  return !hasRule || !approval.approverRole || !isAgencyRole(approval.approverRole as UserRole);
+};
+
+export const getApprovalProgress = (client: Client | null | undefined, approvals: PostApproval[]): ApprovalProgress => {
+  const approvedBy = new Set(approvals.map(approval => approval.userId).filter(Boolean));
+  return {
+    approvals,
+    needed: getApprovalsNeeded(client),
+    notCounted: approvals.filter(approval => !countsTowardsRule(client, approval)).map(approval => approval.id),
+    missingApprovers: (client?.required_approvers || []).filter(id => !approvedBy.has(id)),
+  };
+};
+
+// True when a client needs more than a single approval
+export const hasApprovalRule = (client: Client | null | undefined): boolean => {
+  return getApprovalsNeeded(client) > 1;
+};
+
+export const getApprovalLeadDays = (client: Client | null | undefined): number => {
+  return client?.approval_lead_days ?? DEFAULT_APPROVAL_LEAD_DAYS;
+};
+
+// YYYY-MM-DD a post should be approved by, or null (no date, or the client has no deadline)
+export const getApprovalDeadline = (post: Pick<Post, 'date'>, client: Client | null | undefined): string | null => {
+  const leadDays = getApprovalLeadDays(client);
+  if (!post.date || leadDays === 0) return null;
+  return shiftDate(post.date, -leadDays);
+};
+
+// 'overdue' once the deadline has passed, 'at_risk' within APPROVAL_AT_RISK_DAYS of it.
+// Only posts waiting on the client (For Approval) have a deadline to miss.
+export type ApprovalRisk = 'at_risk' | 'overdue';
+
+export const getApprovalRisk = (post: Pick<Post, 'date' | 'status'>, client: Client | null | undefined, today: string): ApprovalRisk | null => {
+  if (post.status !== 'For Approval') return null;
+  const deadline = getApprovalDeadline(post, client);
+  if (!deadline) return null;
+  if (deadline < today) return 'overdue';
+  return shiftDate(today, APPROVAL_AT_RISK_DAYS) >= deadline ? 'at_risk' : null;
+};
@@ -0,0 +1,142 @@
+import { Client, User, UserRole } from '../types';
+
+// Auth Service - per-person accounts
+// Login and session checks go through serverless API routes (/api/login, /api/session)
+// Only the server-issued session token is kept in the browser, never the PIN
+
+const SESSION_KEY = 'seam_media_session';
+
+interface StoredSession {
+  token: string;
+  expiresAt: string;
+  clientId?: string; // Last selected client, restored on return visits
+}
+
+export interface AuthResult {
+  user: User;
+  clients: Client[];
+  selectedClientId?: string;
+}
+
+const readStoredSession = (): StoredSession | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    if (!stored) return null;
+    const session: StoredSession = JSON.parse(stored);
+    if (!session.token || Date.now() > new Date(session.expiresAt).getTime()) {
+      localStorage.removeItem(SESSION_KEY);
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+const writeStoredSession = (session: StoredSession): void => {
+  localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+// Get the current session token (for authenticated API calls)
+export const getSessionToken = (): string | null => {
+  return readStoredSession()?.token || null;
+};
+
+// Log in with email + PIN
+export const login = async (email: string, pin: string): Promise<AuthResult> => {
+  const response = await fetch('/api/login', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ email, pin }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `Login failed: ${response.status}`);
+  }
+
+  writeStoredSession({ token: data.token, expiresAt: data.expiresAt });
+  return { user: data.user, clients: data.clients || [] };
+};
+
+// Validate the stored session with the server
+// Returns null (and clears local state) if there is no session or it has been revoked
+export const restoreSession = async (): Promise<AuthResult | null> => {
+  const session = readStoredSession();
+  if (!session) return null;
+
+  const response = await fetch('/api/session', {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${session.token}`,
+    },
+  });
+
+  if (response.status === 401) {
+    clearSession();
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to restore session: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return { user: data.user, clients: data.clients || [], selectedClientId: session.clientId };
+};
+
+// Remember which client was selected so it can be restored next visit
+export const saveSelectedClient = (clientId: string): void => {
+  const session = readStoredSession();
+  if (session) {
+    writeStoredSession({ ...session, clientId });
+  }
+};
+
+const clearSession = (): void => {
+  localStorage.removeItem(SESSION_KEY);
+};
+
+// Revoke the session server-side and forget it locally
+export const logout = async (): Promise<void> => {
+  const token = getSessionToken();
+  clearSession();
+  if (!token) return;
+
+  try {
+    await fetch('/api/session', {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+  }
+};
+
+// Role helpers
+export const isAgencyRole = (role: UserRole): boolean => {
+  return role === 'agency_admin' || role === 'agency_editor';
+};
+
+// Agency staff and client approvers can change content; viewers are read-only
+export const canEditPosts = (role: UserRole): boolean => {
+  return role !== 'client_viewer';
+};
+
+// Integrations and client settings are admin-only
+export const canManageSettings = (role: UserRole): boolean => {
+  return role === 'agency_admin';
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  agency_admin: 'Agency Admin',
+  agency_editor: 'Agency Editor',
+  client_approver: 'Approver',
+  client_viewer: 'Viewer',
+};
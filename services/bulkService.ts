@@ -0,0 +1,36 @@
+import { supabase } from './supabaseClient';
+import { CHANGE_SOURCE_HEADER, ChangeSource } from './postHistoryService';
+
+// Bulk Service - batched writes for the table's bulk actions
+// bulk_update_posts (add-bulk-actions-schema.sql) applies every change in one
+// statement, so a rejected row rolls back the whole batch.
+
+// DB columns for one post: id plus any of date, status, pillar, generated_caption, generated_hashtags
+export type BulkPostChange = { id: string } & Record<string, unknown>;
+
+export const bulkUpdatePosts = async (changes: BulkPostChange[], source: ChangeSource): Promise<void> => {
+  if (changes.length === 0) return;
+
+  const { error } = await supabase
+    .rpc('bulk_update_posts', { p_changes: changes })
+    .setHeader(CHANGE_SOURCE_HEADER, source);
+
+  if (error) {
+    throw new Error(`Failed to update posts: ${error.message}`);
+  }
+};
+
+// YYYY-MM-DD moved by a number of days (negative moves earlier)
+export const shiftDate = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return shifted.toISOString().split('T')[0];
+};
+
+// Same day of the month in another month (YYYY-MM), clamped to its last day
+export const moveToMonth = (date: string, month: string): string => {
+  const [targetYear, targetMonth] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(targetYear, targetMonth, 0)).getUTCDate();
+  const day = Math.min(Number(date.split('-')[2]) || 1, lastDay);
+  return `${month}-${String(day).padStart(2, '0')}`;
+};
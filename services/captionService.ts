@@ -0,0 +1,104 @@
+import { Post, SocialPlatform, CaptionVariant } from '../types';
+
+// Caption Service - per-platform caption variants
+// Each platform can override the base caption/hashtags; whatever is left out
+// falls back to the base. Limits are enforced when the final text is built.
+
+interface PlatformLimits {
+  label: string;
+  maxChars: number;
+  maxHashtags: number | null; // null = no platform limit
+}
+
+export const PLATFORMS: SocialPlatform[] = ['instagram', 'facebook', 'linkedin', 'tiktok', 'twitter', 'threads'];
+
+export const PLATFORM_LIMITS: Record<SocialPlatform, PlatformLimits> = {
+  instagram: { label: 'Instagram', maxChars: 2200, maxHashtags: 30 },
+  facebook: { label: 'Facebook', maxChars: 63206, maxHashtags: null },
+  linkedin: { label: 'LinkedIn', maxChars: 3000, maxHashtags: null },
+  tiktok: { label: 'TikTok', maxChars: 2200, maxHashtags: null },
+  twitter: { label: 'X', maxChars: 280, maxHashtags: null },
+  threads: { label: 'Threads', maxChars: 500, maxHashtags: 1 },
+};
+
+// Character count as the platforms see it (emoji count as one)
+export const countChars = (text: string): number => [...text].length;
+
+// Map a Late/Meta platform id to a caption platform ('x' is stored as 'twitter')
+export const toSocialPlatform = (platform: string): SocialPlatform | null => {
+  const normalized = platform.toLowerCase() === 'x' ? 'twitter' : platform.toLowerCase();
+  return PLATFORMS.includes(normalized as SocialPlatform) ? normalized as SocialPlatform : null;
+};
+
+// Join a caption and hashtags the way every platform receives them
+export const formatCaption = (caption: string, hashtags: string[]): string => {
+  let text = caption;
+  if (hashtags.length > 0) {
+    text += (text ? '\n\n' : '') + hashtags.map(tag => `#${tag}`).join(' ');
+  }
+  return text;
+};
+
+// Caption and hashtags for a platform, falling back to the base ones
+export const getPlatformCaption = (
+  post: Pick<Post, 'generatedCaption' | 'generatedHashtags' | 'captionVariants'>,
+  platform: SocialPlatform
+): Required<CaptionVariant> => {
+  const variant = post.captionVariants?.[platform];
+  return {
+    caption: variant?.caption?.trim() ? variant.caption : post.generatedCaption || '',
+    hashtags: variant?.hashtags && variant.hashtags.length > 0 ? variant.hashtags : post.generatedHashtags || [],
+  };
+};
+
+// Whether a platform has its own caption or hashtags
+export const hasVariant = (post: Pick<Post, 'captionVariants'>, platform: SocialPlatform): boolean => {
+  const variant = post.captionVariants?.[platform];
+  return !!(variant?.caption?.trim() || (variant?.hashtags && variant.hashtags.length > 0));
+};
+
+// Problems to show before publishing (over the character or hashtag limit)
+export const getCaptionIssues = (
+  post: Pick<Post, 'generatedCaption' | 'generatedHashtags' | 'captionVariants'>,
+  platform: SocialPlatform
+): string[] => {
+  const limits = PLATFORM_LIMITS[platform];
+  const { caption, hashtags } = getPlatformCaption(post, platform);
+  const issues: string[] = [];
+
+  const length = countChars(formatCaption(caption, hashtags));
+  if (length > limits.maxChars) {
+    issues.push(`${length}/${limits.maxChars} characters`);
+  }
+  if (limits.maxHashtags !== null && hashtags.length > limits.maxHashtags) {
+    issues.push(`${hashtags.length}/${limits.maxHashtags} hashtags`);
+  }
+  return issues;
+};
+
+// Base caption with hashtags (used when the platform is unknown)
+export const buildBaseCaption = (post: Pick<Post, 'generatedCaption' | 'generatedHashtags' | 'imageDescription'>): string => {
+  return formatCaption(post.generatedCaption || '', post.generatedHashtags || []) || post.imageDescription || '';
+};
+
+// Final text for a platform with its limits enforced:
+// extra hashtags are dropped first, then the caption is shortened
+export const buildPlatformCaption = (
+  post: Pick<Post, 'generatedCaption' | 'generatedHashtags' | 'captionVariants' | 'imageDescription'>,
+  platform: SocialPlatform
+): string => {
+  const limits = PLATFORM_LIMITS[platform];
+  const resolved = getPlatformCaption(post, platform);
+  const caption = resolved.caption || post.imageDescription || '';
+  let hashtags = limits.maxHashtags !== null ? resolved.hashtags.slice(0, limits.maxHashtags) : resolved.hashtags;
+
+  while (hashtags.length > 0 && countChars(formatCaption(caption, hashtags)) > limits.maxChars) {
+    hashtags = hashtags.slice(0, -1);
+  }
+
+  const text = formatCaption(caption, hashtags);
+  if (countChars(text) <= limits.maxChars) {
+    return text;
+  }
+  return [...caption].slice(0, limits.maxChars - 1).join('').trimEnd() + '…';
+};
@@ -0,0 +1,88 @@
+import { supabase } from './supabaseClient';
+import { CaptionSource, CaptionVersion } from '../types';
+import { formatCaption } from './captionService';
+
+// Caption Version Service - reads caption_versions and diffs versions
+// Versions are written by a database trigger on posts, never from the browser
+
+export const CAPTION_SOURCE_LABELS: Record<CaptionSource, string> = {
+  manual: 'Manual edit',
+  ai_generate: 'AI generate',
+  ai_feedback: 'AI feedback update',
+  restore: 'Restored',
+};
+
+export interface DiffSegment {
+  text: string;
+  type: 'same' | 'added' | 'removed';
+}
+
+// Fetch a post's caption versions, newest first
+export const getCaptionVersions = async (postId: string): Promise<CaptionVersion[]> => {
+  const { data, error } = await supabase
+    .from('caption_versions')
+    .select('*')
+    .eq('post_id', postId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load caption versions: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    postId: row.post_id,
+    caption: row.caption || '',
+    hashtags: row.hashtags || [],
+    source: row.source,
+    actorName: row.actor_name,
+    createdAt: row.updated_at || row.created_at,
+  }));
+};
+
+// Caption + hashtags as one text, the way it is compared and published
+export const getVersionText = (version: Pick<CaptionVersion, 'caption' | 'hashtags'>): string => {
+  return formatCaption(version.caption, version.hashtags);
+};
+
+// Word-level diff (longest common subsequence), whitespace kept with each word
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = before.match(/\s*\S+|\s+/g) || [];
+  const b = after.match(/\s*\S+|\s+/g) || [];
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (text: string, type: DiffSegment['type']) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+
+  return segments;
+};
@@ -0,0 +1,177 @@
+import { supabase } from './supabaseClient';
+import { PostComment, MentionableUser, CommentPin, ImageAnnotation } from '../types';
+
+// Comment Service - threaded comments on posts (post_comments)
+// Author, mentions and resolve details are filled in by a database trigger
+// from the session, so only the body, thread and mentioned ids are sent.
+// Internal (agency-only) comments are filtered out of client sessions by RLS.
+
+const mapDbToPin = (row: any): CommentPin | undefined => {
+  if (!row.pin_media_url) return undefined;
+  return {
+    mediaUrl: row.pin_media_url,
+    x: row.pin_x ?? undefined,
+    y: row.pin_y ?? undefined,
+    time: row.pin_time ?? undefined,
+  };
+};
+
+const mapDbToComment = (row: any): PostComment => ({
+  id: row.id,
+  postId: row.post_id,
+  parentId: row.parent_id || undefined,
+  body: row.body,
+  authorName: row.author_name,
+  authorRole: row.author_role,
+  mentions: row.mentions || [],
+  resolved: !!row.resolved,
+  resolvedByName: row.resolved_by_name || undefined,
+  resolvedAt: row.resolved_at || undefined,
+  pin: mapDbToPin(row),
+  internal: !!row.internal,
+  createdAt: row.created_at,
+});
+
+// Every comment on a client's posts, oldest first
+export const getClientComments = async (clientId: string): Promise<PostComment[]> => {
+  const { data, error } = await supabase
+    .from('post_comments')
+    .select('*')
+    .eq('client_id', clientId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load comments: ${error.message}`);
+  }
+
+  return (data || []).map(mapDbToComment);
+};
+
+export const addComment = async (params: {
+  postId: string;
+  clientId: string;
+  body: string;
+  parentId?: string;
+  mentions?: string[];
+  pin?: CommentPin;
+  internal?: boolean;
+}): Promise<PostComment> => {
+  const { data, error } = await supabase
+    .from('post_comments')
+    .insert({
+      post_id: params.postId,
+      client_id: params.clientId,
+      body: params.body.trim(),
+      parent_id: params.parentId || null,
+      mentions: params.mentions || [],
+      pin_media_url: params.pin?.mediaUrl ?? null,
+      pin_x: params.pin?.x ?? null,
+      pin_y: params.pin?.y ?? null,
+      pin_time: params.pin?.time ?? null,
+      internal: !!params.internal,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to add comment: ${error.message}`);
+  }
+
+  return mapDbToComment(data);
+};
+
+export const setCommentResolved = async (id: string, resolved: boolean): Promise<PostComment> => {
+  const { data, error } = await supabase
+    .from('post_comments')
+    .update({ resolved })
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update comment: ${error.message}`);
+  }
+
+  return mapDbToComment(data);
+};
+
+// Agency staff for @mention suggestions
+export const getMentionableUsers = async (): Promise<MentionableUser[]> => {
+  const { data, error } = await supabase.rpc('app_mentionable_staff');
+
+  if (error) {
+    throw new Error(`Failed to load staff: ${error.message}`);
+  }
+
+  return (data || []) as MentionableUser[];
+};
+
+// Ids of the staff whose "@Name" appears in a comment
+export const extractMentions = (body: string, users: MentionableUser[]): string[] => {
+  const lower = body.toLowerCase();
+  return users.filter(user => lower.includes(`@${user.name.toLowerCase()}`)).map(user => user.id);
+};
+
+// Threads for a post in one channel: top-level comments (oldest first) with their replies
+export const getThreads = (
+  comments: PostComment[],
+  postId: string,
+  internal = false
+): { comment: PostComment; replies: PostComment[] }[] => {
+  const postComments = comments.filter(c => c.postId === postId && c.internal === internal);
+  return postComments
+    .filter(c => !c.parentId)
+    .map(comment => ({
+      comment,
+      replies: postComments.filter(c => c.parentId === comment.id),
+    }));
+};
+
+// Pin numbers shown on the overlays and in the thread list (1, 2, ... in thread order)
+export const getPinNumbers = (comments: PostComment[], postId: string): Map<string, number> => {
+  const numbers = new Map<string, number>();
+  getThreads(comments, postId)
+    .filter(thread => thread.comment.pin)
+    .forEach((thread, index) => numbers.set(thread.comment.id, index + 1));
+  return numbers;
+};
+
+export const formatPinTime = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// "at 0:12, 30% from left, 45% from top" - for feedback text and tooltips
+export const describePin = (pin: CommentPin): string => {
+  const parts: string[] = [];
+  if (pin.time !== undefined) parts.push(formatPinTime(pin.time));
+  if (pin.x !== undefined && pin.y !== undefined) {
+    parts.push(`${Math.round(pin.x * 100)}% from left, ${Math.round(pin.y * 100)}% from top`);
+  }
+  return `at ${parts.join(', ')}`;
+};
+
+// Open threads as plain text - the feedback AI caption/image updates work from
+export const getOpenFeedback = (comments: PostComment[], postId: string): string => {
+  return getThreads(comments, postId)
+    .filter(thread => !thread.comment.resolved)
+    .flatMap(thread => [thread.comment, ...thread.replies])
+    .map(c => `${c.pin ? `[Pinned ${describePin(c.pin)}] ` : ''}${c.authorName}: ${c.body}`)
+    .join('\n\n');
+};
+
+// Open point pins on one image (with their replies) - marked regions for image edits
+export const getImageAnnotations = (
+  comments: PostComment[],
+  postId: string,
+  mediaUrl: string
+): ImageAnnotation[] => {
+  return getThreads(comments, postId)
+    .filter(({ comment }) => !comment.resolved && comment.pin?.mediaUrl === mediaUrl
+      && comment.pin.x !== undefined && comment.pin.y !== undefined)
+    .map(({ comment, replies }) => ({
+      x: comment.pin!.x!,
+      y: comment.pin!.y!,
+      note: [comment, ...replies].map(c => c.body).join(' / '),
+    }));
+};
@@ -1,6 +1,7 @@
 import { GoogleGenerativeAI, SchemaType } from "@google/generative-ai";
 import { GoogleGenAI, Modality } from "@google/genai";
-import { BrandContext, GenerationResult } from "../types";
+import { BrandContext, GenerationResult, CaptionVariants, SocialPlatform, ImageAnnotation } from "../types";
+import { PLATFORM_LIMITS, countChars, formatCaption } from "./captionService";
 
 const getClient = () => new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || '');
 const getGenAIClient = () => new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY || '' });
@@ -257,6 +258,116 @@ export const updateFromFeedback = async (
   }
 };
 
+// Rewrite the base caption for each platform, within that platform's limits
+export const generateCaptionVariants = async (
+  baseCaption: string,
+  baseHashtags: string[],
+  platforms: SocialPlatform[],
+  brandName: string,
+  clientNotes?: string
+): Promise<CaptionVariants> => {
+  const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('Gemini API key not configured.');
+  }
+
+  const clientNotesSection = clientNotes?.trim()
+    ? `\n\nCLIENT-SPECIFIC GUIDELINES (IMPORTANT - follow these closely):\n${clientNotes}`
+    : '';
+
+  const variantSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+      caption: { type: SchemaType.STRING },
+      hashtags: {
+        type: SchemaType.ARRAY,
+        items: { type: SchemaType.STRING },
+      },
+    },
+    required: ["caption", "hashtags"],
+  };
+
+  const genAI = getClient();
+  const model = genAI.getGenerativeModel({
+    model: "gemini-2.0-flash-exp",
+    systemInstruction: `
+      You are a social media copywriter for '${brandName}'.
+
+      Your task is to adapt one approved caption for each social platform.
+
+      IMPORTANT RULES:
+      - NEVER use em dashes (—) or en dashes (–). Use commas or periods instead.
+      - Keep the message, facts and call to action of the original.
+      - Match each platform's style (e.g. LinkedIn more professional, X short and punchy).
+      - Stay within each platform's character limit INCLUDING the hashtags.
+      ${clientNotesSection}
+    `,
+    generationConfig: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: SchemaType.OBJECT,
+        properties: Object.fromEntries(platforms.map(platform => [platform, variantSchema])),
+        required: platforms,
+      },
+    },
+  });
+
+  const limitLines = platforms.map(platform => {
+    const limits = PLATFORM_LIMITS[platform];
+    const hashtagLimit = limits.maxHashtags !== null ? `, at most ${limits.maxHashtags} hashtag(s)` : '';
+    return `- ${platform} (${limits.label}): at most ${limits.maxChars} characters${hashtagLimit}`;
+  }).join('\n');
+
+  const prompt = `
+    Here is the approved post content:
+
+    CAPTION:
+    ${baseCaption}
+
+    HASHTAGS:
+    ${baseHashtags.map(h => `#${h}`).join(' ')}
+
+    Write a version for each of these platforms (keys as given):
+    ${limitLines}
+
+    Return hashtags without the # symbol.
+  `;
+
+  try {
+    const result = await model.generateContent([{ text: prompt }]);
+    const text = result.response.text();
+
+    if (!text) throw new Error("No response from Gemini");
+
+    const parsed = JSON.parse(text);
+    const variants: CaptionVariants = {};
+
+    for (const platform of platforms) {
+      const variant = parsed[platform];
+      if (!variant) continue;
+
+      const limits = PLATFORM_LIMITS[platform];
+      const caption = (variant.caption || '').replace(/—/g, ', ').replace(/–/g, ', ');
+      let hashtags: string[] = (variant.hashtags || []).map((tag: string) => tag.replace(/^#/, ''));
+      if (limits.maxHashtags !== null) {
+        hashtags = hashtags.slice(0, limits.maxHashtags);
+      }
+      // Drop hashtags rather than send text the platform will reject
+      while (hashtags.length > 0 && countChars(formatCaption(caption, hashtags)) > limits.maxChars) {
+        hashtags = hashtags.slice(0, -1);
+      }
+
+      variants[platform] = { caption, hashtags };
+    }
+
+    return variants;
+
+  } catch (error: any) {
+    console.error("Gemini Variant Generation Error:", error);
+    throw new Error(`Variant generation failed: ${error.message || 'Unknown error'}`);
+  }
+};
+
 export const generatePostContent = async (
   imageDescription: string,
   brand: BrandContext,
@@ -333,7 +444,8 @@ export const generateImageFromFeedback = async (
   currentImageSource: string | null,
   feedback: string,
   brandContext?: string,
-  referenceImages?: string[]
+  referenceImages?: string[],
+  annotations?: ImageAnnotation[]
 ): Promise<{ imageBase64: string; mimeType: string }> => {
   const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
   if (!apiKey) {
@@ -346,9 +458,16 @@ export const generateImageFromFeedback = async (
   const hasReferenceImages = referenceImages && referenceImages.length > 0;
   let prompt: string;
 
+  // Points the reviewer pinned on the image, so "the candle on the left" can be located
+  const annotationText = currentImageSource && annotations && annotations.length > 0
+    ? `\nThe reviewer marked these points on the image (measured from the top-left corner):\n${annotations
+        .map((a, i) => `${i + 1}. ${Math.round(a.x * 100)}% from the left, ${Math.round(a.y * 100)}% from the top: "${a.note}"`)
+        .join('\n')}\nApply each note to the part of the image at its point.\n`
+    : '';
+
   if (currentImageSource) {
     prompt = `Edit this image based on the following feedback: "${feedback}"
-
+${annotationText}
 ${brandContext ? `Brand context: ${brandContext}` : ''}
 ${hasReferenceImages ? `\nIMPORTANT: Use the provided reference images as style guides. Match their visual aesthetic, color palette, lighting, and overall brand feel.` : ''}
 
@@ -2,6 +2,8 @@
 // Uses serverless API routes to proxy requests (avoids CORS issues)
 // Documentation: https://getlate.dev/
 
+import { MediaItem } from '../types';
+
 export interface LateProfile {
   id: string;
   platform: string;
@@ -10,11 +12,11 @@ export interface LateProfile {
 }
 
 export interface SchedulePostParams {
-  platforms: { platform: string; accountId: string }[];
+  platforms: { platform: string; accountId: string; customContent?: string }[]; // customContent overrides content for that platform
   content: string;
-  mediaUrls?: string[];
-  mediaType?: 'image' | 'video'; // Type of media being posted
-  scheduledFor: string; // ISO 8601 format
+  mediaItems?: MediaItem[]; // Public URLs in order - more than one is a carousel
+  scheduledFor: string; // Wall-clock date-time without offset, e.g. 2025-03-01T09:30:00
+  timezone: string; // IANA timezone scheduledFor is in (the client's timezone)
 }
 
 export interface ScheduledPost {
@@ -49,7 +51,8 @@ export const getProfiles = async (): Promise<LateProfile[]> => {
 };
 
 // Schedule a post via Late API (via serverless proxy)
-export const schedulePost = async (params: SchedulePostParams): Promise<{ id: string }> => {
+// Returns the Late post id (used by /api/publish-status to follow it to Published/Failed)
+export const schedulePost = async (params: SchedulePostParams): Promise<{ id?: string }> => {
   const response = await fetch('/api/late-schedule', {
     method: 'POST',
     headers: {
@@ -58,9 +61,9 @@ export const schedulePost = async (params: SchedulePostParams): Promise<{ id: st
     body: JSON.stringify({
       platforms: params.platforms,
       content: params.content,
-      mediaUrls: params.mediaUrls || [],
-      mediaType: params.mediaType || 'image',
+      mediaItems: params.mediaItems || [],
       scheduledFor: params.scheduledFor,
+      timezone: params.timezone,
     }),
   });
 
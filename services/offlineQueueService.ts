@@ -0,0 +1,100 @@
+import { Post } from '../types';
+import { ChangeSource } from './postHistoryService';
+
+// Offline Queue Service - post writes kept on this device until they can be sent
+// Edits, status changes, approvals and new posts made without a connection (or
+// that failed on one) are stored in IndexedDB, so they survive a reload, and
+// App replays them oldest first when the connection returns. Edits keep the
+// revision they were made on, so replaying them still detects conflicts.
+
+export type QueuedMutation =
+  | { kind: 'update'; postId: string; field: keyof Post; value: unknown; base: { revision?: number; value: unknown } }
+  | { kind: 'insert'; postId: string; row: Record<string, any> }
+  | { kind: 'approve'; postIds: string[]; source: ChangeSource };
+
+export type QueuedEntry = QueuedMutation & {
+  seq: number; // Replay order
+  userId: string; // Only replayed for the person who made it
+  queuedAt: string;
+};
+
+// Where a post's changes stand on this device (nothing shown once saved)
+export type PostSyncState = 'queued' | 'syncing' | 'conflict';
+
+const DB_NAME = 'light-dust-offline';
+const STORE = 'mutations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, 1);
+      open.onupgradeneeded = () => {
+        open.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => {
+        dbPromise = null;
+        reject(open.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// A user's queued writes, oldest first
+export const getQueuedMutations = async (userId: string): Promise<QueuedEntry[]> => {
+  try {
+    const all = await run<QueuedEntry[]>('readonly', store => store.getAll());
+    return all.filter(entry => entry.userId === userId).sort((a, b) => a.seq - b.seq);
+  } catch (error) {
+    throw new Error(`Failed to read offline changes: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+// Queue a write. A later edit of a field that is already queued replaces its
+// value in place - it keeps its turn and the revision the first edit started from
+// (except the entry being replayed right now, which is about to be removed).
+export const enqueueMutation = async (userId: string, mutation: QueuedMutation, replayingSeq: number | null = null): Promise<void> => {
+  try {
+    if (mutation.kind === 'update') {
+      const queued = await getQueuedMutations(userId);
+      const existing = queued.find(entry =>
+        entry.kind === 'update' && entry.seq !== replayingSeq && entry.postId === mutation.postId && entry.field === mutation.field
+      );
+      if (existing) {
+        await run('readwrite', store => store.put({ ...existing, value: mutation.value }));
+        return;
+      }
+    }
+    // seq is left out so IndexedDB assigns the next one
+    await run('readwrite', store => store.add({ ...mutation, userId, queuedAt: new Date().toISOString() }));
+  } catch (error) {
+    throw new Error(`Failed to save the change on this device: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+export const removeQueuedMutation = async (seq: number): Promise<void> => {
+  await run('readwrite', store => store.delete(seq));
+};
+
+// Errors worth keeping a write queued for: no connection, or a session that
+// expired while offline (it goes through after signing in again)
+export const isRetryableError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const { message = '', code = '' } = (error || {}) as { message?: string; code?: string };
+  return /failed to fetch|networkerror|load failed|network request failed|jwt/i.test(message) || code === 'PGRST301';
+};
+
+export const getQueuedPostIds = (entries: QueuedEntry[]): Set<string> =>
+  new Set(entries.flatMap(entry => entry.kind === 'approve' ? entry.postIds : [entry.postId]));
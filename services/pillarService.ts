@@ -0,0 +1,113 @@
+import { Client, ContentPillar, PillarColor, Post } from '../types';
+
+// Pillar Service - content pillars, campaigns and tags
+// Pillars are defined per client (clients.content_pillars); posts point at one
+// by id, so renaming or recolouring a pillar updates every post that uses it.
+
+export const PILLAR_COLORS: Record<PillarColor, { bg: string; text: string; hoverBg: string; noImgBg: string; noImgText: string; dot: string }> = {
+  emerald: { bg: 'bg-emerald-100', text: 'text-emerald-800', hoverBg: 'hover:bg-emerald-200', noImgBg: 'bg-emerald-200', noImgText: 'text-emerald-500', dot: 'bg-emerald-500' },
+  sky: { bg: 'bg-sky-100', text: 'text-sky-800', hoverBg: 'hover:bg-sky-200', noImgBg: 'bg-sky-200', noImgText: 'text-sky-500', dot: 'bg-sky-500' },
+  violet: { bg: 'bg-violet-100', text: 'text-violet-800', hoverBg: 'hover:bg-violet-200', noImgBg: 'bg-violet-200', noImgText: 'text-violet-500', dot: 'bg-violet-500' },
+  amber: { bg: 'bg-amber-100', text: 'text-amber-800', hoverBg: 'hover:bg-amber-200', noImgBg: 'bg-amber-200', noImgText: 'text-amber-500', dot: 'bg-amber-500' },
+  rose: { bg: 'bg-rose-100', text: 'text-rose-800', hoverBg: 'hover:bg-rose-200', noImgBg: 'bg-rose-200', noImgText: 'text-rose-500', dot: 'bg-rose-500' },
+  teal: { bg: 'bg-teal-100', text: 'text-teal-800', hoverBg: 'hover:bg-teal-200', noImgBg: 'bg-teal-200', noImgText: 'text-teal-500', dot: 'bg-teal-500' },
+  orange: { bg: 'bg-orange-100', text: 'text-orange-800', hoverBg: 'hover:bg-orange-200', noImgBg: 'bg-orange-200', noImgText: 'text-orange-500', dot: 'bg-orange-500' },
+  indigo: { bg: 'bg-indigo-100', text: 'text-indigo-800', hoverBg: 'hover:bg-indigo-200', noImgBg: 'bg-indigo-200', noImgText: 'text-indigo-500', dot: 'bg-indigo-500' },
+};
+
+export const PILLAR_COLOR_OPTIONS = Object.keys(PILLAR_COLORS) as PillarColor[];
+
+// Posts without a pillar (or whose pillar was removed)
+export const UNASSIGNED_PILLAR_COLORS = { bg: 'bg-stone-100', text: 'text-stone-600', hoverBg: 'hover:bg-stone-200', noImgBg: 'bg-stone-200', noImgText: 'text-stone-400', dot: 'bg-stone-300' };
+
+export const getClientPillars = (client: Client | null | undefined): ContentPillar[] => {
+  return client?.content_pillars || [];
+};
+
+export const getPillar = (pillars: ContentPillar[], id: string | undefined): ContentPillar | undefined => {
+  return id ? pillars.find(pillar => pillar.id === id) : undefined;
+};
+
+export const getPillarColors = (pillar: ContentPillar | undefined) => {
+  return pillar ? PILLAR_COLORS[pillar.color] || UNASSIGNED_PILLAR_COLORS : UNASSIGNED_PILLAR_COLORS;
+};
+
+// Next colour not already used by a pillar (cycles once all are taken)
+export const nextPillarColor = (pillars: ContentPillar[]): PillarColor => {
+  return PILLAR_COLOR_OPTIONS.find(color => !pillars.some(p => p.color === color))
+    || PILLAR_COLOR_OPTIONS[pillars.length % PILLAR_COLOR_OPTIONS.length];
+};
+
+// Lower-case, no leading '#', no spaces - so "Winter Launch" and "#winterlaunch" match
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '').toLowerCase();
+};
+
+// Table and calendar filters - '' matches everything
+export interface PostFilters {
+  pillarId: string; // NO_PILLAR for posts without one
+  campaign: string;
+  tag: string;
+}
+
+export const NO_PILLAR = '__none__';
+
+export const EMPTY_FILTERS: PostFilters = { pillarId: '', campaign: '', tag: '' };
+
+export const hasActiveFilters = (filters: PostFilters): boolean => {
+  return !!(filters.pillarId || filters.campaign || filters.tag);
+};
+
+export const matchesFilters = (post: Post, filters: PostFilters, pillars: ContentPillar[]): boolean => {
+  if (filters.pillarId === NO_PILLAR) {
+    if (getPillar(pillars, post.pillarId)) return false;
+  } else if (filters.pillarId && post.pillarId !== filters.pillarId) {
+    return false;
+  }
+  if (filters.campaign && post.campaign !== filters.campaign) return false;
+  if (filters.tag && !(post.tags || []).includes(filters.tag)) return false;
+  return true;
+};
+
+// Campaigns and tags in use, for filter and autocomplete options
+export const getCampaigns = (posts: Post[]): string[] => {
+  return [...new Set(posts.map(p => p.campaign).filter((c): c is string => !!c))].sort();
+};
+
+export const getTags = (posts: Post[]): string[] => {
+  return [...new Set(posts.flatMap(p => p.tags || []))].sort();
+};
+
+// Pillar for each of `count` posts from a target mix in percent, e.g. { product: 40, education: 30 }.
+// Counts use largest remainders; whatever the mix leaves over stays unassigned (undefined).
+// Pillars are interleaved so the same one doesn't run for days in a row.
+export const planPillarMix = (mix: Record<string, number>, count: number): (string | undefined)[] => {
+  const entries = Object.entries(mix).filter(([, percent]) => percent > 0);
+  const total = entries.reduce((sum, [, percent]) => sum + percent, 0);
+  const scale = total > 100 ? 100 / total : 1;
+
+  const exact = entries.map(([id, percent]) => ({ id, value: (percent * scale / 100) * count }));
+  const counts = new Map(exact.map(e => [e.id, Math.floor(e.value)]));
+  const target = Math.min(count, Math.round(exact.reduce((sum, e) => sum + e.value, 0)));
+  let assigned = [...counts.values()].reduce((sum, n) => sum + n, 0);
+
+  for (const e of [...exact].sort((a, b) => (b.value % 1) - (a.value % 1))) {
+    if (assigned >= target) break;
+    counts.set(e.id, (counts.get(e.id) || 0) + 1);
+    assigned++;
+  }
+
+  // Spread each pillar evenly over the run, then fill the gaps with unassigned slots
+  const placed = [...counts.entries()]
+    .flatMap(([id, n]) => Array.from({ length: n }, (_, i) => ({ id, position: (i + 0.5) / n })))
+    .sort((a, b) => a.position - b.position)
+    .map(p => p.id);
+
+  const plan: (string | undefined)[] = [];
+  const unassigned = count - placed.length;
+  for (let i = 0, p = 0; i < count; i++) {
+    const dueUnassigned = unassigned > 0 && Math.floor(((i + 1) * unassigned) / count) > Math.floor((i * unassigned) / count);
+    plan.push(dueUnassigned || p >= placed.length ? undefined : placed[p++]);
+  }
+  return plan;
+};
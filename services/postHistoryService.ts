@@ -0,0 +1,76 @@
+import { supabase } from './supabaseClient';
+import { PostEvent } from '../types';
+
+// Post History Service - reads the post_events audit log
+// Events are written by a database trigger on posts, never from the browser
+
+// Header read by the audit trigger to label where a change came from
+export const CHANGE_SOURCE_HEADER = 'x-change-source';
+
+export type ChangeSource = 'edit' | 'approve_all' | 'auto_post' | 'review_link' | 'schedule' | 'publish_check' | 'ai_generate' | 'ai_feedback' | 'restore' | 'bulk_edit' | 'undo';
+
+// Friendly labels for DB column names
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  date: 'Date',
+  publish_time: 'Publish time',
+  status: 'Status',
+  image_description: 'Image description',
+  image_url: 'Media',
+  media_type: 'Media type',
+  media_items: 'Media',
+  generated_caption: 'Caption',
+  generated_hashtags: 'Hashtags',
+  caption_variants: 'Platform captions',
+  notes: 'Notes',
+  publish_error: 'Publish error',
+  late_post_id: 'Late post',
+  deleted_at: 'Trash',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  approve_all: 'Approve All',
+  auto_post: 'Auto-post',
+  review_link: 'Review link',
+  schedule: 'Schedule Posts',
+  publish_check: 'Publish check',
+  ai_generate: 'AI generate',
+  ai_feedback: 'AI feedback update',
+  restore: 'Restore',
+  bulk_edit: 'Bulk edit',
+  undo: 'Undo',
+};
+
+export const getFieldLabel = (field?: string): string => {
+  if (!field) return '';
+  return FIELD_LABELS[field] || field.replace(/_/g, ' ');
+};
+
+export const getSourceLabel = (source: string): string | null => {
+  return SOURCE_LABELS[source] || null;
+};
+
+// Fetch the change history for a post, newest first
+export const getPostHistory = async (postId: string): Promise<PostEvent[]> => {
+  const { data, error } = await supabase
+    .from('post_events')
+    .select('*')
+    .eq('post_id', postId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load history: ${error.message}`);
+  }
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    postId: row.post_id,
+    eventType: row.event_type,
+    field: row.field || undefined,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    actorName: row.actor_name,
+    source: row.source,
+    createdAt: row.created_at,
+  }));
+};
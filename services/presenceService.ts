@@ -0,0 +1,91 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { Post } from '../types';
+
+// Presence Service - who is viewing or editing which post
+// Everyone working on a client joins its private presence channel
+// (add-edit-presence-schema.sql) and shares the post they have open and the
+// field they are typing in. Locks are soft: the field stays editable, others
+// just see who is in it.
+
+// Fields that show a soft lock while someone is typing in them
+export type PresenceField = Extract<keyof Post, 'generatedCaption' | 'generatedHashtags'>;
+
+export interface PresenceState {
+  userId: string;
+  name: string;
+  viewingPostId: string | null; // Post open in a detail view
+  editing: { postId: string; field: PresenceField } | null;
+}
+
+// Someone else's tab (one person can have several open)
+export interface PresencePeer extends PresenceState {
+  key: string;
+}
+
+export interface PresenceConnection {
+  update: (state: Pick<PresenceState, 'viewingPostId' | 'editing'>) => void;
+  leave: () => void;
+}
+
+const FIELD_LABELS: Record<PresenceField, string> = {
+  generatedCaption: 'caption',
+  generatedHashtags: 'hashtags',
+};
+
+export const getPresenceFieldLabel = (field: PresenceField): string => FIELD_LABELS[field];
+
+// Join a client's presence channel; onPeers gets everyone else on every change
+export const joinClientPresence = (
+  clientId: string,
+  me: Pick<PresenceState, 'userId' | 'name'>,
+  onPeers: (peers: PresencePeer[]) => void
+): PresenceConnection => {
+  const key = `${me.userId}:${crypto.randomUUID()}`; // One key per tab
+  let state: PresenceState = { ...me, viewingPostId: null, editing: null };
+  let joined = false;
+
+  const channel: RealtimeChannel = supabase.channel(`client-presence:${clientId}`, {
+    config: { private: true, presence: { key } },
+  });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const peers = Object.entries(channel.presenceState<PresenceState>())
+        .filter(([peerKey]) => peerKey !== key)
+        .map(([peerKey, metas]) => ({ ...metas[metas.length - 1], key: peerKey }));
+      onPeers(peers);
+    })
+    .subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        joined = true;
+        await channel.track(state);
+      } else if (status === 'CHANNEL_ERROR') {
+        console.error('Presence channel error - is add-edit-presence-schema.sql applied?');
+      }
+    });
+
+  return {
+    update: (next) => {
+      state = { ...state, ...next };
+      if (joined) channel.track(state);
+    },
+    leave: () => {
+      onPeers([]);
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
+// Distinct people viewing or editing a post (editors first)
+export const getPostPeers = (peers: PresencePeer[], postId: string): PresencePeer[] => {
+  const onPost = peers
+    .filter(peer => peer.viewingPostId === postId || peer.editing?.postId === postId)
+    .sort((a, b) => Number(b.editing?.postId === postId) - Number(a.editing?.postId === postId));
+  return onPost.filter((peer, index) => onPost.findIndex(other => other.userId === peer.userId) === index);
+};
+
+// Who else is typing in a field right now (the soft lock)
+export const getFieldEditor = (peers: PresencePeer[], postId: string, field: PresenceField): PresencePeer | undefined => {
+  return peers.find(peer => peer.editing?.postId === postId && peer.editing.field === field);
+};
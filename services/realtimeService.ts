@@ -0,0 +1,105 @@
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+
+// Realtime Service - live post changes, applied row by row
+// Subscribers get each INSERT/UPDATE/DELETE instead of re-downloading
+// everything. If the channel drops it is rebuilt with backoff, and onResync
+// runs once it is back so the caller can backfill whatever it missed.
+
+export type PostRow = Record<string, any>;
+
+export type PostRowChange =
+  | { type: 'upsert'; row: PostRow } // INSERT or UPDATE (a trashed post arrives as an update with deleted_at set)
+  | { type: 'delete'; id: string }
+  | { type: 'reload'; id: string }; // Row too large for the payload - fetch it
+
+// Other tables on the same channel that only need a "something changed" ping
+export interface TableWatch {
+  table: string;
+  onChange: () => void;
+}
+
+interface PostChangesOptions {
+  channelName: string;
+  clientId?: string; // Only this client's posts (all the user can see if omitted)
+  onChange: (change: PostRowChange) => void;
+  onResync: () => void;
+  alsoWatch?: TableWatch[]; // Filtered by the same client_id
+}
+
+const RETRY_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+// Subscribe to post changes; returns the unsubscribe function
+export const subscribeToPostChanges = ({ channelName, clientId, onChange, onResync, alsoWatch = [] }: PostChangesOptions): (() => void) => {
+  const filter = clientId ? `client_id=eq.${clientId}` : undefined;
+  let channel: RealtimeChannel | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let dropped = false; // Lost the channel - backfill when it's back
+  let stopped = false;
+
+  const handlePostChange = (payload: RealtimePostgresChangesPayload<PostRow>) => {
+    if (payload.eventType === 'DELETE') {
+      // DELETE events can't be filtered, so ids from other clients arrive too - removing them is a no-op
+      if (payload.old?.id) onChange({ type: 'delete', id: payload.old.id });
+    } else if (payload.errors?.length) {
+      // Large rows (e.g. base64 media) come through with only some columns
+      if (payload.new?.id) onChange({ type: 'reload', id: payload.new.id });
+    } else {
+      onChange({ type: 'upsert', row: payload.new });
+    }
+  };
+
+  const connect = () => {
+    let next = supabase
+      .channel(`${channelName}:${crypto.randomUUID()}`) // Fresh topic per attempt - a removed channel can't be rejoined
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'posts', filter }, handlePostChange);
+    for (const watch of alsoWatch) {
+      next = next.on('postgres_changes', { event: '*', schema: 'public', table: watch.table, filter }, () => watch.onChange());
+    }
+    const current = next;
+    channel = current;
+
+    current.subscribe((status) => {
+      if (stopped || channel !== current) return; // A channel we've already replaced
+      if (status === 'SUBSCRIBED') {
+        attempts = 0;
+        if (dropped) {
+          dropped = false;
+          onResync();
+        }
+      } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+        dropped = true;
+        channel = null;
+        const delay = RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length - 1)];
+        attempts++;
+        console.warn(`Realtime ${channelName} ${status.toLowerCase()} - reconnecting in ${delay / 1000}s`);
+        retryTimer = setTimeout(reconnect, delay);
+        supabase.removeChannel(current);
+      }
+    });
+  };
+
+  const reconnect = () => {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    if (!stopped) connect();
+  };
+
+  // Back online or back on the tab - don't wait out the backoff
+  const handleWake = () => {
+    if (retryTimer && document.visibilityState === 'visible') reconnect();
+  };
+
+  connect();
+  window.addEventListener('online', handleWake);
+  document.addEventListener('visibilitychange', handleWake);
+
+  return () => {
+    stopped = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    window.removeEventListener('online', handleWake);
+    document.removeEventListener('visibilitychange', handleWake);
+    if (channel) supabase.removeChannel(channel);
+  };
+};
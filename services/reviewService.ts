@@ -0,0 +1,104 @@
+import { Post } from '../types';
+import { getSessionToken } from './authService';
+
+// Review Service - magic-link approvals
+// Agency staff create signed links (/api/review-links) to include in review emails;
+// clients open them without logging in and act through /api/review
+
+export interface ReviewPostLink {
+  postId: string;
+  title: string;
+  date: string;
+  url: string;
+}
+
+export interface ReviewLinks {
+  url: string;
+  expiresAt: string;
+  postLinks?: ReviewPostLink[];
+}
+
+// Sign-offs on one post so far (the client may need several before it's Approved)
+export interface ReviewPostApproval {
+  approverNames: string[];
+  approvedByYou: boolean;
+}
+
+export interface ReviewData {
+  clientName: string;
+  scope: 'post' | 'month';
+  month: string | null;
+  recipientName: string | null;
+  expiresAt: string;
+  posts: Post[];
+  approvals: {
+    needed: number; // Approvals a post needs before it's Approved
+    posts: Record<string, ReviewPostApproval>;
+  };
+}
+
+export type ReviewAction = 'approve' | 'revision';
+
+// Create a month link (plus one link per post awaiting approval)
+export const createMonthReviewLinks = async (
+  clientId: string,
+  month: string,
+  recipient?: { name?: string; email?: string }
+): Promise<ReviewLinks> => {
+  return requestReviewLinks({ clientId, month, recipientName: recipient?.name, recipientEmail: recipient?.email });
+};
+
+const requestReviewLinks = async (body: Record<string, string | undefined>): Promise<ReviewLinks> => {
+  const token = getSessionToken();
+  const response = await fetch('/api/review-links', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to create review link: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Load the posts a review link covers
+export const getReview = async (reviewToken: string): Promise<ReviewData> => {
+  const response = await fetch(`/api/review?token=${encodeURIComponent(reviewToken)}`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to load review: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Approve a post or request a revision from a review link
+export const submitReviewAction = async (
+  reviewToken: string,
+  postId: string,
+  action: ReviewAction,
+  note?: string
+): Promise<{ post: Post; approval: ReviewPostApproval }> => {
+  const response = await fetch('/api/review', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ token: reviewToken, postId, action, note }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Failed to submit review: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return { post: data.post, approval: data.approval };
+};
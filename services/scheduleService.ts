@@ -0,0 +1,99 @@
+import { Client, Post } from '../types';
+
+// Schedule Service - publish times and client timezones
+// A post's date + publish time is a wall-clock time in its client's timezone.
+// Late receives it as-is with the timezone; Meta needs the UTC instant.
+
+export const DEFAULT_TIMEZONE = 'Australia/Sydney';
+export const DEFAULT_PUBLISH_TIME = '12:00';
+
+// Timezones offered in client settings
+export const TIMEZONE_OPTIONS = [
+  'Australia/Sydney',
+  'Australia/Melbourne',
+  'Australia/Brisbane',
+  'Australia/Adelaide',
+  'Australia/Darwin',
+  'Australia/Hobart',
+  'Australia/Perth',
+  'Pacific/Auckland',
+  'Asia/Singapore',
+  'Europe/London',
+  'America/New_York',
+  'America/Los_Angeles',
+  'UTC',
+];
+
+export const getPublishTime = (post: Pick<Post, 'publishTime'>): string => {
+  return post.publishTime || DEFAULT_PUBLISH_TIME;
+};
+
+export const getClientTimezone = (client?: Pick<Client, 'timezone'> | null): string => {
+  return client?.timezone || DEFAULT_TIMEZONE;
+};
+
+// Today's date (YYYY-MM-DD) on a timezone's wall clock
+export const getTodayInTimezone = (timeZone: string): string => {
+  return new Date().toLocaleDateString('en-CA', { timeZone });
+};
+
+// Wall-clock date-time without an offset, e.g. 2025-03-01T09:30:00 (Late pairs it with a timezone)
+export const toLocalDateTime = (date: string, time: string): string => {
+  return `${date}T${time}:00`;
+};
+
+// Offset of a timezone from UTC (in ms) at a given instant
+const getTimezoneOffset = (timestamp: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+};
+
+// UTC instant of a wall-clock time in a timezone (independent of the browser's zone)
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Re-check the offset at the result in case it crosses a daylight saving change
+  const offset = getTimezoneOffset(wallClock, timeZone);
+  const adjustedOffset = getTimezoneOffset(wallClock - offset, timeZone);
+  return new Date(wallClock - adjustedOffset);
+};
+
+// When a post publishes, as an ISO string (for APIs that need an absolute time)
+export const getPublishInstant = (post: Pick<Post, 'date' | 'publishTime'>, client?: Pick<Client, 'timezone'> | null): string => {
+  return zonedTimeToUtc(post.date, getPublishTime(post), getClientTimezone(client)).toISOString();
+};
+
+// 24h "HH:MM" to "9:30 am"
+export const formatPublishTime = (time: string): string => {
+  const [hour, minute] = time.split(':').map(Number);
+  const suffix = hour < 12 ? 'am' : 'pm';
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${suffix}`;
+};
+
+// Short zone name for a date, e.g. "AEDT"
+export const getTimezoneAbbreviation = (timeZone: string, date?: string): string => {
+  const at = date ? new Date(`${date}T12:00:00Z`) : new Date();
+  const part = new Intl.DateTimeFormat('en-AU', { timeZone, timeZoneName: 'short' })
+    .formatToParts(at)
+    .find(p => p.type === 'timeZoneName');
+  return part?.value || timeZone;
+};
+
+// Order posts by date, then publish time
+export const comparePublishTime = (a: Pick<Post, 'date' | 'publishTime'>, b: Pick<Post, 'date' | 'publishTime'>): number => {
+  return (a.date || '').localeCompare(b.date || '') || getPublishTime(a).localeCompare(getPublishTime(b));
+};
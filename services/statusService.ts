@@ -0,0 +1,33 @@
+import { PostStatus } from '../types';
+
+// Status Service - the post status state machine
+// Mirrors post_status_transitions (add-post-status-schema.sql); the database
+// rejects anything not listed here, this copy keeps the UI from offering it.
+
+export const STATUS_TRANSITIONS: Record<PostStatus, PostStatus[]> = {
+  'Draft': ['Generated', 'For Approval', 'Approved'],
+  'Generated': ['Draft', 'For Approval', 'Approved'],
+  'For Approval': ['Draft', 'Revision', 'Approved'],
+  'Revision': ['Draft', 'Generated', 'For Approval', 'Approved'],
+  'Approved': ['Draft', 'For Approval', 'Revision', 'Scheduled', 'Failed'],
+  'Scheduled': ['Published', 'Failed'],
+  'Published': [],
+  'Failed': ['Draft', 'For Approval', 'Revision', 'Approved'],
+};
+
+// Statuses people can pick - the rest come from scheduling and publishing
+export const MANUAL_STATUSES: PostStatus[] = ['Draft', 'Generated', 'For Approval', 'Revision', 'Approved'];
+
+export const canTransition = (from: PostStatus, to: PostStatus): boolean => {
+  return from === to || STATUS_TRANSITIONS[from]?.includes(to) || false;
+};
+
+// Options for a status picker: the current status plus every allowed manual move
+export const getStatusOptions = (current: PostStatus): PostStatus[] => {
+  return [current, ...STATUS_TRANSITIONS[current].filter(status => MANUAL_STATUSES.includes(status))];
+};
+
+// Handed off to Late/Meta - the content can no longer be changed here
+export const isLockedStatus = (status: PostStatus): boolean => {
+  return status === 'Scheduled' || status === 'Published';
+};
@@ -1,5 +1,5 @@
 import { supabase } from './supabaseClient';
-import { MediaType } from '../types';
+import { MediaType, MediaItem, Post } from '../types';
 
 const BUCKET_NAME = 'post-images';
 
@@ -11,6 +11,9 @@ const VIDEO_MIME_TYPES = ['video/mp4', 'video/quicktime', 'video/webm', 'video/x
 const MAX_IMAGE_SIZE = 8 * 1024 * 1024; // 8MB
 const MAX_VIDEO_SIZE = 500 * 1024 * 1024; // 500MB (reasonable limit for web upload)
 
+// Instagram allows up to 10 items in a carousel
+export const MAX_MEDIA_ITEMS = 10;
+
 // Instagram aspect ratio requirements
 const MIN_ASPECT_RATIO = 0.75; // 4:5 portrait
 const MAX_ASPECT_RATIO = 1.91; // landscape
@@ -320,6 +323,40 @@ export const uploadMedia = async (
   }
 };
 
+/**
+ * Ordered media for a post
+ * Falls back to the single imageUrl for posts saved before carousels
+ */
+export const getMediaItems = (post: Pick<Post, 'imageUrl' | 'mediaType' | 'mediaItems'>): MediaItem[] => {
+  if (post.mediaItems && post.mediaItems.length > 0) {
+    return post.mediaItems;
+  }
+  if (post.imageUrl) {
+    return [{ url: post.imageUrl, type: post.mediaType || detectMediaType(post.imageUrl) }];
+  }
+  return [];
+};
+
+/**
+ * Post fields for a new media list - imageUrl/mediaType always mirror the first item
+ */
+export const toMediaFields = (items: MediaItem[]): Pick<Post, 'mediaItems' | 'imageUrl' | 'mediaType'> => ({
+  mediaItems: items,
+  imageUrl: items[0]?.url || '',
+  mediaType: items[0]?.type || 'image',
+});
+
+/**
+ * Move a media item one place earlier (-1) or later (+1)
+ */
+export const moveMediaItem = (items: MediaItem[], index: number, direction: -1 | 1): MediaItem[] => {
+  const target = index + direction;
+  if (target < 0 || target >= items.length) return items;
+  const reordered = [...items];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+};
+
 /**
  * Delete an image from Supabase Storage
  * @param url - Public URL of the image to delete
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { getSessionToken } from './authService';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,4 +8,8 @@ if (!supabaseUrl || !supabaseAnonKey) {
   console.error("Supabase URL or Key is missing!");
 }
 
-export const supabase = createClient(supabaseUrl || '', supabaseAnonKey || '');
\ No newline at end of file
+// Every request carries the signed session token from /api/login so that
+// Row Level Security can scope rows to the signed-in person's clients
+export const supabase = createClient(supabaseUrl || '', supabaseAnonKey || '', {
+  accessToken: async () => getSessionToken(),
+});
@@ -0,0 +1,84 @@
+import { supabase } from './supabaseClient';
+import { MediaType, TrashedPost } from '../types';
+import { CHANGE_SOURCE_HEADER, ChangeSource } from './postHistoryService';
+
+// Trash Service - soft delete, restore and purge
+// Deleted posts keep their row with deleted_at set; only trashed posts can be
+// purged (RLS), and /api/cleanup-storage purges them after TRASH_RETENTION_DAYS.
+
+// Keep in sync with TRASH_RETENTION_DAYS in api/cleanup-storage.ts
+export const TRASH_RETENTION_DAYS = 30;
+
+// A client's trashed posts, most recently deleted first
+export const getTrashedPosts = async (clientId: string): Promise<TrashedPost[]> => {
+  const { data, error } = await supabase
+    .from('posts')
+    .select('id, title, date, status, image_url, media_type, generated_caption, deleted_at')
+    .eq('client_id', clientId)
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load the trash: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({
+    id: row.id,
+    title: row.title || '',
+    date: row.date || '',
+    status: row.status,
+    imageUrl: row.image_url || '',
+    mediaType: (row.media_type as MediaType) || 'image',
+    caption: row.generated_caption || '',
+    deletedAt: row.deleted_at,
+  }));
+};
+
+export const trashPosts = async (ids: string[], source: ChangeSource = 'edit'): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('posts')
+    .update({ deleted_at: new Date().toISOString() })
+    .in('id', ids)
+    .setHeader(CHANGE_SOURCE_HEADER, source);
+
+  if (error) {
+    throw new Error(`Failed to move posts to the trash: ${error.message}`);
+  }
+};
+
+export const restorePosts = async (ids: string[], source: ChangeSource = 'restore'): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('posts')
+    .update({ deleted_at: null })
+    .in('id', ids)
+    .setHeader(CHANGE_SOURCE_HEADER, source);
+
+  if (error) {
+    throw new Error(`Failed to restore posts: ${error.message}`);
+  }
+};
+
+// Permanently delete trashed posts - their media is queued for storage cleanup
+export const purgePosts = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('posts')
+    .delete()
+    .in('id', ids)
+    .not('deleted_at', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to delete posts: ${error.message}`);
+  }
+};
+
+// Whole days until the cleanup job purges a trashed post (0 = due now)
+export const getDaysLeftInTrash = (deletedAt: string, now: Date = new Date()): number => {
+  const elapsedDays = (now.getTime() - new Date(deletedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsedDays));
+};
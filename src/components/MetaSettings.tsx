@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
-import { Client } from '../../types';
+import React, { useState, useEffect } from 'react';
+import { Client, ClientSecretStatus } from '../../types';
 import { supabase } from '../../services/supabaseClient';
-import { Check, X, AlertCircle } from 'lucide-react';
+import { MetaService } from '../services/metaService';
+import { Check, X, AlertCircle, Loader2, KeyRound } from 'lucide-react';
 
 interface MetaSettingsProps {
   client: Client;
@@ -12,17 +13,56 @@ interface MetaSettingsProps {
 export function MetaSettings({ client, onUpdate, onClose }: MetaSettingsProps) {
   const [formData, setFormData] = useState({
     meta_page_id: client.meta_page_id || '',
-    meta_access_token: client.meta_access_token || '',
     instagram_account_id: client.instagram_account_id || '',
     auto_post_enabled: client.auto_post_enabled || false,
     auto_post_to_facebook: client.auto_post_to_facebook ?? true,
     auto_post_to_instagram: client.auto_post_to_instagram ?? true,
   });
 
+  // The stored token is never sent to the browser - only a masked status.
+  // A new token typed here replaces it on save.
+  const [newAccessToken, setNewAccessToken] = useState('');
+  const [tokenStatus, setTokenStatus] = useState<ClientSecretStatus | null>(null);
+  const [loadingTokenStatus, setLoadingTokenStatus] = useState(true);
+  const [removingToken, setRemovingToken] = useState(false);
+
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState(false);
 
+  useEffect(() => {
+    MetaService.getCredentialStatus(client.id)
+      .then(setTokenStatus)
+      .catch((err) => {
+        console.error('Error loading Meta token status:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load access token status');
+      })
+      .finally(() => setLoadingTokenStatus(false));
+  }, [client.id]);
+
+  const handleRemoveToken = async () => {
+    if (!confirm('Remove the stored Meta access token? Auto-posting will stop until a new token is saved.')) return;
+
+    setRemovingToken(true);
+    setError('');
+    try {
+      await MetaService.removeAccessToken(client.id);
+      setTokenStatus(null);
+    } catch (err) {
+      console.error('Error removing Meta token:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove access token');
+    } finally {
+      setRemovingToken(false);
+    }
+  };
+
+  const formatExpiry = (status: ClientSecretStatus): string => {
+    if (!status.expiresAt) return 'Never expires';
+    const expires = new Date(status.expiresAt);
+    const label = expires.toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' });
+    return expires.getTime() < Date.now() ? `Expired ${label}` : `Expires ${label}`;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
@@ -34,7 +74,6 @@ export function MetaSettings({ client, onUpdate, onClose }: MetaSettingsProps) {
         .from('clients')
         .update({
           meta_page_id: formData.meta_page_id || null,
-          meta_access_token: formData.meta_access_token || null,
           instagram_account_id: formData.instagram_account_id || null,
           auto_post_enabled: formData.auto_post_enabled,
           auto_post_to_facebook: formData.auto_post_to_facebook,
@@ -46,6 +85,13 @@ export function MetaSettings({ client, onUpdate, onClose }: MetaSettingsProps) {
 
       if (updateError) throw updateError;
 
+      // Verified with Meta and encrypted server-side
+      if (newAccessToken.trim()) {
+        const status = await MetaService.saveAccessToken(client.id, newAccessToken.trim());
+        setTokenStatus(status);
+        setNewAccessToken('');
+      }
+
       setSuccess(true);
       onUpdate({ ...client, ...formData });
 
@@ -119,20 +165,48 @@ export function MetaSettings({ client, onUpdate, onClose }: MetaSettingsProps) {
               </p>
             </div>
 
-            {/* Access Token */}
+            {/* Access Token (write-only) */}
             <div>
               <label className="block text-sm font-bold text-stone-700 mb-2">
                 Meta Access Token
               </label>
+              <div className="mb-2 p-3 bg-stone-50 border border-stone-200 rounded-lg flex items-center justify-between gap-3">
+                {loadingTokenStatus ? (
+                  <span className="flex items-center gap-2 text-xs text-stone-500">
+                    <Loader2 className="w-4 h-4 animate-spin" /> Checking stored token...
+                  </span>
+                ) : tokenStatus ? (
+                  <>
+                    <div className="flex items-center gap-2 min-w-0">
+                      <KeyRound className="w-4 h-4 text-stone-500 shrink-0" />
+                      <span className="font-mono text-xs text-stone-700">{tokenStatus.maskedToken}</span>
+                      <span className={`text-xs ${tokenStatus.expiresAt && new Date(tokenStatus.expiresAt).getTime() < Date.now() ? 'text-red-600 font-medium' : 'text-stone-500'}`}>
+                        {formatExpiry(tokenStatus)}
+                      </span>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleRemoveToken}
+                      disabled={removingToken}
+                      className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+                    >
+                      {removingToken ? 'Removing...' : 'Remove'}
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs text-stone-500">No access token stored</span>
+                )}
+              </div>
               <textarea
-                value={formData.meta_access_token}
-                onChange={(e) => setFormData({ ...formData, meta_access_token: e.target.value })}
-                placeholder="EAAxxxxxxxxxxxx..."
+                value={newAccessToken}
+                onChange={(e) => setNewAccessToken(e.target.value)}
+                placeholder={tokenStatus ? 'Paste a new token to replace the stored one' : 'EAAxxxxxxxxxxxx...'}
                 rows={3}
+                autoComplete="off"
                 className="w-full px-4 py-2 border border-stone-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-green font-mono text-xs"
               />
               <p className="mt-1 text-xs text-stone-500">
-                Generate this from Meta for Developers
+                Generate this from Meta for Developers. It is encrypted on save and can't be viewed again.
               </p>
             </div>
 
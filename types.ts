@@ -1,7 +1,6 @@
 export interface Client {
   id: string;
   name: string;
-  pin: string;
   brand_name: string;
   brand_mission?: string;
   brand_tone?: string;
@@ -11,17 +10,53 @@ export interface Client {
   contact_name?: string;
   contact_email?: string;
   meta_page_id?: string;
-  meta_access_token?: string;
   instagram_account_id?: string;
-  meta_token_expires_at?: string;
   auto_post_enabled?: boolean;
   auto_post_to_facebook?: boolean;
   auto_post_to_instagram?: boolean;
   late_profile_ids?: string[]; // IDs of Late social profiles assigned to this client
+  timezone?: string; // IANA timezone posts are published in (default Australia/Sydney)
+  content_pillars?: ContentPillar[]; // Client-defined pillars posts are grouped by
+  approval_quorum?: number; // Approvals a post needs before it is Approved (default 1)
+  required_approvers?: string[]; // User IDs (client approvers) who must each approve
+  approval_lead_days?: number; // Posts should be approved this many days before their date (0 = no deadline)
+  is_agency?: boolean; // The agency's own record (Seam Media) - hidden from client lists
   created_at: string;
   updated_at: string;
 }
 
+// Colours a content pillar can use (see PILLAR_COLORS in services/pillarService.ts)
+export type PillarColor = 'emerald' | 'sky' | 'violet' | 'amber' | 'rose' | 'teal' | 'orange' | 'indigo';
+
+export interface ContentPillar {
+  id: string;
+  name: string;
+  color: PillarColor;
+}
+
+// Per-person account roles
+// Agency roles can see every client; client roles are limited to their client_ids
+export type UserRole = 'agency_admin' | 'agency_editor' | 'client_approver' | 'client_viewer';
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  client_ids: string[];
+}
+
+// Encrypted client credentials (stored server-side in client_secrets)
+export type SecretProvider = 'meta';
+
+// What the browser is allowed to see about a stored credential
+export interface ClientSecretStatus {
+  provider: SecretProvider;
+  maskedToken: string;
+  expiresAt: string | null; // null = never expires
+  updatedAt: string;
+}
+
 // Gmail OAuth settings (stored in localStorage for single sender)
 export interface GmailSettings {
   accessToken: string;
@@ -32,18 +67,145 @@ export interface GmailSettings {
 
 export type MediaType = 'image' | 'video';
 
+// One image or video in a post (stored in posts.media_items)
+export interface MediaItem {
+  url: string;
+  type: MediaType;
+}
+
+// Platforms that can have their own caption (Late platform ids - 'twitter' is X)
+export type SocialPlatform = 'instagram' | 'facebook' | 'linkedin' | 'tiktok' | 'twitter' | 'threads';
+
+// Per-platform override - anything left out falls back to the base caption/hashtags
+export interface CaptionVariant {
+  caption?: string;
+  hashtags?: string[];
+}
+
+export type CaptionVariants = Partial<Record<SocialPlatform, CaptionVariant>>;
+
+// Scheduled/Published/Failed are set by the scheduling code, not picked by hand
+export type PostStatus = 'Draft' | 'Generated' | 'For Approval' | 'Revision' | 'Approved' | 'Scheduled' | 'Published' | 'Failed';
+
 export interface Post {
   id: string;
   client_id: string;
   title: string;
   imageDescription: string;
-  imageUrl?: string; // URL or base64 - used for both images and videos
-  mediaType?: MediaType; // Type of media: 'image' or 'video'
-  status: 'Draft' | 'Generated' | 'For Approval' | 'Revision' | 'Approved' | 'Posted';
+  imageUrl?: string; // URL or base64 - used for both images and videos (mirrors the first media item)
+  mediaType?: MediaType; // Type of media: 'image' or 'video' (mirrors the first media item)
+  mediaItems?: MediaItem[]; // Ordered media - more than one item is published as a carousel
+  status: PostStatus;
+  publishError?: string; // Why scheduling/publishing failed (status Failed)
+  latePostId?: string; // Late post id once scheduled
   generatedCaption?: string;
   generatedHashtags?: string[];
-  date: string;
-  notes?: string;
+  captionVariants?: CaptionVariants; // Per-platform overrides of generatedCaption/generatedHashtags
+  date: string; // YYYY-MM-DD, '' = unscheduled idea in the backlog
+  publishTime?: string; // "HH:MM" on the post's date, in the client's timezone (default 12:00)
+  pillarId?: string; // One of the client's content_pillars
+  campaign?: string;
+  tags?: string[];
+  revision?: number; // Bumped on every update - edits are written against it (add-post-revisions-schema.sql)
+}
+
+// An edit the database rejected because the post changed after the editor
+// started from it - the user picks their value, the server's, or a merge
+export interface PostEditConflict {
+  postId: string;
+  field: keyof Post;
+  mine: unknown;
+  theirs: unknown;
+  revision: number; // Server revision the resolution is written against
+}
+
+// Audit log entry (post_events) - one per changed field
+export type PostEventType = 'insert' | 'update' | 'delete' | 'status_change';
+
+export interface PostEvent {
+  id: string;
+  postId: string;
+  eventType: PostEventType;
+  field?: string; // DB column name, e.g. 'generated_caption'
+  oldValue?: unknown;
+  newValue?: unknown;
+  actorName: string;
+  source: string; // 'edit', 'approve_all', 'auto_post', ...
+  createdAt: string;
+}
+
+// Threaded comment on a post (post_comments) - replies point at a top-level comment
+export interface PostComment {
+  id: string;
+  postId: string;
+  parentId?: string;
+  body: string;
+  authorName: string;
+  authorRole: string; // UserRole of the author; review-link comments count as client_approver
+  mentions: string[]; // users.id of mentioned agency staff
+  resolved: boolean;
+  resolvedByName?: string;
+  resolvedAt?: string;
+  pin?: CommentPin; // Top-level comments only
+  internal: boolean; // Agency-only note - never returned to client sessions
+  createdAt: string;
+}
+
+// Where a comment is pinned on a post's media - x/y are 0-1 of the media's width/height
+export interface CommentPin {
+  mediaUrl: string;
+  x?: number;
+  y?: number;
+  time?: number; // Video timestamp in seconds
+}
+
+// An open pin on an image, as passed to the AI image edit
+export interface ImageAnnotation {
+  x: number;
+  y: number;
+  note: string;
+}
+
+// Agency staff that can be @mentioned
+export interface MentionableUser {
+  id: string;
+  name: string;
+}
+
+// Caption history (caption_versions) - one per caption/hashtags version
+export type CaptionSource = 'manual' | 'ai_generate' | 'ai_feedback' | 'restore';
+
+export interface CaptionVersion {
+  id: string;
+  postId: string;
+  caption: string;
+  hashtags: string[];
+  source: CaptionSource;
+  actorName: string;
+  createdAt: string;
+}
+
+// A post in the trash (posts.deleted_at set) - what the trash view lists
+export interface TrashedPost {
+  id: string;
+  title: string;
+  date: string; // '' if it was a backlog idea
+  status: PostStatus;
+  imageUrl: string;
+  mediaType: MediaType;
+  caption: string;
+  deletedAt: string;
+}
+
+// One person's sign-off on a post (post_approvals) - see services/approvalService.ts
+export interface PostApproval {
+  id: string;
+  postId: string;
+  userId?: string; // Unset for review-link reviewers without an account
+  approverName: string;
+  approverRole?: string;
+  source: 'app' | 'review_link';
+  createdAt: string;
 }
 
 export interface BrandContext {